@@ -1,20 +1,55 @@
 
-import React, { useState, useEffect, createContext, useContext, useCallback, useMemo, PropsWithChildren, Dispatch, SetStateAction } from 'react';
-import { HashRouter, Routes, Route, Link, NavLink, useNavigate, useLocation, Navigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef, createContext, useContext, useCallback, useMemo, PropsWithChildren, Dispatch, SetStateAction } from 'react';
+import { HashRouter, Routes, Route, Link, NavLink, useNavigate, useLocation, useSearchParams, Navigate } from 'react-router-dom';
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts';
-import { ThemeMode, User, Account, Category, Transaction, Budget, Settings, CategoryType, AccountType, BudgetPeriod, ChartDataPoint, IncomeExpenseChartDataPoint } from './types';
-import { DEFAULT_INITIAL_CATEGORIES, DEFAULT_INITIAL_ACCOUNTS, ICON_LIST, COLOR_LIST, ACCOUNT_TYPE_OPTIONS } from './constants';
+import { ThemeMode, User, StoredUser, WrappedDataKey, Account, StoredAccount, CurrencyCode, ExchangeRate, Category, Transaction, TransactionSplit, TransactionAttachment, TransactionType, RecurringTransaction, RecurrenceFrequency, Budget, SavingsGoal, GoalContribution, Loan, LoanInterestMethod, CategorizationRule, RuleMatchMode, Settings, CategoryType, AccountType, BudgetPeriod, ChartDataPoint, IncomeExpenseChartDataPoint } from './types';
+import { APP_NAME, AUTO_LOCK_MINUTES, CREDIT_CARD_MINIMUM_PAYMENT_PERCENT, DEFAULT_CURRENCY, DEFAULT_LOCALE, MAX_ATTACHMENT_SIZE_MB, DEFAULT_SETTINGS, LANGUAGE_LOCALES, DATE_FORMAT_OPTIONS, CURRENCY_OPTIONS, DEFAULT_INITIAL_CATEGORIES, DEFAULT_INITIAL_ACCOUNTS, ICON_LIST, COLOR_LIST, ACCOUNT_TYPE_OPTIONS } from './constants';
+import { MessageKey, MessageParams, translate } from './i18n';
 
 // UTILITY FUNCTIONS
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const ACCOUNT_TYPE_LABELS: Record<AccountType, MessageKey> = {
+  [AccountType.BANK]: 'accountType.bank',
+  [AccountType.EWALLET]: 'accountType.ewallet',
+  [AccountType.CREDIT_CARD]: 'accountType.creditCard',
+  [AccountType.CASH]: 'accountType.cash',
+};
+
+const getCurrencyLabelKey = (currency: CurrencyCode) => `currency.${currency}` as MessageKey;
+
 const generateId = () => `id-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-const formatCurrencyIDR = (amount: number): string => {
-  return new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
+const getCurrencyFractionDigits = (currency: CurrencyCode): number => CURRENCY_OPTIONS.find(option => option.value === currency)?.fractionDigits ?? 2;
+
+const formatCurrency = (amount: number, currency: CurrencyCode, locale: string = DEFAULT_LOCALE): string => {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency, minimumFractionDigits: 0, maximumFractionDigits: getCurrencyFractionDigits(currency) }).format(amount);
+};
+
+// Rounds to the smallest unit the currency uses, e.g. whole rupiah or cents
+const roundCurrencyAmount = (amount: number, currency: CurrencyCode): number => {
+  const factor = 10 ** getCurrencyFractionDigits(currency);
+  return Math.round(amount * factor) / factor;
+};
+
+// Short form for chart axes, e.g. "Rp 1,5 jt"
+const formatCompactCurrency = (amount: number, currency: CurrencyCode, locale: string = DEFAULT_LOCALE): string => {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency, notation: 'compact', maximumFractionDigits: 1 }).format(amount);
 };
 
-const formatDateID = (dateString: string): string => {
+const formatDateID = (dateString: string, dateFormat: Settings['dateFormat'] = DEFAULT_SETTINGS.dateFormat): string => {
   const date = new Date(dateString);
-  return new Intl.DateTimeFormat('id-ID', { day: '2-digit', month: 'long', year: 'numeric' }).format(date);
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const year = String(date.getFullYear());
+  if (dateFormat === 'MM/DD/YYYY') return `${month}/${day}/${year}`;
+  if (dateFormat === 'YYYY-MM-DD') return `${year}-${month}-${day}`;
+  return `${day}/${month}/${year}`;
+};
+
+// Short month and year for chart axes, e.g. "Mei 24"
+const formatMonthLabel = (date: Date, locale: string = DEFAULT_LOCALE): string => {
+  return `${new Intl.DateTimeFormat(locale, { month: 'short' }).format(date)} ${date.getFullYear().toString().slice(-2)}`;
 };
 
 const formatDateForInput = (dateString?: string): string => {
@@ -22,28 +57,674 @@ const formatDateForInput = (dateString?: string): string => {
   return new Date(dateString).toISOString().split('T')[0];
 };
 
-
-// LOCAL STORAGE HOOK
-function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.error(`Error reading localStorage key "${key}":`, error);
-      return initialValue;
+// Parses CSV text into rows of cells. Detects ',', ';' or tab delimiters and handles quoted fields.
+const parseCSV = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [';', '\t'].reduce((best, candidate) => firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
     }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Parses amounts like "50.000", "1,250,000.00", "-75.000,50" or "(20000)". Returns null when not a number.
+const parseAmountString = (value: string): number | null => {
+  const trimmed = value.trim();
+  const isNegative = trimmed.includes('-') || /^\(.*\)$/.test(trimmed);
+  let cleaned = trimmed.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(cleaned)) return null;
+
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  if (lastComma > -1 && lastDot > -1) {
+    // Whichever separator comes last is the decimal separator
+    cleaned = lastComma > lastDot ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  } else if (lastComma > -1) {
+    cleaned = /^\d{1,3}(,\d{3})+$/.test(cleaned) ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.');
+  } else if (lastDot > -1) {
+    cleaned = /^\d{1,3}(\.\d{3})+$/.test(cleaned) ? cleaned.replace(/\./g, '') : cleaned;
+  }
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) return null;
+  return isNegative ? -amount : amount;
+};
+
+// Parses a date string in the given format (time part ignored) into an ISO string. Returns null when invalid.
+const parseDateString = (value: string, format: Settings['dateFormat']): string | null => {
+  const parts = value.trim().split(/[\sT]/)[0].split(/[\/.-]/);
+  if (parts.length !== 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+
+  let [day, month, year] = format === 'MM/DD/YYYY' ? [parts[1], parts[0], parts[2]]
+    : format === 'YYYY-MM-DD' ? [parts[2], parts[1], parts[0]]
+    : parts;
+  if (year.length === 2) year = `20${year}`;
+  const isoDay = `${year.padStart(4, '0')}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const date = new Date(isoDay);
+  if (isNaN(date.getTime()) || date.toISOString().split('T')[0] !== isoDay) return null;
+  return date.toISOString();
+};
+
+// Serializes rows into CSV text, quoting cells that contain delimiters, quotes or line breaks.
+// Text starting like a formula gets a leading ' so spreadsheet apps show it instead of running it; numbers are written as they are.
+const toCSV = (rows: (string | number)[][]): string => {
+  return rows.map(row => row.map(value => {
+    const cell = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }).join(',')).join('\r\n');
+};
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const ATTACHMENT_THUMBNAIL_SIZE = 96; // Pixels along the longer side
+
+// Small JPEG preview of an image, or undefined for files the browser cannot draw (e.g. PDF)
+const createThumbnail = (file: Blob): Promise<string | undefined> => new Promise(resolve => {
+  if (!file.type.startsWith('image/')) {
+    resolve(undefined);
+    return;
+  }
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    const scale = Math.min(ATTACHMENT_THUMBNAIL_SIZE / image.width, ATTACHMENT_THUMBNAIL_SIZE / image.height, 1);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(Math.round(image.width * scale), 1);
+    canvas.height = Math.max(Math.round(image.height * scale), 1);
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL('image/jpeg', 0.7));
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    resolve(undefined);
+  };
+  image.src = url;
+});
+
+const formatFileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(Math.round(bytes / 1024), 1)} KB`;
+
+
+// Balance change a transaction applies to each account it touches
+const getBalanceImpacts = (tx: Omit<Transaction, 'id'>): { accountId: string; amount: number }[] => {
+  if (tx.type === 'transfer') {
+    return [
+      { accountId: tx.accountId, amount: -(tx.amount + (tx.fee || 0)) },
+      { accountId: tx.toAccountId || '', amount: tx.toAmount ?? tx.amount },
+    ];
+  }
+  return [{ accountId: tx.accountId, amount: tx.type === CategoryType.INCOME ? tx.amount : -tx.amount }];
+};
+
+// Net balance change per account across the whole transaction ledger
+const computeLedgerBalances = (transactions: Omit<Transaction, 'id'>[]): Map<string, number> => {
+  const balances = new Map<string, number>();
+  transactions.forEach(tx => getBalanceImpacts(tx).forEach(impact => {
+    balances.set(impact.accountId, (balances.get(impact.accountId) || 0) + impact.amount);
+  }));
+  return balances;
+};
+
+// Category lines of an income or expense: its splits, or one line for the whole amount. Transfers have none.
+const getCategoryLines = (tx: Pick<Transaction, 'type' | 'categoryId' | 'amount' | 'splits'>): TransactionSplit[] => {
+  if (tx.type === 'transfer') return [];
+  return tx.splits && tx.splits.length > 0 ? tx.splits : [{ categoryId: tx.categoryId, amount: tx.amount }];
+};
+
+const usesCategory = (tx: Pick<Transaction, 'type' | 'categoryId' | 'amount' | 'splits'>, categoryId: string): boolean => getCategoryLines(tx).some(line => line.categoryId === categoryId);
+
+const getSubcategoryIds = (categories: Category[], categoryId: string): string[] => categories.filter(c => c.parentId === categoryId).map(c => c.id);
+
+// The parent of a subcategory, or the category itself; totals roll up to this
+const getRootCategoryId = (categories: Category[], categoryId: string): string => {
+  const parentId = categories.find(c => c.id === categoryId)?.parentId;
+  return parentId && categories.some(c => c.id === parentId) ? parentId : categoryId;
+};
+
+// Top-level categories in list order, each with its subcategories; a subcategory whose parent is not in the list stands on its own
+const getCategoryGroups = (categories: Category[]): { category: Category; children: Category[] }[] => {
+  const ids = new Set(categories.map(c => c.id));
+  return categories
+    .filter(c => !c.parentId || !ids.has(c.parentId))
+    .map(category => ({ category, children: categories.filter(c => c.parentId === category.id) }));
+};
+
+const rollUpCategoryAmounts = (amounts: Map<string, number>, categories: Category[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  amounts.forEach((amount, categoryId) => {
+    const rootId = getRootCategoryId(categories, categoryId);
+    totals.set(rootId, (totals.get(rootId) || 0) + amount);
   });
+  return totals;
+};
 
-  const setValue: Dispatch<SetStateAction<T>> = (value) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
-    } catch (error) {
-      console.error(`Error setting localStorage key "${key}":`, error);
+// "#Liburan Bali" becomes "liburan-bali"
+const normalizeTag = (tag: string): string => tag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+
+// Every tag in use, most used first, for autocompletion
+const getTagSuggestions = (transactions: Pick<Transaction, 'tags'>[]): string[] => {
+  const counts = new Map<string, number>();
+  transactions.forEach(tx => (tx.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts.keys()).sort((a, b) => (counts.get(b)! - counts.get(a)!) || a.localeCompare(b));
+};
+
+// Tags of both lists, existing ones first, without duplicates
+const mergeTags = (tags: string[] | undefined, extraTags: string[] | undefined): string[] | undefined => {
+  const merged = Array.from(new Set([...(tags || []), ...(extraTags || [])]));
+  return merged.length > 0 ? merged : undefined;
+};
+
+const isValidRegex = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Every condition the rule sets must hold; an invalid regular expression matches nothing
+const matchesRule = (rule: CategorizationRule, tx: Pick<Transaction, 'description' | 'amount' | 'accountId'>): boolean => {
+  if (rule.accountId && rule.accountId !== tx.accountId) return false;
+  if (rule.minAmount !== undefined && tx.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && tx.amount > rule.maxAmount) return false;
+  if (!rule.descriptionPattern) return true;
+  if (rule.matchMode === RuleMatchMode.REGEX) {
+    return isValidRegex(rule.descriptionPattern) && new RegExp(rule.descriptionPattern, 'i').test(tx.description);
+  }
+  return tx.description.toLowerCase().includes(rule.descriptionPattern.toLowerCase());
+};
+
+// The first enabled rule that matches, in priority order
+const findMatchingRule = (rules: CategorizationRule[], tx: Pick<Transaction, 'description' | 'amount' | 'accountId'>): CategorizationRule | undefined =>
+  rules.find(rule => rule.enabled && matchesRule(rule, tx));
+
+// The transaction with the rule's type, category and tags; a single category replaces any splits
+const applyRule = <T extends Omit<Transaction, 'id'>>(tx: T, rule: CategorizationRule): T => {
+  const { splits, ...transaction } = tx;
+  return { ...transaction, type: rule.type, categoryId: rule.categoryId, tags: mergeTags(tx.tags, rule.tags) } as T;
+};
+
+// Amounts a transaction contributes to income/expense totals; a transfer only counts its fee as expense
+const getIncomeAmount = (tx: Transaction): number => tx.type === CategoryType.INCOME ? tx.amount : 0;
+const getExpenseAmount = (tx: Transaction): number => {
+  if (tx.type === 'transfer') return tx.fee || 0;
+  return tx.type === CategoryType.EXPENSE ? tx.amount : 0;
+};
+
+// Expense per category line; a transfer fee is a single line without a category
+const getExpenseLines = (tx: Transaction): TransactionSplit[] => {
+  if (tx.type === 'transfer') return tx.fee ? [{ categoryId: '', amount: tx.fee }] : [];
+  return tx.type === CategoryType.EXPENSE ? getCategoryLines(tx) : [];
+};
+
+// Credit cards hold what is owed: spending on them makes their balance negative
+const isLiabilityAccount = (account: Pick<Account, 'type'>): boolean => account.type === AccountType.CREDIT_CARD;
+
+interface NetWorthPoint {
+  day: string; // YYYY-MM-DD
+  assets: number; // In the base currency
+  liabilities: number; // Owed on liability accounts, as a positive amount in the base currency
+  netWorth: number;
+}
+
+// Net worth at the end of each given day (ascending), replaying the ledger on top of the opening balances.
+// Loans add the principal still owed to the liabilities.
+const computeNetWorthHistory = (accounts: Account[], loans: Loan[], transactions: Transaction[], days: string[], toBaseAmount: (amount: number, accountId: string) => number): NetWorthPoint[] => {
+  const balances = new Map(accounts.map(acc => [acc.id, acc.openingBalance]));
+  const loanSchedules = loans.map(loan => ({ loan, schedule: getLoanSchedule(loan, accounts.find(acc => acc.id === loan.accountId)?.currency || DEFAULT_CURRENCY) }));
+  const ordered = transactions
+    .map(tx => ({ tx, day: formatDateForInput(tx.date) }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+  let next = 0;
+  return days.map(day => {
+    for (; next < ordered.length && ordered[next].day <= day; next++) {
+      getBalanceImpacts(ordered[next].tx).forEach(impact => {
+        if (balances.has(impact.accountId)) balances.set(impact.accountId, balances.get(impact.accountId)! + impact.amount);
+      });
     }
+    let assets = 0;
+    let liabilities = 0;
+    accounts.forEach(acc => {
+      const balance = toBaseAmount(balances.get(acc.id) || 0, acc.id);
+      if (isLiabilityAccount(acc)) liabilities -= balance;
+      else assets += balance;
+    });
+    loanSchedules.forEach(({ loan, schedule }) => {
+      liabilities += toBaseAmount(getLoanBalance(loan, schedule, transactions, day), loan.accountId);
+    });
+    return { day, assets, liabilities, netWorth: assets - liabilities };
+  });
+};
+
+// Rate to turn one unit of `from` into `to`. Rates work in both directions and are chained through other currencies
+// when there is no direct one; undefined when the table has no path between the two.
+const findExchangeRate = (rates: ExchangeRate[], from: CurrencyCode, to: CurrencyCode): number | undefined => {
+  const bestRates = new Map<CurrencyCode, number>([[from, 1]]);
+  const queue: CurrencyCode[] = [from];
+  while (queue.length > 0) {
+    const currency = queue.shift()!;
+    if (currency === to) return bestRates.get(currency);
+    rates.forEach(rate => {
+      if (!(rate.rate > 0)) return;
+      const next = rate.fromCurrency === currency ? { currency: rate.toCurrency, factor: rate.rate }
+        : rate.toCurrency === currency ? { currency: rate.fromCurrency, factor: 1 / rate.rate }
+        : undefined;
+      if (!next || bestRates.has(next.currency)) return;
+      bestRates.set(next.currency, bestRates.get(currency)! * next.factor);
+      queue.push(next.currency);
+    });
+  }
+  return undefined;
+};
+
+const isAccountUsed = (transactions: Transaction[], accountId: string) =>
+  transactions.some(tx => tx.accountId === accountId || tx.toAccountId === accountId);
+
+// RECURRING TRANSACTION HELPERS
+// Scheduled date (YYYY-MM-DD) of the occurrence at the given index, counted from the start date
+const getRecurringOccurrenceDate = (template: RecurringTransaction, index: number): string => {
+  const start = new Date(template.startDate);
+  const step = index * Math.max(template.interval, 1);
+  if (template.frequency === RecurrenceFrequency.DAILY || template.frequency === RecurrenceFrequency.WEEKLY) {
+    const date = new Date(start);
+    date.setUTCDate(date.getUTCDate() + step * (template.frequency === RecurrenceFrequency.WEEKLY ? 7 : 1));
+    return date.toISOString().split('T')[0];
+  }
+
+  const isMonthly = template.frequency === RecurrenceFrequency.MONTHLY;
+  const dayInMonth = (year: number, month: number) => {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const preferredDay = isMonthly && template.dayOfMonth ? (template.dayOfMonth === -1 ? lastDay : template.dayOfMonth) : start.getUTCDate();
+    return new Date(Date.UTC(year, month, Math.min(preferredDay, lastDay)));
+  };
+  // A day-of-month rule that falls before the start date begins in the following month
+  const firstMonthOffset = dayInMonth(start.getUTCFullYear(), start.getUTCMonth()) < start ? 1 : 0;
+  const monthOffset = firstMonthOffset + (isMonthly ? step : step * 12);
+  return dayInMonth(start.getUTCFullYear(), start.getUTCMonth() + monthOffset).toISOString().split('T')[0];
+};
+
+const isOccurrenceInSchedule = (template: RecurringTransaction, index: number, scheduledDate: string) =>
+  (template.maxOccurrences === undefined || index < template.maxOccurrences) &&
+  (!template.endDate || scheduledDate <= formatDateForInput(template.endDate));
+
+// Number of scheduled occurrences on or before the given day
+const countOccurrencesUntil = (template: RecurringTransaction, day: string): number => {
+  let index = 0;
+  let scheduledDate = getRecurringOccurrenceDate(template, index);
+  while (scheduledDate <= day && isOccurrenceInSchedule(template, index, scheduledDate)) {
+    index++;
+    scheduledDate = getRecurringOccurrenceDate(template, index);
+  }
+  return index;
+};
+
+const buildOccurrenceTransaction = (template: RecurringTransaction, scheduledDate: string): Omit<Transaction, 'id'> => {
+  const base = template.overrides[scheduledDate] || {
+    description: template.description,
+    amount: template.amount,
+    date: new Date(scheduledDate).toISOString(),
+    type: template.type,
+    categoryId: template.categoryId,
+    splits: template.splits,
+    accountId: template.accountId,
+    toAccountId: template.toAccountId,
+    fee: template.fee,
+    tags: template.tags,
+    notes: template.notes,
+  };
+  return { ...base, recurringId: template.id };
+};
+
+interface RecurringOccurrence {
+  template: RecurringTransaction;
+  scheduledDate: string;
+  transaction: Omit<Transaction, 'id'>;
+  isSkipped: boolean;
+}
+
+// Occurrences not yet posted, up to and including the given day
+const getUpcomingOccurrences = (template: RecurringTransaction, untilDay: string): RecurringOccurrence[] => {
+  const occurrences: RecurringOccurrence[] = [];
+  let index = template.processedCount;
+  let scheduledDate = getRecurringOccurrenceDate(template, index);
+  while (scheduledDate <= untilDay && isOccurrenceInSchedule(template, index, scheduledDate)) {
+    occurrences.push({
+      template,
+      scheduledDate,
+      transaction: buildOccurrenceTransaction(template, scheduledDate),
+      isSkipped: template.skippedDates.includes(scheduledDate),
+    });
+    index++;
+    scheduledDate = getRecurringOccurrenceDate(template, index);
+  }
+  return occurrences;
+};
+
+const describeRecurrence = (template: RecurringTransaction, t: Translate, formatDate: (dateString: string) => string): string => {
+  let description = template.interval > 1
+    ? t('recurrence.everyN', { interval: template.interval, unit: t(`recurrence.unit.${template.frequency}`) })
+    : t('recurrence.every', { unit: t(`recurrence.unitSingular.${template.frequency}`) });
+  if (template.frequency === RecurrenceFrequency.MONTHLY && template.dayOfMonth) {
+    description += template.dayOfMonth === -1 ? t('recurrence.lastDay') : t('recurrence.dayOfMonth', { day: template.dayOfMonth });
+  }
+  if (template.endDate) description += t('recurrence.until', { date: formatDate(template.endDate) });
+  if (template.maxOccurrences !== undefined) description += `, ${template.maxOccurrences}x`;
+  return description;
+};
+
+// BUDGET HELPERS
+// Start of the budget period at the given index, counted from the start date. Periods repeat without end.
+const getBudgetPeriodStart = (budget: Budget, index: number): Date => {
+  const start = new Date(budget.startDate);
+  if (budget.period === BudgetPeriod.MONTHLY || budget.period === BudgetPeriod.YEARLY) {
+    const monthOffset = budget.period === BudgetPeriod.MONTHLY ? index : index * 12;
+    const lastDay = new Date(start.getFullYear(), start.getMonth() + monthOffset + 1, 0).getDate();
+    return new Date(start.getFullYear(), start.getMonth() + monthOffset, Math.min(start.getDate(), lastDay), start.getHours(), start.getMinutes());
+  }
+  const date = new Date(start);
+  date.setDate(date.getDate() + index * (budget.period === BudgetPeriod.WEEKLY ? 7 : Math.max(budget.periodDays || 1, 1)));
+  return date;
+};
+
+// Index of the period the given date falls in; negative before the start date
+const getBudgetPeriodIndex = (budget: Budget, date: Date): number => {
+  const start = new Date(budget.startDate);
+  const monthsApart = (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth();
+  const daysApart = (date.getTime() - start.getTime()) / 86400000;
+  let index = budget.period === BudgetPeriod.MONTHLY ? monthsApart
+    : budget.period === BudgetPeriod.YEARLY ? Math.floor(monthsApart / 12)
+    : Math.floor(daysApart / (budget.period === BudgetPeriod.WEEKLY ? 7 : Math.max(budget.periodDays || 1, 1)));
+  // The estimate can be one period off around month ends and daylight saving changes
+  while (getBudgetPeriodStart(budget, index) > date) index--;
+  while (getBudgetPeriodStart(budget, index + 1) <= date) index++;
+  return index;
+};
+
+// Period containing today, or the first one when the budget has not started yet
+const getCurrentBudgetPeriodIndex = (budget: Budget): number => Math.max(getBudgetPeriodIndex(budget, new Date()), 0);
+
+// Amount of the period at the given index: the last change that took effect by its start, otherwise the original amount
+const getBudgetAmount = (budget: Budget, index: number): number => {
+  const periodStart = getBudgetPeriodStart(budget, index);
+  return (budget.amountChanges || []).reduce((amount, change) => new Date(change.effectiveDate) <= periodStart ? change.amount : amount, budget.amount);
+};
+
+// Sets the amount from the period at the given index on, replacing changes planned after it; earlier periods keep their amounts
+const setBudgetAmountFrom = (budget: Budget, amount: number, index: number): Budget => {
+  if (index <= 0) return { ...budget, amount, amountChanges: undefined };
+  const periodStart = getBudgetPeriodStart(budget, index);
+  const amountChanges = (budget.amountChanges || []).filter(change => new Date(change.effectiveDate) < periodStart);
+  if (getBudgetAmount({ ...budget, amountChanges }, index) !== amount) amountChanges.push({ effectiveDate: periodStart.toISOString(), amount });
+  return { ...budget, amountChanges: amountChanges.length > 0 ? amountChanges : undefined };
+};
+
+interface BudgetStatus {
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  spent: number;
+  spentByCategory: Map<string, number>; // The budget's category and each of its subcategories
+  carriedOver: number; // Left over (negative when overspent) from earlier periods; always 0 without rollover
+  available: number; // The period's budget amount plus what was carried over
+}
+
+// Every period from the first up to the one containing `asOf` (or just the first when the budget has not started yet).
+// A budget for a parent category also counts what is spent in its subcategories.
+const getBudgetHistory = (budget: Budget, categories: Category[], transactions: Transaction[], toBaseAmount: (amount: number, accountId: string) => number, asOf: Date = new Date()): BudgetStatus[] => {
+  const currentIndex = Math.max(getBudgetPeriodIndex(budget, asOf), 0);
+  const categoryIds = [budget.categoryId, ...getSubcategoryIds(categories, budget.categoryId)];
+  const spentByPeriod = new Map<number, Map<string, number>>();
+  transactions.forEach(tx => {
+    if (tx.type !== CategoryType.EXPENSE) return;
+    const lines = getCategoryLines(tx).filter(line => categoryIds.includes(line.categoryId));
+    if (lines.length === 0) return;
+    const index = getBudgetPeriodIndex(budget, new Date(tx.date));
+    if (index < 0 || index > currentIndex) return;
+    const spentByCategory = spentByPeriod.get(index) || new Map<string, number>();
+    lines.forEach(line => spentByCategory.set(line.categoryId, (spentByCategory.get(line.categoryId) || 0) + toBaseAmount(line.amount, tx.accountId)));
+    spentByPeriod.set(index, spentByCategory);
+  });
+
+  const history: BudgetStatus[] = [];
+  let carriedOver = 0;
+  for (let index = 0; index <= currentIndex; index++) {
+    const spentByCategory = spentByPeriod.get(index) || new Map<string, number>();
+    const spent = Array.from(spentByCategory.values()).reduce((sum, amount) => sum + amount, 0);
+    const amount = getBudgetAmount(budget, index);
+    history.push({
+      periodStart: getBudgetPeriodStart(budget, index),
+      periodEnd: getBudgetPeriodStart(budget, index + 1),
+      spent,
+      spentByCategory,
+      carriedOver,
+      available: amount + carriedOver,
+    });
+    if (budget.rollover) carriedOver += amount - spent;
+  }
+  return history;
+};
+
+// State of the period containing `asOf`
+const getBudgetStatus = (budget: Budget, categories: Category[], transactions: Transaction[], toBaseAmount: (amount: number, accountId: string) => number, asOf: Date = new Date()): BudgetStatus => {
+  const history = getBudgetHistory(budget, categories, transactions, toBaseAmount, asOf);
+  return history[history.length - 1];
+};
+
+// Highest alert threshold the period's spending has reached, or 0 when none has
+const getReachedBudgetThreshold = (budget: Budget, status: BudgetStatus): number => {
+  if (status.spent <= 0) return 0;
+  const percentUsed = status.available > 0 ? (status.spent / status.available) * 100 : Infinity;
+  return (budget.alertThresholds || []).reduce((reached, threshold) => percentUsed >= threshold ? Math.max(reached, threshold) : reached, 0);
+};
+
+const describeBudgetPeriod = (budget: Budget, t: Translate): string => {
+  if (budget.period === BudgetPeriod.CUSTOM) return t('budget.customPeriod', { days: budget.periodDays || 1 });
+  return t(`recurring.frequency.${budget.period}`);
+};
+
+// CREDIT CARD HELPERS
+// Day (YYYY-MM-DD) in the given month, moved to the month's last day when it is shorter
+const getClampedMonthDay = (year: number, month: number, day: number): string => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay))).toISOString().split('T')[0];
+};
+
+interface CreditCardStatement {
+  closingDate: string; // YYYY-MM-DD of the latest statement
+  dueDate?: string; // YYYY-MM-DD; unknown without a due day
+  statementBalance: number; // Owed when the statement closed, in the card's currency
+  paidSinceClosing: number;
+  remainingDue: number; // Statement balance not paid yet
+  minimumPayment: number; // Still needed to cover the minimum payment
+}
+
+// Latest statement of a credit card on or before `today`; undefined when the card has no closing day.
+// Transfers into the card (and refunds) after the closing date count as payments towards it.
+const getCreditCardStatement = (account: Account, transactions: Transaction[], today: string): CreditCardStatement | undefined => {
+  if (!isLiabilityAccount(account) || !account.statementClosingDay) return undefined;
+  const [year, month] = today.split('-').map(Number);
+  let closingDate = getClampedMonthDay(year, month - 1, account.statementClosingDay);
+  if (closingDate > today) closingDate = getClampedMonthDay(year, month - 2, account.statementClosingDay);
+
+  let balanceAtClosing = account.openingBalance;
+  let paidSinceClosing = 0;
+  transactions.forEach(tx => {
+    const txDay = formatDateForInput(tx.date);
+    if (txDay > today) return;
+    getBalanceImpacts(tx).forEach(impact => {
+      if (impact.accountId !== account.id) return;
+      if (txDay <= closingDate) balanceAtClosing += impact.amount;
+      else if (impact.amount > 0) paidSinceClosing += impact.amount;
+    });
+  });
+
+  const statementBalance = Math.max(-balanceAtClosing, 0);
+  const minimumAmount = Math.min(statementBalance, roundCurrencyAmount(statementBalance * CREDIT_CARD_MINIMUM_PAYMENT_PERCENT / 100, account.currency));
+  let dueDate: string | undefined;
+  if (account.paymentDueDay) {
+    const [closingYear, closingMonth] = closingDate.split('-').map(Number);
+    dueDate = getClampedMonthDay(closingYear, closingMonth - (account.paymentDueDay > account.statementClosingDay ? 1 : 0), account.paymentDueDay);
+  }
+  return {
+    closingDate,
+    dueDate,
+    statementBalance,
+    paidSinceClosing,
+    remainingDue: Math.max(statementBalance - paidSinceClosing, 0),
+    minimumPayment: Math.max(minimumAmount - paidSinceClosing, 0),
+  };
+};
+
+// Credit left on a card with a limit; negative when the limit is exceeded
+const getAvailableCredit = (account: Account): number | undefined =>
+  isLiabilityAccount(account) && account.creditLimit !== undefined ? account.creditLimit + account.balance : undefined;
+
+// LOAN HELPERS
+interface LoanInstallment {
+  number: number; // 1-based
+  dueDate: string; // YYYY-MM-DD
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number; // Principal still owed after this installment
+}
+
+const getLoanSchedule = (loan: Loan, currency: CurrencyCode): LoanInstallment[] => {
+  const start = new Date(loan.startDate);
+  const monthlyRate = loan.annualInterestRate / 100 / 12;
+  const tenor = Math.max(loan.tenorMonths, 1);
+  const annuityPayment = monthlyRate > 0 ? loan.principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -tenor)) : loan.principal / tenor;
+  const schedule: LoanInstallment[] = [];
+  let balance = loan.principal;
+  for (let number = 1; number <= tenor; number++) {
+    const isFlat = loan.interestMethod === LoanInterestMethod.FLAT;
+    const interest = roundCurrencyAmount((isFlat ? loan.principal : balance) * monthlyRate, currency);
+    // The last installment also clears what rounding left over
+    const principal = number === tenor ? balance : roundCurrencyAmount(isFlat ? loan.principal / tenor : annuityPayment - interest, currency);
+    balance = roundCurrencyAmount(balance - principal, currency);
+    schedule.push({
+      number,
+      dueDate: getClampedMonthDay(start.getUTCFullYear(), start.getUTCMonth() + number, start.getUTCDate()),
+      payment: roundCurrencyAmount(principal + interest, currency),
+      principal,
+      interest,
+      balance,
+    });
+  }
+  return schedule;
+};
+
+// Installment transactions posted for a loan, oldest first; the n-th one pays installment n
+const getLoanPayments = (loan: Loan, transactions: Transaction[]): Transaction[] =>
+  transactions.filter(tx => tx.loanId === loan.id).sort((a, b) => a.date.localeCompare(b.date));
+
+// Principal owed at the end of the given day: nothing before the loan was taken, then the balance left by the installments posted so far
+const getLoanBalance = (loan: Loan, schedule: LoanInstallment[], transactions: Transaction[], day: string): number => {
+  if (day < formatDateForInput(loan.startDate)) return 0;
+  const paidCount = getLoanPayments(loan, transactions).filter(tx => formatDateForInput(tx.date) <= day).length;
+  return paidCount === 0 ? loan.principal : schedule[Math.min(paidCount, schedule.length) - 1].balance;
+};
+
+// Installment as a transaction that books principal and interest to their own categories
+const buildLoanInstallmentTransaction = (loan: Loan, installment: LoanInstallment, t: Translate): Omit<Transaction, 'id'> => {
+  const lines = [
+    { categoryId: loan.principalCategoryId, amount: installment.principal },
+    { categoryId: loan.interestCategoryId, amount: installment.interest },
+  ].filter(line => line.amount > 0);
+  return {
+    description: t('loan.installmentDescription', { loan: loan.name, number: installment.number, tenor: loan.tenorMonths }),
+    amount: installment.payment,
+    date: new Date(installment.dueDate).toISOString(),
+    type: CategoryType.EXPENSE,
+    categoryId: lines[0]?.categoryId || loan.principalCategoryId,
+    splits: lines.length > 1 ? lines : undefined,
+    accountId: loan.accountId,
+    loanId: loan.id,
   };
+};
+
+// LOCAL STORAGE HOOK
+function readLocalStorage<T>(key: string, initialValue: T): T {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : initialValue;
+  } catch (error) {
+    console.error(`Error reading localStorage key "${key}":`, error);
+    return initialValue;
+  }
+}
+
+function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
+  const [storedValue, setStoredValue] = useState<T>(() => readLocalStorage(key, initialValue));
+  // Switching to another key (e.g. another account's) shows what is stored under that key
+  const [currentKey, setCurrentKey] = useState(key);
+  if (currentKey !== key) {
+    setCurrentKey(key);
+    setStoredValue(readLocalStorage(key, initialValue));
+  }
+
+  // Resolve functional updates against the latest state so several updates in one tick (e.g. bulk import) all apply.
+  const setValue: Dispatch<SetStateAction<T>> = useCallback((value) => {
+    setStoredValue(prevValue => {
+      const valueToStore = value instanceof Function ? value(prevValue) : value;
+      try {
+        window.localStorage.setItem(key, JSON.stringify(valueToStore));
+      } catch (error) {
+        console.error(`Error setting localStorage key "${key}":`, error);
+      }
+      return valueToStore;
+    });
+  }, [key]);
   return [storedValue, setValue];
 }
 
@@ -80,28 +761,296 @@ const useTheme = () => {
   return context;
 };
 
-// AUTH CONTEXT (MOCKED)
+// SETTINGS CONTEXT
+type StoredSettings = Omit<Settings, 'theme'>;
+
+interface SettingsContextType {
+  settings: Settings;
+  locale: string; // BCP 47 locale for number and date formatting, from the language
+  updateSettings: (changes: Partial<StoredSettings>) => void;
+}
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+// Before the settings existed the base currency was saved under a key of its own. It moves into the settings
+// saved outside any account, unless those already name a currency other than the default.
+const LEGACY_BASE_CURRENCY_KEY = 'baseCurrency';
+
+const readSignedOutSettings = (): StoredSettings => {
+  const settings = readLocalStorage<StoredSettings>('settings', DEFAULT_SETTINGS);
+  const legacyCurrency = readLocalStorage<unknown>(LEGACY_BASE_CURRENCY_KEY, null);
+  if (legacyCurrency === null) return settings;
+  const migratedSettings = isCurrencyCode(legacyCurrency) && (!settings.currency || settings.currency === DEFAULT_SETTINGS.currency)
+    ? { ...settings, currency: legacyCurrency }
+    : settings;
+  try {
+    window.localStorage.setItem('settings', JSON.stringify(migratedSettings));
+    window.localStorage.removeItem(LEGACY_BASE_CURRENCY_KEY);
+  } catch (error) {
+    console.error('Error moving the base currency into the settings:', error);
+  }
+  return migratedSettings;
+};
+
+// Each account keeps its own settings. Signed out, the ones saved outside any account apply,
+// and an account without settings of its own starts from them.
+const SettingsProvider: React.FC<PropsWithChildren<{}>> = ({ children }) => {
+  const { theme } = useTheme();
+  const { dataNamespace } = useAuth();
+  const signedOutSettings = useMemo(() => readSignedOutSettings(), [dataNamespace]);
+  const [storedSettings, setStoredSettings] = useLocalStorage<StoredSettings>(getNamespacedKey(dataNamespace ?? '', 'settings'), signedOutSettings);
+
+  // Defaults fill in preferences added after the settings were first saved
+  const settings: Settings = useMemo(() => ({ ...DEFAULT_SETTINGS, ...storedSettings, theme }), [storedSettings, theme]);
+
+  const updateSettings = useCallback((changes: Partial<StoredSettings>) => {
+    setStoredSettings(prevSettings => ({ ...prevSettings, ...changes }));
+  }, [setStoredSettings]);
+
+  useEffect(() => {
+    window.document.documentElement.lang = settings.language;
+  }, [settings.language]);
+
+  return (
+    <SettingsContext.Provider value={{ settings, locale: LANGUAGE_LOCALES[settings.language] || DEFAULT_LOCALE, updateSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+const useSettings = () => {
+  const context = useContext(SettingsContext);
+  if (!context) throw new Error('useSettings must be used within a SettingsProvider');
+  return context;
+};
+
+// Formatting helpers bound to the user's language and date format
+const useFormatters = () => {
+  const { settings, locale } = useSettings();
+  return useMemo(() => ({
+    formatDate: (dateString: string) => formatDateID(dateString, settings.dateFormat),
+    formatAmount: (amount: number, currency: CurrencyCode) => formatCurrency(amount, currency, locale),
+    formatCompactAmount: (amount: number, currency: CurrencyCode) => formatCompactCurrency(amount, currency, locale),
+    formatMonthLabel: (date: Date) => formatMonthLabel(date, locale),
+  }), [settings.dateFormat, locale]);
+};
+
+// Messages in the user's language. Default categories are stored with their Indonesian names
+// and shown translated until the user renames them.
+const useTranslation = () => {
+  const { settings } = useSettings();
+  return useMemo(() => {
+    const t: Translate = (key, params) => translate(settings.language, key, params);
+    const getCategoryName = (category: Category | undefined): string => {
+      if (!category) return '';
+      const defaultCategory = DEFAULT_INITIAL_CATEGORIES.find(cat => cat.id === category.id);
+      return defaultCategory && defaultCategory.name === category.name ? t(`category.${category.id}` as MessageKey) : category.name;
+    };
+    return { t, getCategoryName };
+  }, [settings.language]);
+};
+
+// PASSWORD HASHING
+const PASSWORD_HASH_ITERATIONS = 310000;
+const PASSWORD_MIN_LENGTH = 8;
+
+const bytesToBase64 = (bytes: Uint8Array): string => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+const base64ToBytes = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const derivePasswordHash = async (password: string, salt: BufferSource, iterations: number): Promise<string> => {
+  const passwordKey = await window.crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await window.crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, passwordKey, 256);
+  return bytesToBase64(new Uint8Array(bits));
+};
+
+const hashPassword = async (password: string): Promise<Pick<StoredUser, 'passwordHash' | 'passwordSalt' | 'passwordIterations'>> => {
+  const salt = window.crypto.getRandomValues(new Uint8Array(16));
+  return {
+    passwordHash: await derivePasswordHash(password, salt, PASSWORD_HASH_ITERATIONS),
+    passwordSalt: bytesToBase64(salt),
+    passwordIterations: PASSWORD_HASH_ITERATIONS,
+  };
+};
+
+// Compares every character, so the time taken does not reveal how much of the hash matched
+const verifyPassword = async (password: string, storedUser: StoredUser): Promise<boolean> => {
+  const hash = await derivePasswordHash(password, base64ToBytes(storedUser.passwordSalt), storedUser.passwordIterations);
+  if (hash.length !== storedUser.passwordHash.length) return false;
+  let difference = 0;
+  for (let i = 0; i < hash.length; i++) difference |= hash.charCodeAt(i) ^ storedUser.passwordHash.charCodeAt(i);
+  return difference === 0;
+};
+
+// The data key never leaves the browser unencrypted: it is stored wrapped with a key derived from the password
+const deriveKeyEncryptionKey = async (password: string, salt: BufferSource, iterations: number): Promise<CryptoKey> => {
+  const passwordKey = await window.crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return window.crypto.subtle.deriveKey({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, passwordKey, { name: 'AES-GCM', length: 256 }, false, ['wrapKey', 'unwrapKey']);
+};
+
+const generateDataKey = (): Promise<CryptoKey> =>
+  window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+const wrapDataKey = async (dataKey: CryptoKey, password: string): Promise<WrappedDataKey> => {
+  const salt = window.crypto.getRandomValues(new Uint8Array(16));
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const keyEncryptionKey = await deriveKeyEncryptionKey(password, salt, PASSWORD_HASH_ITERATIONS);
+  const wrappedKey = await window.crypto.subtle.wrapKey('raw', dataKey, keyEncryptionKey, { name: 'AES-GCM', iv });
+  return { salt: bytesToBase64(salt), iterations: PASSWORD_HASH_ITERATIONS, iv: bytesToBase64(iv), key: bytesToBase64(new Uint8Array(wrappedKey)) };
+};
+
+// Only extractable while it is wrapped again for a new password
+const unwrapDataKey = async (wrappedKey: WrappedDataKey, password: string, extractable = false): Promise<CryptoKey> => {
+  const keyEncryptionKey = await deriveKeyEncryptionKey(password, base64ToBytes(wrappedKey.salt), wrappedKey.iterations);
+  return window.crypto.subtle.unwrapKey('raw', base64ToBytes(wrappedKey.key), keyEncryptionKey, { name: 'AES-GCM', iv: base64ToBytes(wrappedKey.iv) },
+    'AES-GCM', extractable, ['encrypt', 'decrypt']);
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// AUTH CONTEXT
+// Accounts are local to this browser. Each one keeps its financial data under its own storage namespace.
 interface AuthContextType {
   user: User | null;
-  login: (email: string) => void; // Simplified login
+  dataNamespace: string | null; // Storage namespace of the signed-in user
+  dataKey: CryptoKey | null; // Decrypts the signed-in user's data while it is unlocked; only ever held in memory
+  isDataEncrypted: boolean;
+  isLocked: boolean; // Signed in, but the encrypted data needs the password again
+  // Each resolves to the message to show when it fails, or null on success
+  register: (email: string, password: string) => Promise<MessageKey | null>;
+  login: (email: string, password: string) => Promise<MessageKey | null>;
+  unlock: (password: string) => Promise<MessageKey | null>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<MessageKey | null>;
+  enableEncryption: (password: string) => Promise<MessageKey | null>;
+  disableEncryption: (password: string) => Promise<MessageKey | null>;
+  lock: () => void;
   logout: () => void;
   isAuthenticated: boolean;
 }
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const AuthProvider: React.FC<PropsWithChildren<{}>> = ({ children }) => {
-  const [user, setUser] = useLocalStorage<User | null>('user', null);
+  const [users, setUsers] = useLocalStorage<StoredUser[]>('users', []);
+  const [sessionUser, setSessionUser] = useLocalStorage<User | null>('user', null);
+  // Sessions saved before accounts had passwords belong to no account and are signed out
+  const storedUser = sessionUser ? users.find(u => u.id === sessionUser.id) : undefined;
+  const user = storedUser ? sessionUser : null;
   const isAuthenticated = !!user;
+  const [dataKey, setDataKey] = useState<CryptoKey | null>(null);
+  const isDataEncrypted = !!storedUser?.dataKey;
+  const isLocked = isAuthenticated && isDataEncrypted && !dataKey;
 
-  const login = (email: string) => {
-    setUser({ id: generateId(), email }); // Mock login
+  const lock = useCallback(() => setDataKey(null), []);
+
+  // Any input restarts the countdown to the auto-lock
+  useEffect(() => {
+    if (!isDataEncrypted || !dataKey) return;
+    const events = ['mousedown', 'mousemove', 'keydown', 'touchstart', 'scroll'];
+    let timeoutId = window.setTimeout(lock, AUTO_LOCK_MINUTES * 60 * 1000);
+    const restartTimer = () => {
+      window.clearTimeout(timeoutId);
+      timeoutId = window.setTimeout(lock, AUTO_LOCK_MINUTES * 60 * 1000);
+    };
+    events.forEach(event => window.addEventListener(event, restartTimer, { passive: true }));
+    return () => {
+      window.clearTimeout(timeoutId);
+      events.forEach(event => window.removeEventListener(event, restartTimer));
+    };
+  }, [isDataEncrypted, dataKey, lock]);
+
+  const register = async (email: string, password: string): Promise<MessageKey | null> => {
+    if (password.length < PASSWORD_MIN_LENGTH) return 'auth.passwordTooShort';
+    if (users.some(u => normalizeEmail(u.email) === normalizeEmail(email))) return 'auth.emailTaken';
+    const id = generateId();
+    const newUser: StoredUser = {
+      id,
+      email: email.trim(),
+      ...await hashPassword(password),
+      // The first account on this browser takes over the data recorded before accounts existed
+      dataNamespace: users.length === 0 ? '' : id,
+    };
+    setUsers(prev => [...prev, newUser]);
+    setSessionUser({ id, email: newUser.email });
+    return null;
+  };
+  const login = async (email: string, password: string): Promise<MessageKey | null> => {
+    const account = users.find(u => normalizeEmail(u.email) === normalizeEmail(email));
+    if (!account || !(await verifyPassword(password, account))) return 'auth.invalidCredentials';
+    try {
+      setDataKey(account.dataKey ? await unwrapDataKey(account.dataKey, password) : null);
+    } catch (error) {
+      console.error('Error unwrapping data key:', error);
+      return 'auth.dataKeyUnreadable';
+    }
+    setSessionUser({ id: account.id, email: account.email, name: account.name });
+    return null;
+  };
+  const unlock = async (password: string): Promise<MessageKey | null> => {
+    if (!storedUser?.dataKey || !(await verifyPassword(password, storedUser))) return 'profile.wrongPassword';
+    try {
+      setDataKey(await unwrapDataKey(storedUser.dataKey, password));
+    } catch (error) {
+      console.error('Error unwrapping data key:', error);
+      return 'auth.dataKeyUnreadable';
+    }
+    return null;
+  };
+  // The data key stays the same, so the stored data does not need to be encrypted again
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<MessageKey | null> => {
+    if (!storedUser || !(await verifyPassword(currentPassword, storedUser))) return 'profile.wrongPassword';
+    if (newPassword.length < PASSWORD_MIN_LENGTH) return 'auth.passwordTooShort';
+    const passwordFields = await hashPassword(newPassword);
+    let wrappedKey: WrappedDataKey | undefined;
+    try {
+      wrappedKey = storedUser.dataKey ? await wrapDataKey(await unwrapDataKey(storedUser.dataKey, currentPassword, true), newPassword) : undefined;
+    } catch (error) {
+      console.error('Error rewrapping data key:', error);
+      return 'auth.dataKeyUnreadable';
+    }
+    setUsers(prev => prev.map(u => u.id === storedUser.id ? { ...u, ...passwordFields, dataKey: wrappedKey } : u));
+    return null;
+  };
+  // The data store reloads with the new key and rewrites every record encrypted
+  const enableEncryption = async (password: string): Promise<MessageKey | null> => {
+    if (!storedUser || !(await verifyPassword(password, storedUser))) return 'profile.wrongPassword';
+    let wrappedKey: WrappedDataKey;
+    let sessionKey: CryptoKey;
+    try {
+      wrappedKey = await wrapDataKey(await generateDataKey(), password);
+      sessionKey = await unwrapDataKey(wrappedKey, password);
+    } catch (error) {
+      console.error('Error creating data key:', error);
+      return 'encryption.enableFailed';
+    }
+    setUsers(prev => prev.map(u => u.id === storedUser.id ? { ...u, dataKey: wrappedKey } : u));
+    setDataKey(sessionKey);
+    return null;
+  };
+  // Every record and attachment is rewritten in plain form before the wrapped key is dropped, so an interrupted rewrite
+  // leaves the data encrypted and readable. The key stays in memory for this session while the data store reloads.
+  const disableEncryption = async (password: string): Promise<MessageKey | null> => {
+    if (!storedUser?.dataKey || !(await verifyPassword(password, storedUser))) return 'profile.wrongPassword';
+    try {
+      await decryptStoredData(await openDataRepository(storedUser.dataNamespace), dataKey || await unwrapDataKey(storedUser.dataKey, password));
+    } catch (error) {
+      console.error('Error decrypting stored data:', error);
+      return 'encryption.disableFailed';
+    }
+    setUsers(prev => prev.map(u => {
+      if (u.id !== storedUser.id) return u;
+      const { dataKey: _, ...plainUser } = u;
+      return plainUser;
+    }));
+    return null;
   };
   const logout = () => {
-    setUser(null);
+    setDataKey(null);
+    setSessionUser(null);
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, isAuthenticated }}>
+    <AuthContext.Provider value={{
+      user, dataNamespace: storedUser ? storedUser.dataNamespace : null, dataKey, isDataEncrypted, isLocked,
+      register, login, unlock, changePassword, enableEncryption, disableEncryption, lock, logout, isAuthenticated,
+    }}>
       {children}
     </AuthContext.Provider>
   );
@@ -114,97 +1063,921 @@ const useAuth = () => {
 };
 
 
-// DATA CONTEXT
-interface DataContextType {
-  accounts: Account[];
-  setAccounts: Dispatch<SetStateAction<Account[]>>;
-  addAccount: (account: Omit<Account, 'id'>) => void;
-  updateAccount: (account: Account) => void;
-  deleteAccount: (accountId: string) => void;
+// STORAGE SCHEMA & MIGRATIONS
+type StoredData = { [key: string]: unknown };
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+interface StorageMigration {
+  version: number; // Schema version the data has after this migration
+  description: MessageKey;
+  migrate: (data: StoredData) => StoredData;
+}
+
+// Append new migrations at the end; never edit one that has shipped
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'storage.migration.1',
+    // Accounts used to carry a running balance; their opening balance is that balance minus everything the ledger applied
+    migrate: (data) => {
+      if (!Array.isArray(data.accounts)) return data;
+      const ledgerBalances = computeLedgerBalances(Array.isArray(data.transactions) ? data.transactions : []);
+      const accounts = data.accounts.map(acc => {
+        if (typeof acc?.openingBalance === 'number') return acc;
+        const { balance, ...account } = acc;
+        return { ...account, openingBalance: (Number(balance) || 0) - (ledgerBalances.get(acc.id) || 0) };
+      });
+      return { ...data, accounts };
+    },
+  },
+  {
+    version: 2,
+    description: 'storage.migration.2',
+    // Everything recorded before multi-currency support was in rupiah
+    migrate: (data) => {
+      if (!Array.isArray(data.accounts)) return data;
+      return { ...data, accounts: data.accounts.map(acc => acc && acc.currency === undefined ? { ...acc, currency: 'IDR' } : acc) };
+    },
+  },
+];
+
+const CURRENT_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value !== '';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isValidDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+const isCurrencyCode = (value: unknown): value is CurrencyCode => CURRENCY_OPTIONS.some(option => option.value === value);
+const isRecord = (value: unknown): value is { [key: string]: unknown } => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isArrayOf = (value: unknown, isValidItem: (item: unknown) => boolean): value is unknown[] => Array.isArray(value) && value.every(item => isValidItem(item));
+function isOneOf<T>(values: readonly T[], value: unknown): value is T {
+  return (values as readonly unknown[]).includes(value);
+}
+const isAttachmentRecord = (value: unknown): value is TransactionAttachment =>
+  isRecord(value) && isNonEmptyString(value.id) && typeof value.name === 'string' && typeof value.type === 'string' && isFiniteNumber(value.size) &&
+  (value.thumbnail === undefined || typeof value.thumbnail === 'string');
+
+// Every persisted collection with its initial records and a check for a single record in the current schema
+const STORED_COLLECTIONS: { key: string; label: MessageKey; defaultRecords: unknown[]; isValidRecord: (record: unknown) => boolean }[] = [
+  {
+    key: 'accounts', label: 'storage.collection.accounts', defaultRecords: DEFAULT_INITIAL_ACCOUNTS,
+    isValidRecord: r => isRecord(r) && isNonEmptyString(r.id) && typeof r.name === 'string' && isOneOf(Object.values(AccountType), r.type) && isFiniteNumber(r.openingBalance) &&
+      isCurrencyCode(r.currency) && (r.creditLimit === undefined || isFiniteNumber(r.creditLimit)) &&
+      [r.statementClosingDay, r.paymentDueDay].every(day => day === undefined || (isFiniteNumber(day) && Number.isInteger(day) && day >= 1 && day <= 31)),
+  },
+  {
+    key: 'categories', label: 'storage.collection.categories', defaultRecords: DEFAULT_INITIAL_CATEGORIES,
+    isValidRecord: r => isRecord(r) && isNonEmptyString(r.id) && typeof r.name === 'string' && isOneOf(Object.values(CategoryType), r.type) &&
+      (r.parentId === undefined || isNonEmptyString(r.parentId)),
+  },
+  {
+    key: 'transactions', label: 'storage.collection.transactions', defaultRecords: [],
+    isValidRecord: r => isRecord(r) && isNonEmptyString(r.id) && isValidDate(r.date) && typeof r.description === 'string' && isFiniteNumber(r.amount) &&
+      isOneOf([...Object.values(CategoryType), 'transfer'], r.type) && typeof r.categoryId === 'string' && isNonEmptyString(r.accountId) &&
+      (r.splits === undefined || isArrayOf(r.splits, line => isRecord(line) && isNonEmptyString(line.categoryId) && isFiniteNumber(line.amount))) &&
+      (r.loanId === undefined || isNonEmptyString(r.loanId)) &&
+      (r.tags === undefined || isArrayOf(r.tags, isNonEmptyString)) && (r.notes === undefined || typeof r.notes === 'string') &&
+      (r.attachments === undefined || isArrayOf(r.attachments, isAttachmentRecord)),
+  },
+  {
+    key: 'budgets', label: 'storage.collection.budgets', defaultRecords: [],
+    isValidRecord: r => isRecord(r) && isNonEmptyString(r.id) && isNonEmptyString(r.categoryId) && isFiniteNumber(r.amount) &&
+      isOneOf(Object.values(BudgetPeriod), r.period) && isValidDate(r.startDate) &&
+      (r.period !== BudgetPeriod.CUSTOM || (isFiniteNumber(r.periodDays) && r.periodDays >= 1)) &&
+      (r.rollover === undefined || typeof r.rollover === 'boolean') &&
+      (r.alertThresholds === undefined || isArrayOf(r.alertThresholds, isFiniteNumber)) &&
+      (r.amountChanges === undefined || isArrayOf(r.amountChanges, change => isRecord(change) && isValidDate(change.effectiveDate) && isFiniteNumber(change.amount))),
+  },
+  {
+    key: 'recurringTransactions', label: 'storage.collection.recurringTransactions', defaultRecords: [],
+    isValidRecord: r => isRecord(r) && isNonEmptyString(r.id) && isFiniteNumber(r.amount) && isOneOf(Object.values(RecurrenceFrequency), r.frequency) &&
+      isFiniteNumber(r.interval) && isValidDate(r.startDate) && isFiniteNumber(r.processedCount) &&
+      Array.isArray(r.skippedDates) && isRecord(r.overrides),
+  },
+  {
+    key: 'exchangeRates', label: 'storage.collection.exchangeRates', defaultRecords: [],
+    isValidRecord: r => isRecord(r) && isNonEmptyString(r.id) && isCurrencyCode(r.fromCurrency) && isCurrencyCode(r.toCurrency) && isFiniteNumber(r.rate) && r.rate > 0,
+  },
+  {
+    key: 'goals', label: 'storage.collection.goals', defaultRecords: [],
+    isValidRecord: r => isRecord(r) && isNonEmptyString(r.id) && typeof r.name === 'string' && isCurrencyCode(r.currency) && isFiniteNumber(r.targetAmount) &&
+      isValidDate(r.targetDate) && isValidDate(r.startDate) && (r.accountId === undefined || isNonEmptyString(r.accountId)) &&
+      isArrayOf(r.contributions, c => isRecord(c) && isNonEmptyString(c.id) && isValidDate(c.date) && isFiniteNumber(c.amount)),
+  },
+  {
+    key: 'loans', label: 'storage.collection.loans', defaultRecords: [],
+    isValidRecord: r => isRecord(r) && isNonEmptyString(r.id) && typeof r.name === 'string' && isFiniteNumber(r.principal) && isFiniteNumber(r.annualInterestRate) &&
+      isOneOf(Object.values(LoanInterestMethod), r.interestMethod) && isFiniteNumber(r.tenorMonths) && Number.isInteger(r.tenorMonths) && r.tenorMonths >= 1 &&
+      isValidDate(r.startDate) && isNonEmptyString(r.accountId) && typeof r.principalCategoryId === 'string' && typeof r.interestCategoryId === 'string',
+  },
+  {
+    key: 'rules', label: 'storage.collection.rules', defaultRecords: [],
+    isValidRecord: r => isRecord(r) && isNonEmptyString(r.id) && typeof r.name === 'string' && isOneOf(Object.values(RuleMatchMode), r.matchMode) &&
+      (r.descriptionPattern === undefined || typeof r.descriptionPattern === 'string') &&
+      [r.minAmount, r.maxAmount].every(amount => amount === undefined || isFiniteNumber(amount)) && (r.accountId === undefined || isNonEmptyString(r.accountId)) &&
+      isOneOf(Object.values(CategoryType), r.type) && isNonEmptyString(r.categoryId) && typeof r.enabled === 'boolean' &&
+      (r.tags === undefined || isArrayOf(r.tags, isNonEmptyString)),
+  },
+];
+
+// Shape of the stored data once it has been migrated and validated
+interface StoredCollections {
+  accounts: StoredAccount[];
   categories: Category[];
-  setCategories: Dispatch<SetStateAction<Category[]>>;
-  addCategory: (category: Omit<Category, 'id'>) => void;
-  updateCategory: (category: Category) => void;
-  deleteCategory: (categoryId: string) => void;
   transactions: Transaction[];
-  setTransactions: Dispatch<SetStateAction<Transaction[]>>;
-  addTransaction: (transaction: Omit<Transaction, 'id'>) => void;
-  updateTransaction: (transaction: Transaction) => void;
-  deleteTransaction: (transactionId: string) => void;
   budgets: Budget[];
-  setBudgets: Dispatch<SetStateAction<Budget[]>>;
-  addBudget: (budget: Omit<Budget, 'id'>) => void;
-  updateBudget: (budget: Budget) => void;
-  deleteBudget: (budgetId: string) => void;
-  resetAllData: () => void;
-  getCategoryById: (id: string) => Category | undefined;
-  getAccountById: (id: string) => Account | undefined;
+  recurringTransactions: RecurringTransaction[];
+  exchangeRates: ExchangeRate[];
+  goals: SavingsGoal[];
+  loans: Loan[];
+  rules: CategorizationRule[];
 }
 
-const DataContext = createContext<DataContextType | undefined>(undefined);
+// Everything a repository holds, as read from it
+interface StorageSnapshot {
+  data: StoredData; // Readable collections only; collections that were never stored are left out
+  unreadableKeys: string[];
+  version: number | null; // null when nothing has been stored yet
+  rawData: { [key: string]: unknown }; // As found in storage, for the recovery backup
+  needsRewrite?: boolean; // Records are stored in another form than the repository writes, e.g. not encrypted yet
+}
 
-const DataProvider: React.FC<PropsWithChildren<{}>> = ({ children }) => {
-  const [accounts, setAccounts] = useLocalStorage<Account[]>('accounts', DEFAULT_INITIAL_ACCOUNTS);
-  const [categories, setCategories] = useLocalStorage<Category[]>('categories', DEFAULT_INITIAL_CATEGORIES);
-  const [transactions, setTransactions] = useLocalStorage<Transaction[]>('transactions', []);
-  const [budgets, setBudgets] = useLocalStorage<Budget[]>('budgets', []);
+interface StorageProblem {
+  key: string;
+  label: MessageKey;
+  message: MessageKey;
+  params?: MessageParams;
+}
 
-  const addAccount = (account: Omit<Account, 'id'>) => setAccounts(prev => [...prev, { ...account, id: generateId() }]);
-  const updateAccount = (updatedAccount: Account) => setAccounts(prev => prev.map(acc => acc.id === updatedAccount.id ? updatedAccount : acc));
-  const deleteAccount = (accountId: string) => setAccounts(prev => prev.filter(acc => acc.id !== accountId));
+const getCollectionLabel = (key: string): MessageKey => STORED_COLLECTIONS.find(collection => collection.key === key)?.label || 'storage.label.storage';
 
-  const addCategory = (category: Omit<Category, 'id'>) => setCategories(prev => [...prev, { ...category, id: generateId() }]);
-  const updateCategory = (updatedCategory: Category) => setCategories(prev => prev.map(cat => cat.id === updatedCategory.id ? updatedCategory : cat));
+// Upgrades a snapshot to the current schema and reports anything that is unreadable or invalid
+const loadStoredData = (snapshot: StorageSnapshot): { data: StoredData; problems: StorageProblem[] } => {
+  const problems: StorageProblem[] = snapshot.unreadableKeys.map(key => ({ key, label: getCollectionLabel(key), message: 'storage.problem.unreadable' }));
+  let data: StoredData = { ...snapshot.data };
+
+  const hasStoredData = Object.keys(data).length > 0 || snapshot.unreadableKeys.length > 0;
+  // Data saved before versioning existed has no version and counts as version 0
+  const version = snapshot.version !== null ? snapshot.version : hasStoredData ? 0 : CURRENT_SCHEMA_VERSION;
+  if (!Number.isInteger(version) || version > CURRENT_SCHEMA_VERSION) {
+    problems.push({ key: SCHEMA_VERSION_KEY, label: 'storage.label.version', message: 'storage.problem.unknownVersion', params: { version: String(snapshot.version) } });
+    return { data, problems };
+  }
+
+  for (const migration of STORAGE_MIGRATIONS.filter(m => m.version > version)) {
+    try {
+      data = migration.migrate(data);
+    } catch (error) {
+      console.error(`Error running storage migration ${migration.version}:`, error);
+      problems.push({ key: SCHEMA_VERSION_KEY, label: migration.description, message: 'storage.problem.migrationFailed' });
+      return { data, problems };
+    }
+  }
+
+  STORED_COLLECTIONS.forEach(({ key, label, isValidRecord }) => {
+    if (!(key in data)) return;
+    const records = data[key];
+    if (!Array.isArray(records)) {
+      problems.push({ key, label, message: 'storage.problem.invalidFormat' });
+    } else {
+      const invalidCount = records.filter(record => !isValidRecord(record)).length;
+      if (invalidCount > 0) problems.push({ key, label, message: 'storage.problem.invalidRecords', params: { count: invalidCount, total: records.length } });
+    }
+  });
+
+  return { data, problems };
+};
+
+const withDefaultCollections = (data: StoredData): StoredData => {
+  const completeData: StoredData = { ...data };
+  STORED_COLLECTIONS.forEach(({ key, defaultRecords }) => {
+    if (!(key in completeData)) completeData[key] = defaultRecords;
+  });
+  return completeData;
+};
+
+// Migrates stored data in place. Nothing is written while there are problems; otherwise the data is returned for the store.
+const prepareStoredData = async (repository: DataRepository): Promise<{ problems: StorageProblem[]; data?: StoredCollections }> => {
+  try {
+    const snapshot = await repository.loadSnapshot();
+    const { data, problems } = loadStoredData(snapshot);
+    if (problems.length > 0) return { problems };
+    const completeData = withDefaultCollections(data);
+    if (snapshot.version !== CURRENT_SCHEMA_VERSION || snapshot.needsRewrite || STORED_COLLECTIONS.some(({ key }) => !(key in data))) {
+      await repository.saveSnapshot(completeData);
+    }
+    return { problems: [], data: completeData as unknown as StoredCollections };
+  } catch (error) {
+    console.error('Error preparing stored data:', error);
+    return { problems: [{ key: SCHEMA_VERSION_KEY, label: 'storage.label.storage', message: 'storage.problem.inaccessible' }] };
+  }
+};
+
+// Names of the records that stand in for accounts and categories lost in a repair
+interface PlaceholderNames {
+  account: string;
+  category: string;
+}
+
+// Records that point to an account or category that is gone (because its record was dropped) get a placeholder
+// with that id, so none of them are lost and the user can rename or merge it afterwards. Optional links to a missing
+// goal account, loan or parent category are removed instead, as deleting those would do. Expects valid records only.
+const restoreStoredReferences = (data: StoredData, names: PlaceholderNames): StoredData => {
+  const accounts = data.accounts as StoredAccount[];
+  const categories = data.categories as Category[];
+  const transactions = data.transactions as Transaction[];
+  const recurringTransactions = data.recurringTransactions as Partial<RecurringTransaction>[];
+  const budgets = data.budgets as Budget[];
+  const goals = data.goals as SavingsGoal[];
+  const loans = data.loans as Loan[];
+  const rules = data.rules as CategorizationRule[];
+
+  const accountIds = new Set(accounts.map(account => account.id));
+  const categoryIds = new Set(categories.map(category => category.id));
+  const loanIds = new Set(loans.map(loan => loan.id));
+  const missingAccountIds = new Set<string>();
+  const missingCategoryTypes = new Map<string, CategoryType>();
+  const requireAccount = (id: string | undefined) => {
+    if (id && !accountIds.has(id)) missingAccountIds.add(id);
+  };
+  const requireCategory = (id: string | undefined, type: CategoryType) => {
+    if (id && !categoryIds.has(id) && !missingCategoryTypes.has(id)) missingCategoryTypes.set(id, type);
+  };
+
+  [...transactions, ...recurringTransactions].forEach(tx => {
+    requireAccount(tx.accountId);
+    requireAccount(tx.toAccountId);
+    const type = tx.type;
+    if (!isOneOf(Object.values(CategoryType), type)) return;
+    (tx.splits && tx.splits.length > 0 ? tx.splits : [{ categoryId: tx.categoryId }]).forEach(line => requireCategory(line.categoryId, type));
+  });
+  budgets.forEach(budget => requireCategory(budget.categoryId, CategoryType.EXPENSE));
+  loans.forEach(loan => {
+    requireAccount(loan.accountId);
+    requireCategory(loan.principalCategoryId, CategoryType.EXPENSE);
+    requireCategory(loan.interestCategoryId, CategoryType.EXPENSE);
+  });
+  rules.forEach(rule => {
+    requireAccount(rule.accountId);
+    requireCategory(rule.categoryId, rule.type);
+  });
+
+  const placeholderAccounts: StoredAccount[] = Array.from(missingAccountIds, id => ({ id, name: names.account, type: AccountType.BANK, currency: DEFAULT_CURRENCY, openingBalance: 0 }));
+  const placeholderCategories: Category[] = Array.from(missingCategoryTypes, ([id, type]) => ({ id, name: names.category, type }));
+  return {
+    ...data,
+    accounts: [...accounts, ...placeholderAccounts],
+    categories: [...categories.map(category => category.parentId && !categoryIds.has(category.parentId) ? { ...category, parentId: undefined } : category), ...placeholderCategories],
+    transactions: transactions.map(tx => tx.loanId && !loanIds.has(tx.loanId) ? { ...tx, loanId: undefined } : tx),
+    goals: goals.map(goal => goal.accountId && !accountIds.has(goal.accountId) ? { ...goal, accountId: undefined } : goal),
+  };
+};
+
+// Keeps every valid record and drops unreadable collections and invalid records, then restores the references the dropped
+// records leave dangling. Data of a newer schema, or data a migration failed on, is refused: its records cannot be checked,
+// and stamping the current version on it would skip migrations.
+const repairStoredData = async (repository: DataRepository, placeholderNames: PlaceholderNames) => {
+  const { data, problems } = loadStoredData(await repository.loadSnapshot());
+  if (problems.some(problem => problem.key === SCHEMA_VERSION_KEY)) throw new Error('Stored data cannot be brought to the current schema');
+  const repairedData: StoredData = {};
+  STORED_COLLECTIONS.forEach(({ key, isValidRecord }) => {
+    if (Array.isArray(data[key])) repairedData[key] = (data[key] as unknown[]).filter(isValidRecord);
+  });
+  await repository.saveSnapshot(restoreStoredReferences(withDefaultCollections(repairedData), placeholderNames));
+};
+
+const clearStoredData = async (repository: DataRepository) => {
+  await repository.saveSnapshot(withDefaultCollections({}));
+};
+
+// STORAGE REPOSITORIES
+interface CollectionChanges {
+  records: { id: string }[]; // The whole collection after the change
+  put: { id: string }[]; // Records that were added or modified
+  deleteIds: string[];
+}
+
+// A receipt file. Files are kept apart from the collections: they are never part of a snapshot and are only read when shown.
+interface StoredAttachment {
+  id: string;
+  data: Blob;
+  iv?: string; // Base64, set when data is encrypted
+}
+
+// Where the data store keeps its collections. Snapshots are only used at startup and for recovery;
+// while the app runs, every change is saved per collection.
+interface DataRepository {
+  kind: 'indexedDB' | 'localStorage';
+  loadSnapshot: () => Promise<StorageSnapshot>;
+  saveSnapshot: (data: StoredData) => Promise<void>; // Replaces every collection and stamps the current schema version
+  saveCollectionChanges: (key: string, changes: CollectionChanges) => Promise<void>;
+  // Attachments need IndexedDB; localStorage holds none
+  loadAttachment: (id: string) => Promise<StoredAttachment | undefined>;
+  saveAttachment: (attachment: StoredAttachment) => Promise<void>;
+  deleteAttachments: (ids: string[]) => Promise<void>;
+  listAttachmentIds: () => Promise<string[]>;
+}
+
+// Storage key of a collection within a user's namespace; the '' namespace uses the bare keys of older versions
+const getNamespacedKey = (namespace: string, key: string) => namespace ? `${namespace}:${key}` : key;
+
+const createLocalStorageRepository = (namespace: string): DataRepository => ({
+  kind: 'localStorage',
+  loadSnapshot: async () => {
+    const snapshot: StorageSnapshot = { data: {}, unreadableKeys: [], version: null, rawData: {} };
+    STORED_COLLECTIONS.forEach(({ key }) => {
+      const item = window.localStorage.getItem(getNamespacedKey(namespace, key));
+      snapshot.rawData[key] = item;
+      if (item === null) return;
+      try {
+        snapshot.data[key] = JSON.parse(item);
+      } catch (error) {
+        snapshot.unreadableKeys.push(key);
+      }
+    });
+    const storedVersion = window.localStorage.getItem(getNamespacedKey(namespace, SCHEMA_VERSION_KEY));
+    snapshot.rawData[SCHEMA_VERSION_KEY] = storedVersion;
+    if (storedVersion !== null) snapshot.version = Number(storedVersion);
+    return snapshot;
+  },
+  saveSnapshot: async (data) => {
+    STORED_COLLECTIONS.forEach(({ key }) => {
+      if (key in data) window.localStorage.setItem(getNamespacedKey(namespace, key), JSON.stringify(data[key]));
+      else window.localStorage.removeItem(getNamespacedKey(namespace, key));
+    });
+    window.localStorage.setItem(getNamespacedKey(namespace, SCHEMA_VERSION_KEY), String(CURRENT_SCHEMA_VERSION));
+  },
+  // localStorage can only hold whole values, so the full collection is rewritten
+  saveCollectionChanges: async (key, changes) => {
+    window.localStorage.setItem(getNamespacedKey(namespace, key), JSON.stringify(changes.records));
+  },
+  loadAttachment: async () => undefined,
+  saveAttachment: async () => {
+    throw new Error('Attachments are not supported in localStorage');
+  },
+  deleteAttachments: async () => {},
+  listAttachmentIds: async () => [],
+});
+
+// Removes the data collections left in localStorage once they live in IndexedDB; theme, settings and accounts stay
+const removeLocalStorageData = (namespace: string) => {
+  STORED_COLLECTIONS.forEach(({ key }) => window.localStorage.removeItem(getNamespacedKey(namespace, key)));
+  window.localStorage.removeItem(getNamespacedKey(namespace, SCHEMA_VERSION_KEY));
+};
+
+const IDB_NAME = 'hesty-intan-finances';
+const IDB_VERSION = 6; // Bump whenever STORED_COLLECTIONS gains a collection or another store is added, so its object store gets created
+const IDB_META_STORE = 'meta';
+const IDB_ATTACHMENT_STORE = 'attachments';
+
+// Another tab still has the database open at an older version, so it cannot be upgraded until that tab closes
+class StorageBlockedError extends Error {}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Newest first, as the store keeps transactions
+function sortNewestFirst<T>(records: T[]): T[] {
+  const getDate = (record: T) => isRecord(record) && typeof record.date === 'string' ? record.date : '';
+  return records.sort((a, b) => getDate(b).localeCompare(getDate(a)));
+}
+
+// One database per user namespace and one object store per collection keyed by id;
+// transactions are indexed for lookups by date, account and category (encrypted records are not)
+const openIndexedDBRepository = async (namespace: string): Promise<DataRepository> => {
+  if (typeof window.indexedDB === 'undefined') throw new Error('IndexedDB is not supported');
+  const openRequest = window.indexedDB.open(getNamespacedKey(namespace, IDB_NAME), IDB_VERSION);
+  openRequest.onupgradeneeded = () => {
+    const db = openRequest.result;
+    STORED_COLLECTIONS.forEach(({ key }) => {
+      if (db.objectStoreNames.contains(key)) return;
+      const store = db.createObjectStore(key, { keyPath: 'id' });
+      if (key === 'transactions') {
+        store.createIndex('date', 'date');
+        store.createIndex('accountId', 'accountId');
+        store.createIndex('categoryId', 'categoryId');
+      }
+    });
+    if (!db.objectStoreNames.contains(IDB_META_STORE)) db.createObjectStore(IDB_META_STORE, { keyPath: 'key' });
+    if (!db.objectStoreNames.contains(IDB_ATTACHMENT_STORE)) db.createObjectStore(IDB_ATTACHMENT_STORE, { keyPath: 'id' });
+  };
+  const blocked = new Promise<never>((_, reject) => {
+    openRequest.onblocked = () => {
+      // Opening still finishes once the other tab closes; that late connection is not used
+      openRequest.addEventListener('success', () => openRequest.result.close());
+      reject(new StorageBlockedError('IndexedDB upgrade is blocked by another tab'));
+    };
+  });
+  const db = await Promise.race([requestToPromise(openRequest), blocked]);
+  const storeNames = [...STORED_COLLECTIONS.map(({ key }) => key), IDB_META_STORE];
+
+  return {
+    kind: 'indexedDB',
+    loadSnapshot: async () => {
+      const transaction = db.transaction(storeNames, 'readonly');
+      const versionRecord = await requestToPromise(transaction.objectStore(IDB_META_STORE).get(SCHEMA_VERSION_KEY));
+      const snapshot: StorageSnapshot = { data: {}, unreadableKeys: [], version: versionRecord ? versionRecord.value : null, rawData: {} };
+      // A database without a version has never been written, so its empty stores mean "not stored yet"
+      if (snapshot.version === null) return snapshot;
+      for (const { key } of STORED_COLLECTIONS) {
+        const records = await requestToPromise(transaction.objectStore(key).getAll());
+        snapshot.data[key] = key === 'transactions' ? sortNewestFirst(records) : records;
+      }
+      snapshot.rawData = { ...snapshot.data, [SCHEMA_VERSION_KEY]: snapshot.version };
+      return snapshot;
+    },
+    saveSnapshot: async (data) => {
+      const transaction = db.transaction(storeNames, 'readwrite');
+      STORED_COLLECTIONS.forEach(({ key }) => {
+        const store = transaction.objectStore(key);
+        store.clear();
+        if (Array.isArray(data[key])) (data[key] as unknown[]).forEach(record => store.put(record));
+      });
+      transaction.objectStore(IDB_META_STORE).put({ key: SCHEMA_VERSION_KEY, value: CURRENT_SCHEMA_VERSION });
+      await transactionToPromise(transaction);
+    },
+    saveCollectionChanges: async (key, changes) => {
+      const transaction = db.transaction(key, 'readwrite');
+      const store = transaction.objectStore(key);
+      changes.deleteIds.forEach(id => store.delete(id));
+      changes.put.forEach(record => store.put(record));
+      await transactionToPromise(transaction);
+    },
+    loadAttachment: async (id) => {
+      const transaction = db.transaction(IDB_ATTACHMENT_STORE, 'readonly');
+      return requestToPromise<StoredAttachment | undefined>(transaction.objectStore(IDB_ATTACHMENT_STORE).get(id));
+    },
+    saveAttachment: async (attachment) => {
+      const transaction = db.transaction(IDB_ATTACHMENT_STORE, 'readwrite');
+      transaction.objectStore(IDB_ATTACHMENT_STORE).put(attachment);
+      await transactionToPromise(transaction);
+    },
+    deleteAttachments: async (ids) => {
+      const transaction = db.transaction(IDB_ATTACHMENT_STORE, 'readwrite');
+      const store = transaction.objectStore(IDB_ATTACHMENT_STORE);
+      ids.forEach(id => store.delete(id));
+      await transactionToPromise(transaction);
+    },
+    listAttachmentIds: async () => {
+      const transaction = db.transaction(IDB_ATTACHMENT_STORE, 'readonly');
+      return (await requestToPromise(transaction.objectStore(IDB_ATTACHMENT_STORE).getAllKeys())).map(String);
+    },
+  };
+};
+
+// Prefers IndexedDB and moves data saved by older versions out of localStorage into it.
+// Stays on localStorage when IndexedDB is unavailable, or when the old data needs recovery first.
+const openDataRepository = async (namespace: string): Promise<DataRepository> => {
+  const localRepository = createLocalStorageRepository(namespace);
+  let indexedDBRepository: DataRepository;
+  try {
+    indexedDBRepository = await openIndexedDBRepository(namespace);
+  } catch (error) {
+    // Falling back here would hide the data already in IndexedDB
+    if (error instanceof StorageBlockedError) throw error;
+    console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+    return localRepository;
+  }
+
+  const localSnapshot = await localRepository.loadSnapshot();
+  const hasLocalData = Object.keys(localSnapshot.data).length > 0 || localSnapshot.unreadableKeys.length > 0;
+  if (!hasLocalData) return indexedDBRepository;
+
+  // IndexedDB already holding data means an earlier move succeeded and only the cleanup was missed
+  if ((await indexedDBRepository.loadSnapshot()).version === null) {
+    const { data, problems } = loadStoredData(localSnapshot);
+    if (problems.length > 0) return localRepository;
+    try {
+      await indexedDBRepository.saveSnapshot(withDefaultCollections(data));
+    } catch (error) {
+      console.error('Error moving data to IndexedDB:', error);
+      return localRepository;
+    }
+  }
+  removeLocalStorageData(namespace);
+  return indexedDBRepository;
+};
+
+// Stored form of an encrypted record; only the id stays readable, as the stores are keyed by it
+interface EncryptedRecord {
+  id: string;
+  iv: string; // Base64
+  ciphertext: string; // Base64 AES-GCM of the record's JSON
+}
+
+const isEncryptedRecord = (record: unknown): record is EncryptedRecord =>
+  isRecord(record) && isNonEmptyString(record.id) && typeof record.iv === 'string' && typeof record.ciphertext === 'string' && Object.keys(record).length === 3;
+
+const encryptRecord = async (record: { id: string }, key: CryptoKey): Promise<EncryptedRecord> => {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(record)));
+  return { id: record.id, iv: bytesToBase64(iv), ciphertext: bytesToBase64(new Uint8Array(ciphertext)) };
+};
+
+const decryptRecord = async (record: EncryptedRecord, key: CryptoKey): Promise<unknown> => {
+  const plaintext = await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(record.iv) }, key, base64ToBytes(record.ciphertext));
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+// Encrypts records on their way into the repository and decrypts them on the way out, so the data store never sees the difference.
+// Records in the other form (plain ones when encrypting, encrypted ones when encryption was just turned off) are read as well,
+// and the snapshot asks for a rewrite. Records are never mutated, so their encrypted form is cached per record object.
+const createEncryptedRepository = (repository: DataRepository, key: CryptoKey, shouldEncrypt: boolean): DataRepository => {
+  const encryptedForms = new WeakMap<object, EncryptedRecord>();
+  // Last save of each collection. Encrypting takes a while, so a save waits for the one before it rather than overtaking it.
+  const pendingSaves = new Map<string, Promise<void>>();
+  const encodeAttachment = async (attachment: StoredAttachment): Promise<StoredAttachment> => {
+    if (!shouldEncrypt) return attachment;
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await attachment.data.arrayBuffer());
+    return { id: attachment.id, data: new Blob([ciphertext]), iv: bytesToBase64(iv) };
+  };
+  const decodeAttachment = async (attachment: StoredAttachment): Promise<StoredAttachment> => {
+    if (!attachment.iv) return attachment;
+    const plaintext = await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(attachment.iv) }, key, await attachment.data.arrayBuffer());
+    return { id: attachment.id, data: new Blob([plaintext]) };
+  };
+  const encodeRecords = (records: { id: string }[]): Promise<{ id: string }[]> => {
+    if (!shouldEncrypt) return Promise.resolve(records);
+    return Promise.all(records.map(async record => {
+      let encryptedRecord = encryptedForms.get(record);
+      if (!encryptedRecord) {
+        encryptedRecord = await encryptRecord(record, key);
+        encryptedForms.set(record, encryptedRecord);
+      }
+      return encryptedRecord;
+    }));
+  };
+
+  return {
+    kind: repository.kind,
+    loadSnapshot: async () => {
+      const snapshot = await repository.loadSnapshot();
+      const data: StoredData = {};
+      const unreadableKeys = [...snapshot.unreadableKeys];
+      let needsRewrite = false;
+      for (const [collectionKey, records] of Object.entries(snapshot.data)) {
+        if (!Array.isArray(records)) {
+          data[collectionKey] = records;
+          continue;
+        }
+        try {
+          data[collectionKey] = await Promise.all(records.map(async record => {
+            if (!isEncryptedRecord(record)) {
+              needsRewrite = needsRewrite || shouldEncrypt;
+              return record;
+            }
+            needsRewrite = needsRewrite || !shouldEncrypt;
+            const decryptedRecord = await decryptRecord(record, key);
+            if (shouldEncrypt && typeof decryptedRecord === 'object' && decryptedRecord !== null) encryptedForms.set(decryptedRecord, record);
+            return decryptedRecord;
+          }));
+        } catch (error) {
+          console.error(`Error decrypting "${collectionKey}":`, error);
+          unreadableKeys.push(collectionKey);
+        }
+      }
+      // The date index cannot see inside encrypted records
+      if (Array.isArray(data.transactions)) sortNewestFirst(data.transactions);
+      return { ...snapshot, data, unreadableKeys, needsRewrite: snapshot.needsRewrite || needsRewrite };
+    },
+    saveSnapshot: async (data) => {
+      const encodedData: StoredData = { ...data };
+      for (const collectionKey of Object.keys(data)) {
+        const records = data[collectionKey];
+        if (Array.isArray(records)) encodedData[collectionKey] = await encodeRecords(records);
+      }
+      await repository.saveSnapshot(encodedData);
+      // Attachment files follow the records into the other form
+      for (const id of await repository.listAttachmentIds()) {
+        const attachment = await repository.loadAttachment(id);
+        if (attachment && !!attachment.iv !== shouldEncrypt) await repository.saveAttachment(await encodeAttachment(await decodeAttachment(attachment)));
+      }
+    },
+    saveCollectionChanges: (collectionKey, changes) => {
+      // Only localStorage rewrites the whole collection; IndexedDB applies just the changed records
+      const rewritesCollection = repository.kind === 'localStorage';
+      const save = (pendingSaves.get(collectionKey) || Promise.resolve())
+        .catch(() => undefined)
+        .then(async () => repository.saveCollectionChanges(collectionKey, {
+          records: rewritesCollection ? await encodeRecords(changes.records) : [],
+          put: rewritesCollection ? [] : await encodeRecords(changes.put),
+          deleteIds: changes.deleteIds,
+        }));
+      pendingSaves.set(collectionKey, save);
+      return save;
+    },
+    loadAttachment: async (id) => {
+      const attachment = await repository.loadAttachment(id);
+      return attachment && decodeAttachment(attachment);
+    },
+    saveAttachment: async (attachment) => repository.saveAttachment(await encodeAttachment(attachment)),
+    deleteAttachments: (ids) => repository.deleteAttachments(ids),
+    listAttachmentIds: () => repository.listAttachmentIds(),
+  };
+};
+
+// Rewrites every record and attachment file in plain form, and throws when any of it cannot be read with the key
+const decryptStoredData = async (repository: DataRepository, key: CryptoKey) => {
+  const plainRepository = createEncryptedRepository(repository, key, false);
+  const { data, problems } = loadStoredData(await plainRepository.loadSnapshot());
+  if (problems.length > 0) throw new Error(`Stored data has problems: ${problems.map(problem => problem.key).join(', ')}`);
+  await plainRepository.saveSnapshot(withDefaultCollections(data));
+};
+
+interface CollectionSaveTracker {
+  retryCount: number; // Raised to save again whatever failed saves left unsaved
+  onSaveResult: (key: string, succeeded: boolean) => void;
+}
+
+// Keeps a collection in memory and saves only the records that changed. Records are replaced, never mutated,
+// so a record that is not the same object as before has been modified. The saved records only move on once a save
+// succeeds, so the next save (or a retry) still carries the changes of one that failed.
+function useRepositoryCollection<T extends { id: string }>(repository: DataRepository, key: string, initialRecords: T[], saveTracker: CollectionSaveTracker): [T[], Dispatch<SetStateAction<T[]>>] {
+  const [records, setRecords] = useState<T[]>(initialRecords);
+  const savedRecordsRef = useRef<T[]>(initialRecords);
+
+  useEffect(() => {
+    const savedRecords = savedRecordsRef.current;
+    if (records === savedRecords) return;
+
+    const savedById = new Map(savedRecords.map(record => [record.id, record]));
+    const recordIds = new Set(records.map(record => record.id));
+    const changes: CollectionChanges = {
+      records,
+      put: records.filter(record => savedById.get(record.id) !== record),
+      deleteIds: savedRecords.filter(record => !recordIds.has(record.id)).map(record => record.id),
+    };
+    if (changes.put.length === 0 && changes.deleteIds.length === 0) {
+      savedRecordsRef.current = records;
+      return;
+    }
+    // Saves of a collection finish in the order they started, so the last one to finish holds the newest records
+    repository.saveCollectionChanges(key, changes)
+      .then(() => {
+        savedRecordsRef.current = records;
+        saveTracker.onSaveResult(key, true);
+      })
+      .catch(error => {
+        console.error(`Error saving "${key}":`, error);
+        saveTracker.onSaveResult(key, false);
+      });
+  }, [records, key, repository, saveTracker]);
+
+  return [records, setRecords];
+}
+
+// DATA CONTEXT
+type RecurringTransactionInput = Omit<RecurringTransaction, 'id' | 'processedCount' | 'skippedDates' | 'overrides'>;
+
+interface DataContextType {
+  accounts: Account[]; // Balances derived from openingBalance and the ledger
+  setAccounts: Dispatch<SetStateAction<StoredAccount[]>>;
+  addAccount: (account: Omit<StoredAccount, 'id'>) => void;
+  updateAccount: (account: StoredAccount) => void;
+  deleteAccount: (accountId: string) => void;
+  categories: Category[];
+  setCategories: Dispatch<SetStateAction<Category[]>>;
+  addCategory: (category: Omit<Category, 'id'>) => void;
+  updateCategory: (category: Category) => void;
+  deleteCategory: (categoryId: string) => void;
+  transactions: Transaction[];
+  setTransactions: Dispatch<SetStateAction<Transaction[]>>;
+  addTransaction: (transaction: Omit<Transaction, 'id'>) => void;
+  updateTransaction: (transaction: Transaction) => void;
+  deleteTransaction: (transactionId: string) => void;
+  budgets: Budget[];
+  setBudgets: Dispatch<SetStateAction<Budget[]>>;
+  addBudget: (budget: Omit<Budget, 'id'>) => void;
+  updateBudget: (budget: Budget) => void;
+  deleteBudget: (budgetId: string) => void;
+  recurringTransactions: RecurringTransaction[];
+  addRecurringTransaction: (recurring: RecurringTransactionInput) => void;
+  updateRecurringTransaction: (recurring: RecurringTransaction) => void;
+  deleteRecurringTransaction: (recurringId: string) => void;
+  toggleSkipRecurringOccurrence: (recurringId: string, scheduledDate: string) => void;
+  editRecurringOccurrence: (recurringId: string, scheduledDate: string, transaction: Omit<Transaction, 'id'>) => void;
+  exchangeRates: ExchangeRate[];
+  addExchangeRate: (rate: Omit<ExchangeRate, 'id'>) => void;
+  updateExchangeRate: (rate: ExchangeRate) => void;
+  deleteExchangeRate: (rateId: string) => void;
+  goals: SavingsGoal[];
+  addGoal: (goal: Omit<SavingsGoal, 'id'>) => void;
+  updateGoal: (goal: SavingsGoal) => void;
+  deleteGoal: (goalId: string) => void;
+  loans: Loan[];
+  addLoan: (loan: Omit<Loan, 'id'>) => void;
+  updateLoan: (loan: Loan) => void;
+  deleteLoan: (loanId: string) => void;
+  rules: CategorizationRule[]; // In priority order
+  addRule: (rule: Omit<CategorizationRule, 'id'>) => void;
+  updateRule: (rule: CategorizationRule) => void;
+  deleteRule: (ruleId: string) => void;
+  moveRule: (ruleId: string, direction: -1 | 1) => void;
+  baseCurrency: CurrencyCode; // Totals, charts and budgets are in this currency, from the settings
+  changeBaseCurrency: (currency: CurrencyCode) => void; // Converts the budgets along with it, after asking
+  getAccountCurrency: (accountId: string) => CurrencyCode;
+  toBaseAmount: (amount: number, accountId: string) => number; // 0 when the account's currency has no rate to the base currency
+  missingRateCurrencies: CurrencyCode[]; // Account currencies that cannot be converted to the base currency
+  attachmentsSupported: boolean; // Receipt files need IndexedDB
+  addAttachment: (file: File) => Promise<TransactionAttachment>; // Stores the file; it is deleted again once no transaction refers to it
+  loadAttachment: (attachment: TransactionAttachment) => Promise<Blob | undefined>;
+  resetAllData: () => void;
+  storageKind: DataRepository['kind'];
+  getCategoryById: (id: string) => Category | undefined;
+  getAccountById: (id: string) => Account | undefined;
+}
+
+const DataContext = createContext<DataContextType | undefined>(undefined);
+
+// Derived balances must never be persisted
+const toStoredAccount = (account: StoredAccount | Account): StoredAccount => {
+  const { balance, ...storedAccount } = account as Account;
+  return storedAccount;
+};
+
+type StorageState =
+  | { status: 'loading' }
+  | { status: 'failed'; message: MessageKey }
+  | { status: 'problems'; repository: DataRepository; problems: StorageProblem[] }
+  | { status: 'ready'; repository: DataRepository; data: StoredCollections };
+
+// Opens the signed-in user's repository and migrates stored data before the store reads it, and asks the user what to do when it is corrupt.
+// Only rendered for a signed-in user, see ProtectedRoute.
+const DataProvider: React.FC<PropsWithChildren<{}>> = ({ children }) => {
+  const [storageState, setStorageState] = useState<StorageState>({ status: 'loading' });
+  const { dataNamespace, dataKey, isDataEncrypted } = useAuth();
+  const { t } = useTranslation();
+
+  const loadStorage = useCallback(async () => {
+    setStorageState({ status: 'loading' });
+    try {
+      const storage = await openDataRepository(dataNamespace ?? '');
+      const repository = dataKey ? createEncryptedRepository(storage, dataKey, isDataEncrypted) : storage;
+      const { problems, data } = await prepareStoredData(repository);
+      setStorageState(problems.length > 0 || !data ? { status: 'problems', repository, problems } : { status: 'ready', repository, data });
+    } catch (error) {
+      console.error('Error loading stored data:', error);
+      setStorageState({ status: 'failed', message: error instanceof StorageBlockedError ? 'storage.blocked' : 'storage.loadFailed' });
+    }
+  }, [dataNamespace, dataKey, isDataEncrypted]);
+
+  // Guards against opening and migrating storage twice when effects run twice (StrictMode),
+  // and loads again when encryption is turned on or off
+  const startedLoadRef = useRef<typeof loadStorage | null>(null);
+  useEffect(() => {
+    if (startedLoadRef.current === loadStorage) return;
+    startedLoadRef.current = loadStorage;
+    loadStorage();
+  }, [loadStorage]);
+
+  if (storageState.status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-lightBg dark:bg-darkBg text-lightTextSecondary dark:text-darkTextSecondary">
+        <i className="fas fa-spinner fa-spin mr-2"></i>{t('storage.loading')}
+      </div>
+    );
+  }
+  if (storageState.status === 'failed') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-lightBg dark:bg-darkBg p-4">
+        <Card className="w-full max-w-md text-center">
+          <h1 className="text-xl sm:text-2xl font-bold text-red-500 mb-2"><i className="fas fa-exclamation-triangle mr-2"></i>{t('storage.loadFailedTitle')}</h1>
+          <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary mb-6">{t(storageState.message)}</p>
+          <Button variant="primary" className="w-full" size="md" onClick={loadStorage}>
+            <i className="fas fa-redo mr-2"></i>{t('storage.retry')}
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+  if (storageState.status === 'problems') {
+    return <StorageRecoveryScreen repository={storageState.repository} problems={storageState.problems} onResolved={loadStorage} />;
+  }
+  return <DataStoreProvider repository={storageState.repository} initialData={storageState.data}>{children}</DataStoreProvider>;
+};
+
+const DataStoreProvider: React.FC<PropsWithChildren<{ repository: DataRepository; initialData: StoredCollections }>> = ({ repository, initialData, children }) => {
+  const { t } = useTranslation();
+  // Collections whose latest save failed; their changes stay in memory until a retry saves them
+  const [failedSaveKeys, setFailedSaveKeys] = useState<string[]>([]);
+  const [saveRetryCount, setSaveRetryCount] = useState(0);
+  const onSaveResult = useCallback((key: string, succeeded: boolean) => {
+    setFailedSaveKeys(prev => succeeded ? prev.filter(failedKey => failedKey !== key) : prev.includes(key) ? prev : [...prev, key]);
+  }, []);
+  const saveTracker = useMemo(() => ({ retryCount: saveRetryCount, onSaveResult }), [saveRetryCount, onSaveResult]);
+  const [storedAccounts, setAccounts] = useRepositoryCollection<StoredAccount>(repository, 'accounts', initialData.accounts, saveTracker);
+  const [categories, setCategories] = useRepositoryCollection<Category>(repository, 'categories', initialData.categories, saveTracker);
+  const [transactions, setTransactions] = useRepositoryCollection<Transaction>(repository, 'transactions', initialData.transactions, saveTracker);
+  const [budgets, setBudgets] = useRepositoryCollection<Budget>(repository, 'budgets', initialData.budgets, saveTracker);
+  const [recurringTransactions, setRecurringTransactions] = useRepositoryCollection<RecurringTransaction>(repository, 'recurringTransactions', initialData.recurringTransactions, saveTracker);
+  const [exchangeRates, setExchangeRates] = useRepositoryCollection<ExchangeRate>(repository, 'exchangeRates', initialData.exchangeRates, saveTracker);
+  const [goals, setGoals] = useRepositoryCollection<SavingsGoal>(repository, 'goals', initialData.goals, saveTracker);
+  const [loans, setLoans] = useRepositoryCollection<Loan>(repository, 'loans', initialData.loans, saveTracker);
+  const [rules, setRules] = useRepositoryCollection<CategorizationRule>(repository, 'rules', initialData.rules, saveTracker);
+  const { settings, updateSettings } = useSettings();
+  const baseCurrency = settings.currency;
+
+  const accounts: Account[] = useMemo(() => {
+    const ledgerBalances = computeLedgerBalances(transactions);
+    return storedAccounts.map(acc => ({ ...acc, balance: acc.openingBalance + (ledgerBalances.get(acc.id) || 0) }));
+  }, [storedAccounts, transactions]);
+
+  const addAccount = (account: Omit<StoredAccount, 'id'>) => setAccounts(prev => [...prev, toStoredAccount({ ...account, id: generateId() })]);
+  const updateAccount = (updatedAccount: StoredAccount) => setAccounts(prev => prev.map(acc => acc.id === updatedAccount.id ? toStoredAccount(updatedAccount) : acc));
+  const deleteAccount = (accountId: string) => {
+    setAccounts(prev => prev.filter(acc => acc.id !== accountId));
+    // Goals linked to the account keep their target and go back to recorded contributions
+    setGoals(prev => prev.map(goal => goal.accountId === accountId ? { ...goal, accountId: undefined } : goal));
+  };
+
+  const addCategory = (category: Omit<Category, 'id'>) => setCategories(prev => [...prev, { ...category, id: generateId() }]);
+  const updateCategory = (updatedCategory: Category) => setCategories(prev => prev.map(cat => cat.id === updatedCategory.id ? updatedCategory : cat));
   const deleteCategory = (categoryId: string) => setCategories(prev => prev.filter(cat => cat.id !== categoryId));
   
   const getCategoryById = useCallback((id: string) => categories.find(cat => cat.id === id), [categories]);
   const getAccountById = useCallback((id: string) => accounts.find(acc => acc.id === id), [accounts]);
 
+  // Rate from each account currency to the base currency; missing when the table cannot convert it
+  const baseRates = useMemo(() => {
+    const rates = new Map<CurrencyCode, number>();
+    new Set(storedAccounts.map(acc => acc.currency)).forEach(currency => {
+      const rate = findExchangeRate(exchangeRates, currency, baseCurrency);
+      if (rate !== undefined) rates.set(currency, rate);
+    });
+    return rates;
+  }, [storedAccounts, exchangeRates, baseCurrency]);
+
+  const missingRateCurrencies = useMemo(
+    () => Array.from(new Set(storedAccounts.map(acc => acc.currency))).filter(currency => !baseRates.has(currency)),
+    [storedAccounts, baseRates]
+  );
+
+  const getAccountCurrency = useCallback(
+    (accountId: string) => storedAccounts.find(acc => acc.id === accountId)?.currency || baseCurrency,
+    [storedAccounts, baseCurrency]
+  );
+  const toBaseAmount = useCallback(
+    (amount: number, accountId: string) => amount * (baseRates.get(getAccountCurrency(accountId)) ?? 0),
+    [baseRates, getAccountCurrency]
+  );
+
+  const addExchangeRate = (rate: Omit<ExchangeRate, 'id'>) => setExchangeRates(prev => [...prev, { ...rate, id: generateId() }]);
+  const updateExchangeRate = (updatedRate: ExchangeRate) => setExchangeRates(prev => prev.map(r => r.id === updatedRate.id ? updatedRate : r));
+  const deleteExchangeRate = (rateId: string) => setExchangeRates(prev => prev.filter(r => r.id !== rateId));
+
+  const addGoal = (goal: Omit<SavingsGoal, 'id'>) => setGoals(prev => [...prev, { ...goal, id: generateId() }]);
+  const updateGoal = (updatedGoal: SavingsGoal) => setGoals(prev => prev.map(g => g.id === updatedGoal.id ? updatedGoal : g));
+  const deleteGoal = (goalId: string) => setGoals(prev => prev.filter(g => g.id !== goalId));
+
+  const addLoan = (loan: Omit<Loan, 'id'>) => setLoans(prev => [...prev, { ...loan, id: generateId() }]);
+  const updateLoan = (updatedLoan: Loan) => setLoans(prev => prev.map(l => l.id === updatedLoan.id ? updatedLoan : l));
+  // Posted installments stay in the ledger as ordinary expenses
+  const deleteLoan = (loanId: string) => {
+    setLoans(prev => prev.filter(l => l.id !== loanId));
+    setTransactions(prev => prev.map(tx => {
+      if (tx.loanId !== loanId) return tx;
+      const { loanId: _, ...transaction } = tx;
+      return transaction;
+    }));
+  };
+
+  const addRule = (rule: Omit<CategorizationRule, 'id'>) => setRules(prev => [...prev, { ...rule, id: generateId() }]);
+  const updateRule = (updatedRule: CategorizationRule) => setRules(prev => prev.map(r => r.id === updatedRule.id ? updatedRule : r));
+  const deleteRule = (ruleId: string) => setRules(prev => prev.filter(r => r.id !== ruleId));
+  // Swaps the rule with its neighbour, raising or lowering its priority
+  const moveRule = (ruleId: string, direction: -1 | 1) => setRules(prev => {
+    const index = prev.findIndex(r => r.id === ruleId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= prev.length) return prev;
+    const next = [...prev];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  });
+
+  // Account balances are derived from the ledger, so transaction changes never touch accounts directly
   const addTransaction = (transaction: Omit<Transaction, 'id'>) => {
     const newTransaction = { ...transaction, id: generateId() };
     setTransactions(prev => [newTransaction, ...prev].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
-    // Update account balance
-    setAccounts(prevAccounts => prevAccounts.map(acc => {
-        if (acc.id === transaction.accountId) {
-            const balanceChange = transaction.type === CategoryType.INCOME ? transaction.amount : -transaction.amount;
-            return { ...acc, balance: acc.balance + balanceChange };
-        }
-        return acc;
-    }));
   };
 
   const updateTransaction = (updatedTransaction: Transaction) => {
-    const oldTransaction = transactions.find(t => t.id === updatedTransaction.id);
-    
     setTransactions(prev => prev.map(t => t.id === updatedTransaction.id ? updatedTransaction : t).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
-    
-    setAccounts(prevAccounts => prevAccounts.map(acc => {
-      let newBalance = acc.balance;
-      // Revert old transaction if it existed and affected this account
-      if (oldTransaction && oldTransaction.accountId === acc.id) {
-        const oldImpact = oldTransaction.type === CategoryType.INCOME ? oldTransaction.amount : -oldTransaction.amount;
-        newBalance -= oldImpact;
-      }
-      // Apply new transaction if it affects this account
-      if (updatedTransaction.accountId === acc.id) {
-        const newImpact = updatedTransaction.type === CategoryType.INCOME ? updatedTransaction.amount : -updatedTransaction.amount;
-        newBalance += newImpact;
-      }
-      return { ...acc, balance: newBalance };
-    }));
   };
   
   const deleteTransaction = (transactionId: string) => {
-     const transactionToDelete = transactions.find(t => t.id === transactionId);
-    if (transactionToDelete) {
-      setAccounts(prevAccounts => prevAccounts.map(acc => {
-        if (acc.id === transactionToDelete.accountId) {
-          const balanceChange = transactionToDelete.type === CategoryType.INCOME ? -transactionToDelete.amount : transactionToDelete.amount;
-          return { ...acc, balance: acc.balance + balanceChange };
-        }
-        return acc;
-      }));
-    }
     setTransactions(prev => prev.filter(t => t.id !== transactionId));
   };
 
@@ -212,12 +1985,107 @@ const DataProvider: React.FC<PropsWithChildren<{}>> = ({ children }) => {
   const updateBudget = (updatedBudget: Budget) => setBudgets(prev => prev.map(b => b.id === updatedBudget.id ? updatedBudget : b));
   const deleteBudget = (budgetId: string) => setBudgets(prev => prev.filter(b => b.id !== budgetId));
 
+  // Posts every occurrence due by today and advances each template past it
+  const postDueRecurringTransactions = (templates: RecurringTransaction[]) => {
+    const today = formatDateForInput();
+    const processedCounts = new Map<string, number>();
+    templates.forEach(template => {
+      const dueOccurrences = getUpcomingOccurrences(template, today);
+      dueOccurrences.filter(occurrence => !occurrence.isSkipped).forEach(occurrence => addTransaction(occurrence.transaction));
+      if (dueOccurrences.length > 0) processedCounts.set(template.id, template.processedCount + dueOccurrences.length);
+    });
+    if (processedCounts.size > 0) {
+      setRecurringTransactions(prev => prev.map(r => processedCounts.has(r.id) ? { ...r, processedCount: processedCounts.get(r.id)! } : r));
+    }
+  };
+
+  // Guards against double posting when effects run twice (StrictMode)
+  const hasPostedRecurringRef = useRef(false);
+  useEffect(() => {
+    if (hasPostedRecurringRef.current) return;
+    hasPostedRecurringRef.current = true;
+    postDueRecurringTransactions(recurringTransactions);
+  }, []);
+
+  const addRecurringTransaction = (recurring: RecurringTransactionInput) => {
+    const newRecurring: RecurringTransaction = { ...recurring, id: generateId(), processedCount: 0, skippedDates: [], overrides: {} };
+    setRecurringTransactions(prev => [...prev, newRecurring]);
+    postDueRecurringTransactions([newRecurring]);
+  };
+  const updateRecurringTransaction = (updatedRecurring: RecurringTransaction) => {
+    const oldRecurring = recurringTransactions.find(r => r.id === updatedRecurring.id);
+    const isScheduleChanged = !oldRecurring || (['frequency', 'interval', 'startDate', 'dayOfMonth'] as const).some(key => oldRecurring[key] !== updatedRecurring[key]);
+    // A new schedule treats everything up to today as handled, so past dates are never posted twice
+    const recurringToStore = isScheduleChanged
+      ? { ...updatedRecurring, processedCount: countOccurrencesUntil(updatedRecurring, formatDateForInput()), skippedDates: [], overrides: {} }
+      : updatedRecurring;
+    setRecurringTransactions(prev => prev.map(r => r.id === recurringToStore.id ? recurringToStore : r));
+  };
+  const deleteRecurringTransaction = (recurringId: string) => setRecurringTransactions(prev => prev.filter(r => r.id !== recurringId));
+  const toggleSkipRecurringOccurrence = (recurringId: string, scheduledDate: string) => setRecurringTransactions(prev => prev.map(r => {
+    if (r.id !== recurringId) return r;
+    const skippedDates = r.skippedDates.includes(scheduledDate) ? r.skippedDates.filter(d => d !== scheduledDate) : [...r.skippedDates, scheduledDate];
+    return { ...r, skippedDates };
+  }));
+  const editRecurringOccurrence = (recurringId: string, scheduledDate: string, transaction: Omit<Transaction, 'id'>) => setRecurringTransactions(prev => prev.map(r =>
+    r.id === recurringId ? { ...r, overrides: { ...r.overrides, [scheduledDate]: transaction } } : r
+  ));
+
+  const addAttachment = async (file: File): Promise<TransactionAttachment> => {
+    const id = generateId();
+    await repository.saveAttachment({ id, data: file });
+    return { id, name: file.name, type: file.type, size: file.size, thumbnail: await createThumbnail(file) };
+  };
+  const loadAttachment = useCallback(async (attachment: TransactionAttachment): Promise<Blob | undefined> => {
+    const storedAttachment = await repository.loadAttachment(attachment.id);
+    return storedAttachment && new Blob([storedAttachment.data], { type: attachment.type });
+  }, [repository]);
+
+  // Deletes the files of attachments no transaction refers to any more. The first run also catches files
+  // left behind earlier, e.g. picked in a form that was never saved, or kept through a reset.
+  const referencedAttachmentIdsRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    const attachmentIds = new Set(transactions.flatMap(tx => (tx.attachments || []).map(attachment => attachment.id)));
+    const previousIds = referencedAttachmentIdsRef.current;
+    referencedAttachmentIdsRef.current = attachmentIds;
+    (previousIds ? Promise.resolve(Array.from(previousIds)) : repository.listAttachmentIds())
+      .then(ids => {
+        const unusedIds = ids.filter(id => !attachmentIds.has(id));
+        if (unusedIds.length > 0) return repository.deleteAttachments(unusedIds);
+      })
+      .catch(error => console.error('Error deleting attachments:', error));
+  }, [transactions, repository]);
+
+  // Budget amounts are in the base currency, so they are converted with the exchange rate table, or kept as they are when it has no rate
+  const changeBaseCurrency = (currency: CurrencyCode) => {
+    if (currency === baseCurrency) return;
+    const rate = findExchangeRate(exchangeRates, baseCurrency, currency);
+    if (budgets.length > 0) {
+      const confirmKey = rate === undefined ? 'preferences.confirmBaseCurrencyWithoutRate' : 'preferences.confirmBaseCurrencyConversion';
+      if (!window.confirm(t(confirmKey, { from: baseCurrency, to: currency }))) return;
+    }
+    if (rate !== undefined) {
+      const convert = (amount: number) => roundCurrencyAmount(amount * rate, currency);
+      setBudgets(prev => prev.map(budget => ({
+        ...budget,
+        amount: convert(budget.amount),
+        amountChanges: budget.amountChanges?.map(change => ({ ...change, amount: convert(change.amount) })),
+      })));
+    }
+    updateSettings({ currency });
+  };
+
   const resetAllData = () => {
-    if (window.confirm("Apakah Anda yakin ingin mereset semua data keuangan? Tindakan ini tidak dapat diurungkan.")) {
+    if (window.confirm(t('data.confirmReset'))) {
       setAccounts(DEFAULT_INITIAL_ACCOUNTS);
       setCategories(DEFAULT_INITIAL_CATEGORIES);
       setTransactions([]);
       setBudgets([]);
+      setRecurringTransactions([]);
+      setExchangeRates([]);
+      setGoals([]);
+      setLoans([]);
+      setRules([]);
     }
   };
 
@@ -227,9 +2095,28 @@ const DataProvider: React.FC<PropsWithChildren<{}>> = ({ children }) => {
       categories, setCategories, addCategory, updateCategory, deleteCategory, getCategoryById,
       transactions, setTransactions, addTransaction, updateTransaction, deleteTransaction,
       budgets, setBudgets, addBudget, updateBudget, deleteBudget,
-      resetAllData
+      recurringTransactions, addRecurringTransaction, updateRecurringTransaction, deleteRecurringTransaction,
+      toggleSkipRecurringOccurrence, editRecurringOccurrence,
+      exchangeRates, addExchangeRate, updateExchangeRate, deleteExchangeRate,
+      goals, addGoal, updateGoal, deleteGoal,
+      loans, addLoan, updateLoan, deleteLoan,
+      rules, addRule, updateRule, deleteRule, moveRule,
+      baseCurrency, changeBaseCurrency, getAccountCurrency, toBaseAmount, missingRateCurrencies,
+      attachmentsSupported: repository.kind === 'indexedDB', addAttachment, loadAttachment,
+      resetAllData, storageKind: repository.kind
     }}>
       {children}
+      {failedSaveKeys.length > 0 && (
+        <div role="alert" className="fixed bottom-4 inset-x-4 sm:left-auto sm:max-w-md z-50 p-3 sm:p-4 rounded-md shadow-lg bg-red-600 text-white text-sm flex items-center gap-3">
+          <i className="fas fa-exclamation-triangle"></i>
+          <span className="flex-1">
+            {t('storage.saveFailed', { collections: failedSaveKeys.map(key => t(STORED_COLLECTIONS.find(collection => collection.key === key)?.label || 'storage.label.storage')).join(', ') })}
+          </span>
+          <Button variant="secondary" size="sm" onClick={() => setSaveRetryCount(count => count + 1)}>
+            <i className="fas fa-redo mr-1"></i>{t('storage.retry')}
+          </Button>
+        </div>
+      )}
     </DataContext.Provider>
   );
 };
@@ -299,6 +2186,85 @@ const Input: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label?: st
   );
 };
 
+const TextArea: React.FC<React.TextareaHTMLAttributes<HTMLTextAreaElement> & { label?: string }> = ({ label, id, className, ...props }) => {
+  return (
+    <div className="w-full">
+      {label && <label htmlFor={id} className="block text-sm font-medium text-lightTextSecondary dark:text-darkTextSecondary mb-1">{label}</label>}
+      <textarea
+        id={id}
+        className={`w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary bg-lightSurface dark:bg-darkSurface text-lightText dark:text-darkText ${className}`}
+        {...props}
+      />
+    </div>
+  );
+};
+
+// Options for a category <select>, with subcategories grouped under their parent. The parent itself can be picked too.
+const CategoryOptions: React.FC<{ categories: Category[] }> = ({ categories }) => {
+  const { getCategoryName } = useTranslation();
+  return (
+    <>
+      {getCategoryGroups(categories).map(({ category, children }) => children.length > 0 ? (
+        <optgroup key={category.id} label={getCategoryName(category)}>
+          <option value={category.id}>{getCategoryName(category)}</option>
+          {children.map(child => <option key={child.id} value={child.id}>{getCategoryName(child)}</option>)}
+        </optgroup>
+      ) : (
+        <option key={category.id} value={category.id}>{getCategoryName(category)}</option>
+      ))}
+    </>
+  );
+};
+
+// Tags as removable chips. Enter, comma or leaving the field adds the typed tag; suggestions come from a datalist.
+const TagInput: React.FC<{ label?: string; tags: string[]; onChange: (tags: string[]) => void; suggestions: string[]; placeholder?: string; removeLabel: string }> = ({ label, tags, onChange, suggestions, placeholder, removeLabel }) => {
+  const [text, setText] = useState('');
+  const listId = useMemo(() => `tag-suggestions-${generateId()}`, []);
+
+  const addTag = () => {
+    const tag = normalizeTag(text);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setText('');
+  };
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag();
+    } else if (e.key === 'Backspace' && !text && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="w-full">
+      {label && <span className="block text-sm font-medium text-lightTextSecondary dark:text-darkTextSecondary mb-1">{label}</span>}
+      <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 border border-slate-300 dark:border-slate-600 rounded-md bg-lightSurface dark:bg-darkSurface">
+        {tags.map(tag => (
+          <span key={tag} className="inline-flex items-center px-2 py-0.5 text-xs rounded-full bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-300">
+            #{tag}
+            <button type="button" onClick={() => onChange(tags.filter(other => other !== tag))} className="ml-1 hover:text-red-500" title={removeLabel}>
+              <i className="fas fa-times"></i>
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          list={listId}
+          value={text}
+          onChange={e => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={addTag}
+          placeholder={tags.length === 0 ? placeholder : undefined}
+          className="flex-1 min-w-[8rem] py-0.5 bg-transparent focus:outline-none text-sm text-lightText dark:text-darkText"
+        />
+        <datalist id={listId}>
+          {suggestions.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+      </div>
+    </div>
+  );
+};
+
 const Select: React.FC<React.SelectHTMLAttributes<HTMLSelectElement> & { label?: string; error?: string }> = ({ label, id, children, error, className, ...props }) => {
   return (
     <div className="w-full">
@@ -319,13 +2285,21 @@ interface ModalProps {
   isOpen: boolean;
   onClose: () => void;
   title: string;
+  size?: 'md' | 'lg' | 'xl';
 }
-const Modal: React.FC<PropsWithChildren<ModalProps>> = ({ isOpen, onClose, title, children }) => {
+const Modal: React.FC<PropsWithChildren<ModalProps>> = ({ isOpen, onClose, title, size = 'md', children }) => {
   if (!isOpen) return null;
 
+  let sizeStyle = "";
+  switch(size) {
+    case 'md': sizeStyle = "max-w-md"; break;
+    case 'lg': sizeStyle = "max-w-2xl max-h-[90vh] overflow-y-auto"; break;
+    case 'xl': sizeStyle = "max-w-5xl max-h-[90vh] overflow-y-auto"; break;
+  }
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4">
-      <div className="bg-lightSurface dark:bg-darkSurface p-4 sm:p-6 rounded-lg shadow-xl w-full max-w-md">
+      <div className={`bg-lightSurface dark:bg-darkSurface p-4 sm:p-6 rounded-lg shadow-xl w-full ${sizeStyle}`}>
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-lg sm:text-xl font-semibold text-lightText dark:text-darkText">{title}</h2>
           <Button variant="ghost" onClick={onClose} className="text-2xl leading-none p-1 -mr-2 -mt-2">&times;</Button>
@@ -343,6 +2317,7 @@ interface HeaderProps {
 const Header: React.FC<HeaderProps> = ({ toggleMobileSidebar }) => {
   const { theme, toggleTheme } = useTheme();
   const { user, logout, isAuthenticated } = useAuth();
+  const { t } = useTranslation();
   const navigate = useNavigate();
 
   const handleLogout = () => {
@@ -356,11 +2331,11 @@ const Header: React.FC<HeaderProps> = ({ toggleMobileSidebar }) => {
         <button 
           onClick={toggleMobileSidebar} 
           className="md:hidden text-xl text-lightTextSecondary dark:text-darkTextSecondary hover:text-primary dark:hover:text-primary mr-2 p-1"
-          aria-label="Toggle sidebar"
+          aria-label={t('layout.toggleSidebar')}
         >
           <i className="fas fa-bars"></i>
         </button>
-        <Link to="/" className="text-lg sm:text-xl font-bold text-primary">Management Keuangan</Link>
+        <Link to="/" className="text-lg sm:text-xl font-bold text-primary">{t('app.title')}</Link>
       </div>
       <div className="flex items-center space-x-2 sm:space-x-4">
         <button onClick={toggleTheme} className="text-lg sm:text-xl text-lightTextSecondary dark:text-darkTextSecondary hover:text-primary dark:hover:text-primary p-1">
@@ -374,7 +2349,7 @@ const Header: React.FC<HeaderProps> = ({ toggleMobileSidebar }) => {
              </span>
              <div className="absolute right-0 mt-2 w-40 sm:w-48 bg-lightSurface dark:bg-darkSurface rounded-md shadow-lg py-1 hidden group-hover:block">
                 <button onClick={handleLogout} className="block w-full text-left px-4 py-2 text-sm text-lightText dark:text-darkText hover:bg-slate-100 dark:hover:bg-slate-700">
-                  <i className="fas fa-sign-out-alt mr-2"></i>Keluar
+                  <i className="fas fa-sign-out-alt mr-2"></i>{t('layout.logout')}
                 </button>
              </div>
           </div>
@@ -389,6 +2364,7 @@ interface SidebarProps {
   closeMobileSidebar: () => void;
 }
 const Sidebar: React.FC<SidebarProps> = ({ isMobileSidebarOpen, closeMobileSidebar }) => {
+  const { t } = useTranslation();
   const navLinkClass = ({ isActive }: { isActive: boolean }) =>
     `flex items-center space-x-3 px-4 py-3 rounded-lg hover:bg-primary-light hover:text-white transition-colors duration-150 ${
       isActive ? 'bg-primary text-white font-semibold' : 'text-lightTextSecondary dark:text-darkTextSecondary hover:text-lightText dark:hover:text-darkText'
@@ -401,30 +2377,38 @@ const Sidebar: React.FC<SidebarProps> = ({ isMobileSidebarOpen, closeMobileSideb
       onClick={(e) => e.stopPropagation()} // Prevent click inside sidebar from closing it
     >
       <div className="md:hidden flex justify-between items-center mb-4">
-          <span className="text-lg font-bold text-primary">Menu</span>
+          <span className="text-lg font-bold text-primary">{t('layout.menu')}</span>
           <button onClick={closeMobileSidebar} className="text-xl p-1">
             <i className="fas fa-times"></i>
           </button>
       </div>
       <nav className="space-y-1">
-        <NavLink to="/" className={navLinkClass} onClick={closeMobileSidebar} end><i className="fas fa-tachometer-alt w-5"></i><span>Dasbor</span></NavLink>
-        <NavLink to="/transactions" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-exchange-alt w-5"></i><span>Transaksi</span></NavLink>
-        <NavLink to="/budgets" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-bullseye w-5"></i><span>Anggaran</span></NavLink>
-        <NavLink to="/reports" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-chart-pie w-5"></i><span>Laporan</span></NavLink>
-        <NavLink to="/settings" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-cog w-5"></i><span>Pengaturan</span></NavLink>
+        <NavLink to="/" className={navLinkClass} onClick={closeMobileSidebar} end><i className="fas fa-tachometer-alt w-5"></i><span>{t('nav.dashboard')}</span></NavLink>
+        <NavLink to="/transactions" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-exchange-alt w-5"></i><span>{t('nav.transactions')}</span></NavLink>
+        <NavLink to="/recurring" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-redo-alt w-5"></i><span>{t('nav.recurring')}</span></NavLink>
+        <NavLink to="/budgets" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-bullseye w-5"></i><span>{t('nav.budgets')}</span></NavLink>
+        <NavLink to="/goals" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-piggy-bank w-5"></i><span>{t('nav.goals')}</span></NavLink>
+        <NavLink to="/loans" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-hand-holding-usd w-5"></i><span>{t('nav.loans')}</span></NavLink>
+        <NavLink to="/reports" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-chart-pie w-5"></i><span>{t('nav.reports')}</span></NavLink>
+        <NavLink to="/settings" className={navLinkClass} onClick={closeMobileSidebar}><i className="fas fa-cog w-5"></i><span>{t('nav.settings')}</span></NavLink>
       </nav>
     </aside>
   );
 };
 
 const ProtectedRoute: React.FC<PropsWithChildren<{}>> = ({ children }) => {
-  const { isAuthenticated } = useAuth();
+  const { user, isAuthenticated, isLocked } = useAuth();
   const location = useLocation();
 
-  if (!isAuthenticated) {
+  if (!isAuthenticated || !user) {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
-  return <>{children}</>;
+  // Unmounting the pages also drops the decrypted data from memory
+  if (isLocked) {
+    return <UnlockScreen />;
+  }
+  // Keyed by user, so nothing loaded for one user survives into another user's session
+  return <React.Fragment key={user.id}>{children}</React.Fragment>;
 };
 
 const MainLayout: React.FC<PropsWithChildren<{}>> = ({ children }) => {
@@ -450,6 +2434,7 @@ const MainLayout: React.FC<PropsWithChildren<{}>> = ({ children }) => {
           ></div>
         )}
         <Sidebar isMobileSidebarOpen={isMobileSidebarOpen} closeMobileSidebar={closeMobileSidebar} />
+        <BudgetAlerts />
         <main className="flex-1 p-3 sm:p-4 md:p-6 overflow-y-auto bg-lightBg dark:bg-darkBg transition-all duration-300">
           {children}
         </main>
@@ -458,37 +2443,103 @@ const MainLayout: React.FC<PropsWithChildren<{}>> = ({ children }) => {
   );
 };
 
+// Shows an alert when a transaction pushes a budget's spending past one of its thresholds.
+// Levels already reached when the app opens, or when only the budget itself changes, stay silent.
+const BudgetAlerts: React.FC = () => {
+  const { budgets, categories, transactions, getCategoryById, toBaseAmount, baseCurrency } = useData();
+  const { formatAmount } = useFormatters();
+  const { t, getCategoryName } = useTranslation();
+  const [alerts, setAlerts] = useState<{ id: string; message: string }[]>([]);
+  const reachedThresholdsRef = useRef<Map<string, number> | null>(null);
+  const previousTransactionsRef = useRef(transactions);
+
+  useEffect(() => {
+    const reachedThresholds = new Map<string, number>();
+    const newAlerts: { id: string; message: string }[] = [];
+    const transactionsChanged = previousTransactionsRef.current !== transactions;
+    budgets.forEach(budget => {
+      const status = getBudgetStatus(budget, categories, transactions, toBaseAmount);
+      const reached = getReachedBudgetThreshold(budget, status);
+      reachedThresholds.set(budget.id, reached);
+      const previouslyReached = reachedThresholdsRef.current?.get(budget.id);
+      if (transactionsChanged && previouslyReached !== undefined && reached > previouslyReached) {
+        newAlerts.push({
+          id: generateId(),
+          message: t('budget.alert.reached', {
+            category: getCategoryName(getCategoryById(budget.categoryId)) || 'N/A',
+            threshold: reached,
+            spent: formatAmount(status.spent, baseCurrency),
+            available: formatAmount(status.available, baseCurrency),
+          }),
+        });
+      }
+    });
+    reachedThresholdsRef.current = reachedThresholds;
+    previousTransactionsRef.current = transactions;
+    if (newAlerts.length > 0) setAlerts(prev => [...prev, ...newAlerts]);
+    // Messages are built when the alert is raised; a language change must not re-run the check
+  }, [budgets, categories, transactions, toBaseAmount]);
+
+  useEffect(() => {
+    if (alerts.length === 0) return;
+    const timer = setTimeout(() => setAlerts(prev => prev.slice(1)), 8000);
+    return () => clearTimeout(timer);
+  }, [alerts]);
+
+  if (alerts.length === 0) return null;
+  return (
+    <div className="fixed top-20 right-4 z-50 space-y-2 max-w-xs" role="alert">
+      {alerts.map(alert => (
+        <div key={alert.id} className="flex items-start p-3 rounded-md shadow-lg bg-red-50 dark:bg-red-900/60 border-l-4 border-red-500 text-sm text-red-700 dark:text-red-200">
+          <i className="fas fa-exclamation-triangle mt-0.5 mr-2"></i>
+          <p className="flex-1">{alert.message}</p>
+          <button onClick={() => setAlerts(prev => prev.filter(a => a.id !== alert.id))} className="ml-2 text-red-500 hover:text-red-700" aria-label={t('common.close')}>
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 // PAGE COMPONENTS
 const LoginPage: React.FC = () => {
   const [email, setEmail] = useState('');
-  const [password, setPassword] = useState(''); // Mocked, not validated
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const { login } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const from = location.state?.from?.pathname || "/";
+  const { t } = useTranslation();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (email) { // Basic check
-      login(email);
-      navigate(from, { replace: true });
+    if (!email || !password) return;
+    setIsSubmitting(true);
+    const error = await login(email, password);
+    setIsSubmitting(false);
+    if (error) {
+      alert(t(error));
+      return;
     }
+    navigate(from, { replace: true });
   };
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-lightBg dark:bg-darkBg p-4">
       <Card className="w-full max-w-md">
-        <h1 className="text-xl sm:text-2xl font-bold text-center text-primary mb-6">Login Akun Anda</h1>
+        <h1 className="text-xl sm:text-2xl font-bold text-center text-primary mb-6">{t('auth.loginTitle')}</h1>
         <form onSubmit={handleSubmit} className="space-y-4">
-          <Input type="email" label="Email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="email@anda.com" required />
-          <Input type="password" label="Kata Sandi" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="********" required />
-          <Button type="submit" variant="primary" className="w-full" size="lg">Masuk</Button>
+          <Input type="email" label={t('auth.email')} value={email} onChange={(e) => setEmail(e.target.value)} placeholder={t('auth.emailPlaceholder')} required />
+          <Input type="password" label={t('auth.password')} value={password} onChange={(e) => setPassword(e.target.value)} placeholder="********" required />
+          <Button type="submit" variant="primary" className="w-full" size="lg" disabled={isSubmitting}>{t('auth.login')}</Button>
         </form>
         <p className="text-center mt-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">
-          Belum punya akun? <Link to="/register" className="text-primary hover:underline">Daftar di sini</Link>
+          {t('auth.noAccount')} <Link to="/register" className="text-primary hover:underline">{t('auth.registerHere')}</Link>
         </p>
          <p className="text-center mt-2 text-xs text-lightTextSecondary dark:text-darkTextSecondary">
-          (Gunakan email apa saja, kata sandi tidak divalidasi untuk demo ini)
+          {t('auth.localAccountNote')}
         </p>
       </Card>
     </div>
@@ -498,36 +2549,168 @@ const LoginPage: React.FC = () => {
 const RegisterPage: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const { login } = useAuth(); 
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { register } = useAuth();
   const navigate = useNavigate();
+  const { t } = useTranslation();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (email) {
-      login(email); 
-      navigate("/");
+    if (!email || !password) return;
+    if (password !== confirmPassword) {
+      alert(t('auth.passwordMismatch'));
+      return;
     }
+    setIsSubmitting(true);
+    const error = await register(email, password);
+    setIsSubmitting(false);
+    if (error) {
+      alert(t(error));
+      return;
+    }
+    navigate("/");
   };
     return (
     <div className="min-h-screen flex items-center justify-center bg-lightBg dark:bg-darkBg p-4">
       <Card className="w-full max-w-md">
-        <h1 className="text-xl sm:text-2xl font-bold text-center text-primary mb-6">Buat Akun Baru</h1>
+        <h1 className="text-xl sm:text-2xl font-bold text-center text-primary mb-6">{t('auth.registerTitle')}</h1>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input type="email" label={t('auth.email')} value={email} onChange={(e) => setEmail(e.target.value)} placeholder={t('auth.emailPlaceholder')} required />
+          <Input type="password" label={t('auth.password')} value={password} onChange={(e) => setPassword(e.target.value)} placeholder="********" required />
+          <Input type="password" label={t('auth.confirmPassword')} value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} placeholder="********" required />
+          <Button type="submit" variant="primary" className="w-full" size="lg" disabled={isSubmitting}>{t('auth.register')}</Button>
+        </form>
+        <p className="text-center mt-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+          {t('auth.haveAccount')} <Link to="/login" className="text-primary hover:underline">{t('auth.login')}</Link>
+        </p>
+      </Card>
+    </div>
+  );
+};
+
+const UnlockScreen: React.FC = () => {
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { user, unlock, logout } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    setIsSubmitting(true);
+    const error = await unlock(password);
+    setIsSubmitting(false);
+    if (error) alert(t(error));
+  };
+  const handleLogout = () => {
+    logout();
+    navigate('/login');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-lightBg dark:bg-darkBg p-4">
+      <Card className="w-full max-w-md">
+        <h1 className="text-xl sm:text-2xl font-bold text-center text-primary mb-2"><i className="fas fa-lock mr-2"></i>{t('auth.lockedTitle')}</h1>
+        <p className="text-center text-sm text-lightTextSecondary dark:text-darkTextSecondary mb-6">{t('auth.lockedDescription', { email: user?.email || '' })}</p>
         <form onSubmit={handleSubmit} className="space-y-4">
-          <Input type="email" label="Email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="email@anda.com" required />
-          <Input type="password" label="Kata Sandi" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="********" required />
-          <Input type="password" label="Konfirmasi Kata Sandi" placeholder="********" required />
-          <Button type="submit" variant="primary" className="w-full" size="lg">Daftar</Button>
+          <Input type="password" label={t('auth.password')} value={password} onChange={(e) => setPassword(e.target.value)} placeholder="********" autoFocus required />
+          <Button type="submit" variant="primary" className="w-full" size="lg" disabled={isSubmitting}>{t('auth.unlock')}</Button>
         </form>
         <p className="text-center mt-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">
-          Sudah punya akun? <Link to="/login" className="text-primary hover:underline">Masuk</Link>
+          <button type="button" onClick={handleLogout} className="text-primary hover:underline">{t('layout.logout')}</button>
+        </p>
+      </Card>
+    </div>
+  );
+};
+
+const StorageRecoveryScreen: React.FC<{ repository: DataRepository; problems: StorageProblem[]; onResolved: () => void }> = ({ repository, problems, onResolved }) => {
+  const { t } = useTranslation();
+  const handleDownloadBackup = async () => {
+    try {
+      const { rawData } = await repository.loadSnapshot();
+      downloadFile(JSON.stringify(rawData, null, 2), `data-mentah-${formatDateForInput()}.json`, 'application/json');
+    } catch (error) {
+      console.error('Error downloading raw data:', error);
+      alert(t('storage.downloadFailed'));
+    }
+  };
+
+  const handleRepair = async () => {
+    if (window.confirm(t('storage.confirmRepair'))) {
+      try {
+        await repairStoredData(repository, { account: t('storage.placeholderAccount'), category: t('storage.placeholderCategory') });
+      } catch (error) {
+        console.error('Error repairing stored data:', error);
+        alert(t('storage.repairFailed'));
+        return;
+      }
+      onResolved();
+    }
+  };
+
+  const handleReset = async () => {
+    if (window.confirm(t('storage.confirmClear'))) {
+      try {
+        await clearStoredData(repository);
+      } catch (error) {
+        console.error('Error clearing stored data:', error);
+        alert(t('storage.resetFailed'));
+        return;
+      }
+      onResolved();
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-lightBg dark:bg-darkBg p-4">
+      <Card className="w-full max-w-lg">
+        <h1 className="text-xl sm:text-2xl font-bold text-center text-red-500 mb-2"><i className="fas fa-exclamation-triangle mr-2"></i>{t('storage.recoveryTitle')}</h1>
+        <p className="text-sm text-center text-lightTextSecondary dark:text-darkTextSecondary mb-4">
+          {t('storage.recoveryDescription')}
         </p>
+        <ul className="space-y-2 mb-6">
+          {problems.map((problem, index) => (
+            <li key={`${problem.key}-${index}`} className="p-2 sm:p-3 bg-slate-100 dark:bg-slate-700 rounded-md text-sm text-lightText dark:text-darkText">
+              <span className="font-semibold">{t(problem.label)}:</span> {t(problem.message, problem.params)}
+            </li>
+          ))}
+        </ul>
+        <div className="space-y-3">
+          <Button variant="secondary" className="w-full" size="md" onClick={handleDownloadBackup}>
+            <i className="fas fa-download mr-2"></i>{t('storage.downloadRaw')}
+          </Button>
+          <Button variant="primary" className="w-full" size="md" onClick={handleRepair}>
+            <i className="fas fa-tools mr-2"></i>{t('storage.repair')}
+          </Button>
+          <Button variant="danger" className="w-full" size="md" onClick={handleReset}>
+            <i className="fas fa-trash-alt mr-2"></i>{t('storage.reset')}
+          </Button>
+        </div>
       </Card>
     </div>
   );
 };
 
+// Totals in the base currency leave out accounts whose currency has no exchange rate
+const MissingExchangeRateNotice: React.FC = () => {
+  const { missingRateCurrencies, baseCurrency } = useData();
+  const { t } = useTranslation();
+  if (missingRateCurrencies.length === 0) return null;
+  return (
+    <div className="p-3 rounded-md bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-200 text-xs sm:text-sm">
+      <i className="fas fa-exclamation-triangle mr-2"></i>
+      {t('currency.missingRateNotice', { currencies: missingRateCurrencies.join(', '), baseCurrency })}
+    </div>
+  );
+};
+
 // Dashboard Page Components
 const SummaryCard: React.FC<{ title: string; amount: number; icon: string; colorClass: string }> = ({ title, amount, icon, colorClass }) => {
+  const { formatAmount } = useFormatters();
+  const { baseCurrency } = useData();
   return (
     <Card className="flex items-center space-x-3 sm:space-x-4">
       <div className={`p-2 sm:p-3 rounded-full bg-opacity-20 ${colorClass.replace('text-', 'bg-')}`}>
@@ -535,68 +2718,260 @@ const SummaryCard: React.FC<{ title: string; amount: number; icon: string; color
       </div>
       <div>
         <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{title}</p>
-        <p className="text-lg sm:text-2xl font-semibold text-lightText dark:text-darkText">{formatCurrencyIDR(amount)}</p>
+        <p className="text-lg sm:text-2xl font-semibold text-lightText dark:text-darkText">{formatAmount(amount, baseCurrency)}</p>
       </div>
     </Card>
   );
 };
 
-const ExpenseBreakdownPieChart: React.FC<{ data: ChartDataPoint[] }> = ({ data }) => {
-  const { theme } = useTheme();
+// Tailwind text colours of COLOR_LIST as hex, for chart fills
+const CATEGORY_CHART_COLORS: { [key: string]: string } = {
+  'text-red-500': '#EF4444', 'text-orange-500': '#F97316', 'text-amber-500': '#F59E0B',
+  'text-yellow-500': '#EAB308', 'text-lime-500': '#84CC16', 'text-green-500':'#22C55E',
+  'text-emerald-500': '#10B981', 'text-teal-500': '#14B8A6', 'text-cyan-500': '#06B6D4',
+  'text-sky-500': '#0EA5E9', 'text-blue-500': '#3B82F6', 'text-indigo-500': '#6366F1',
+  'text-violet-500': '#8B5CF6', 'text-purple-500': '#A855F7', 'text-fuchsia-500': '#D946EF',
+  'text-pink-500':'#EC4899', 'text-rose-500': '#F43F5E'
+};
+
+// Expenses per category ('' for transfer fees) in the base currency. Subcategories are rolled up into their parent;
+// clicking a parent's slice drills down to its subcategories.
+const ExpenseBreakdownPieChart: React.FC<{ amounts: Map<string, number> }> = ({ amounts }) => {
+  const { formatAmount } = useFormatters();
+  const { baseCurrency, categories, getCategoryById } = useData();
+  const { t, getCategoryName } = useTranslation();
+  const [drillCategoryId, setDrillCategoryId] = useState<string | null>(null);
   const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82Ca9D'];
-  if (!data || data.length === 0) return <div className="text-center py-8 text-lightTextSecondary dark:text-darkTextSecondary">Tidak ada data pengeluaran.</div>;
-  
+
+  // Back to the rolled-up view when the opened category has no expenses in this data
+  const openedCategoryId = drillCategoryId && Array.from(amounts.keys()).some(categoryId => getRootCategoryId(categories, categoryId) === drillCategoryId) ? drillCategoryId : null;
+
+  const data: (ChartDataPoint & { categoryId: string; hasSubcategories: boolean })[] = useMemo(() => {
+    const totals = new Map<string, number>();
+    amounts.forEach((amount, categoryId) => {
+      const rootId = getRootCategoryId(categories, categoryId);
+      if (openedCategoryId && rootId !== openedCategoryId) return;
+      // Categories deleted since share one "other" slice
+      const key = categoryId !== '' && !getCategoryById(categoryId) ? '?' : openedCategoryId ? categoryId : rootId;
+      totals.set(key, (totals.get(key) || 0) + amount);
+    });
+    return Array.from(totals, ([categoryId, value]) => {
+      const category = getCategoryById(categoryId);
+      const name = categoryId === '' ? t('transaction.transferFee') : getCategoryName(category) || t('common.other');
+      return {
+        categoryId,
+        name: categoryId === openedCategoryId ? t('category.withoutSubcategory', { name }) : name,
+        value,
+        // Subcategories often share their parent's colour, so a drilled-down chart uses the palette
+        fill: !openedCategoryId && category?.color ? CATEGORY_CHART_COLORS[category.color] : undefined,
+        hasSubcategories: !openedCategoryId && !!category && categories.some(c => c.parentId === categoryId),
+      };
+    });
+  }, [amounts, categories, openedCategoryId, getCategoryById, t, getCategoryName]);
+
+  if (data.length === 0) return <div className="text-center py-8 text-lightTextSecondary dark:text-darkTextSecondary">{t('dashboard.noExpenseData')}</div>;
+
   return (
-    <ResponsiveContainer width="100%" height={250}> {/* Adjusted height for mobile */}
-      <PieChart>
-        <Pie data={data} cx="50%" cy="50%" labelLine={false} outerRadius={80} dataKey="value" nameKey="name" label={({ name, percent }) => `${name} (${(percent * 100).toFixed(0)}%)`}>
-          {data.map((entry, index) => (
-            <Cell key={`cell-${index}`} fill={entry.fill || COLORS[index % COLORS.length]} />
-          ))}
-        </Pie>
-        <Tooltip formatter={(value: number) => formatCurrencyIDR(value)} />
-        <Legend wrapperStyle={{fontSize: '12px'}}/>
-      </PieChart>
-    </ResponsiveContainer>
+    <div>
+      {openedCategoryId ? (
+        <button type="button" onClick={() => setDrillCategoryId(null)} className="text-xs sm:text-sm text-primary hover:underline">
+          <i className="fas fa-arrow-left mr-1"></i>{t('chart.allCategories')} / {getCategoryName(getCategoryById(openedCategoryId))}
+        </button>
+      ) : data.some(entry => entry.hasSubcategories) && (
+        <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('chart.drillDownHint')}</p>
+      )}
+      <ResponsiveContainer width="100%" height={250}> {/* Adjusted height for mobile */}
+        <PieChart>
+          <Pie data={data} cx="50%" cy="50%" labelLine={false} outerRadius={80} dataKey="value" nameKey="name" label={({ name, percent }) => `${name} (${(percent * 100).toFixed(0)}%)`}
+            onClick={(_: unknown, index: number) => data[index]?.hasSubcategories && setDrillCategoryId(data[index].categoryId)}>
+            {data.map((entry, index) => (
+              <Cell key={`cell-${index}`} fill={entry.fill || COLORS[index % COLORS.length]} cursor={entry.hasSubcategories ? 'pointer' : undefined} />
+            ))}
+          </Pie>
+          <Tooltip formatter={(value: number) => formatAmount(value, baseCurrency)} />
+          <Legend wrapperStyle={{fontSize: '12px'}}/>
+        </PieChart>
+      </ResponsiveContainer>
+    </div>
   );
 };
 
 const IncomeExpenseBarChartComponent: React.FC<{ data: IncomeExpenseChartDataPoint[] }> = ({ data }) => {
-   if (!data || data.length === 0) return <div className="text-center py-8 text-lightTextSecondary dark:text-darkTextSecondary">Tidak ada data pendapatan/pengeluaran.</div>;
+  const { formatAmount, formatCompactAmount } = useFormatters();
+  const { baseCurrency } = useData();
+  const { t } = useTranslation();
+   if (!data || data.length === 0) return <div className="text-center py-8 text-lightTextSecondary dark:text-darkTextSecondary">{t('dashboard.noIncomeExpenseData')}</div>;
   return (
     <ResponsiveContainer width="100%" height={250}> {/* Adjusted height for mobile */}
       <BarChart data={data}>
         <CartesianGrid strokeDasharray="3 3" />
         <XAxis dataKey="name" tick={{fontSize: 10}} />
-        <YAxis tickFormatter={(value) => `${formatCurrencyIDR(value/1000000)}Jt`} tick={{fontSize: 10}} />
-        <Tooltip formatter={(value: number) => formatCurrencyIDR(value)} />
+        <YAxis tickFormatter={(value) => formatCompactAmount(value, baseCurrency)} tick={{fontSize: 10}} />
+        <Tooltip formatter={(value: number) => formatAmount(value, baseCurrency)} />
         <Legend wrapperStyle={{fontSize: '12px'}} />
-        <Bar dataKey="income" fill="#22c55e" name="Pendapatan" />
-        <Bar dataKey="expenses" fill="#ef4444" name="Pengeluaran" />
+        <Bar dataKey="income" fill="#22c55e" name={t('common.income')} />
+        <Bar dataKey="expenses" fill="#ef4444" name={t('common.expense')} />
       </BarChart>
     </ResponsiveContainer>
   );
 };
 
 const NetCashFlowLineChart: React.FC<{ data: {name: string; cashFlow: number}[] }> = ({ data }) => {
-  if (!data || data.length === 0) return <div className="text-center py-8 text-lightTextSecondary dark:text-darkTextSecondary">Tidak ada data arus kas.</div>;
+  const { formatAmount, formatCompactAmount } = useFormatters();
+  const { baseCurrency } = useData();
+  const { t } = useTranslation();
+  if (!data || data.length === 0) return <div className="text-center py-8 text-lightTextSecondary dark:text-darkTextSecondary">{t('dashboard.noCashFlowData')}</div>;
   return (
     <ResponsiveContainer width="100%" height={250}> {/* Adjusted height for mobile */}
       <LineChart data={data}>
         <CartesianGrid strokeDasharray="3 3" />
         <XAxis dataKey="name" tick={{fontSize: 10}} />
-        <YAxis tickFormatter={(value) => `${formatCurrencyIDR(value/1000000)}Jt`} tick={{fontSize: 10}}/>
-        <Tooltip formatter={(value: number) => formatCurrencyIDR(value)} />
+        <YAxis tickFormatter={(value) => formatCompactAmount(value, baseCurrency)} tick={{fontSize: 10}}/>
+        <Tooltip formatter={(value: number) => formatAmount(value, baseCurrency)} />
+        <Legend wrapperStyle={{fontSize: '12px'}}/>
+        <Line type="monotone" dataKey="cashFlow" stroke="#8884d8" name={t('dashboard.netCashFlow')} activeDot={{ r: 6 }} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
+
+
+type NetWorthGranularity = 'daily' | 'monthly';
+
+const NetWorthLineChart: React.FC<{ data: (NetWorthPoint & { name: string })[] }> = ({ data }) => {
+  const { formatAmount, formatCompactAmount } = useFormatters();
+  const { baseCurrency } = useData();
+  const { t } = useTranslation();
+  if (!data || data.length === 0) return <div className="text-center py-8 text-lightTextSecondary dark:text-darkTextSecondary">{t('dashboard.noNetWorthData')}</div>;
+  return (
+    <ResponsiveContainer width="100%" height={250}>
+      <LineChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="name" tick={{fontSize: 10}} />
+        <YAxis tickFormatter={(value) => formatCompactAmount(value, baseCurrency)} tick={{fontSize: 10}}/>
+        <Tooltip formatter={(value: number) => formatAmount(value, baseCurrency)} />
         <Legend wrapperStyle={{fontSize: '12px'}}/>
-        <Line type="monotone" dataKey="cashFlow" stroke="#8884d8" name="Arus Kas Bersih" activeDot={{ r: 6 }} />
+        <Line type="monotone" dataKey="netWorth" stroke="#3b82f6" name={t('dashboard.netWorth')} activeDot={{ r: 6 }} />
+        <Line type="monotone" dataKey="assets" stroke="#22c55e" name={t('dashboard.assets')} dot={false} />
+        <Line type="monotone" dataKey="liabilities" stroke="#ef4444" name={t('dashboard.liabilities')} dot={false} />
       </LineChart>
     </ResponsiveContainer>
   );
 };
 
+// Number of days before a due date from which a card statement is highlighted
+const CREDIT_CARD_DUE_SOON_DAYS = 7;
+
+// Transfer from an account in the card's currency that settles (part of) its balance
+const CreditCardPaymentForm: React.FC<{ card: Account; amount: number; onClose: () => void }> = ({ card, amount, onClose }) => {
+  const { accounts, addTransaction } = useData();
+  const { t } = useTranslation();
+  const sourceAccounts = accounts.filter(acc => acc.id !== card.id && acc.currency === card.currency && !isLiabilityAccount(acc));
+  const [accountId, setAccountId] = useState(sourceAccounts[0]?.id || '');
+  const [paymentAmount, setPaymentAmount] = useState(amount > 0 ? amount.toString() : '');
+  const [date, setDate] = useState(formatDateForInput());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accountId || !paymentAmount || !date) {
+      alert(t('form.requiredFields'));
+      return;
+    }
+    addTransaction({
+      description: t('creditCard.paymentDescription', { card: card.name }),
+      amount: parseFloat(paymentAmount),
+      date: new Date(date).toISOString(),
+      type: 'transfer',
+      categoryId: '',
+      accountId,
+      toAccountId: card.id,
+    });
+    onClose();
+  };
+
+  if (sourceAccounts.length === 0) {
+    return <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('creditCard.noSourceAccounts', { currency: card.currency })}</p>;
+  }
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+      <Select label={t('creditCard.payFrom')} value={accountId} onChange={e => setAccountId(e.target.value)} required>
+        {sourceAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+      </Select>
+      <Input type="number" label={t('common.amount')} value={paymentAmount} onChange={e => setPaymentAmount(e.target.value)} required min="0" step="any" />
+      <Input type="date" label={t('common.date')} value={date} onChange={e => setDate(e.target.value)} required />
+      <div className="flex justify-end space-x-2 pt-2">
+        <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.cancel')}</Button>
+        <Button type="submit" variant="primary" size="md">{t('creditCard.pay')}</Button>
+      </div>
+    </form>
+  );
+};
+
+// Latest statement of every credit card with a closing day, soonest due first
+const CreditCardReminders: React.FC = () => {
+  const { formatDate, formatAmount } = useFormatters();
+  const { accounts, transactions } = useData();
+  const { t } = useTranslation();
+  const [payingCard, setPayingCard] = useState<{ card: Account; amount: number } | null>(null);
+  const today = formatDateForInput();
+
+  const statements = useMemo(() => accounts
+    .map(card => ({ card, statement: getCreditCardStatement(card, transactions, today) }))
+    .filter((entry): entry is { card: Account; statement: CreditCardStatement } => !!entry.statement)
+    .sort((a, b) => (a.statement.dueDate || '9999').localeCompare(b.statement.dueDate || '9999')),
+  [accounts, transactions, today]);
+
+  if (statements.length === 0) return null;
+  const dueSoonLimit = new Date(Date.now() + CREDIT_CARD_DUE_SOON_DAYS * 86400000).toISOString().split('T')[0];
+
+  return (
+    <Card>
+      <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">{t('creditCard.title')}</h2>
+      <Modal isOpen={!!payingCard} onClose={() => setPayingCard(null)} title={t('creditCard.payTitle', { card: payingCard?.card.name || '' })}>
+        {payingCard && <CreditCardPaymentForm card={payingCard.card} amount={payingCard.amount} onClose={() => setPayingCard(null)} />}
+      </Modal>
+      <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+        {statements.map(({ card, statement }) => {
+          const isSettled = statement.remainingDue <= 0;
+          const isOverdue = !isSettled && !!statement.dueDate && statement.dueDate < today;
+          const isDueSoon = !isSettled && !!statement.dueDate && statement.dueDate <= dueSoonLimit;
+          const availableCredit = getAvailableCredit(card);
+          return (
+            <li key={card.id} className="py-3 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+              <div>
+                <p className="font-medium text-sm sm:text-base">{card.name}</p>
+                <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+                  {t('creditCard.statement', { date: formatDate(statement.closingDate), amount: formatAmount(statement.statementBalance, card.currency) })}
+                  {availableCredit !== undefined && ` · ${t('creditCard.available', { amount: formatAmount(availableCredit, card.currency) })}`}
+                </p>
+                {isSettled ? (
+                  <p className="text-xs sm:text-sm text-green-500">{t('creditCard.settled')}</p>
+                ) : (
+                  <p className={`text-xs sm:text-sm ${isOverdue ? 'text-red-500 font-semibold' : isDueSoon ? 'text-orange-500' : 'text-lightTextSecondary dark:text-darkTextSecondary'}`}>
+                    {statement.dueDate
+                      ? t(isOverdue ? 'creditCard.overdue' : 'creditCard.due', { date: formatDate(statement.dueDate), amount: formatAmount(statement.remainingDue, card.currency), minimum: formatAmount(statement.minimumPayment, card.currency) })
+                      : t('creditCard.dueUnknown', { amount: formatAmount(statement.remainingDue, card.currency), minimum: formatAmount(statement.minimumPayment, card.currency) })}
+                  </p>
+                )}
+              </div>
+              {!isSettled && (
+                <Button variant="secondary" size="sm" onClick={() => setPayingCard({ card, amount: statement.remainingDue })}>
+                  <i className="fas fa-money-check-alt mr-1"></i>{t('creditCard.pay')}
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+};
 
 const DashboardPage: React.FC = () => {
-  const { transactions, categories, accounts, getCategoryById } = useData();
+  const { formatDate, formatAmount, formatMonthLabel } = useFormatters();
+  const { transactions, categories, accounts, loans, getCategoryById, getAccountById, getAccountCurrency, toBaseAmount, baseCurrency } = useData();
+  const { t, getCategoryName } = useTranslation();
+  const [netWorthGranularity, setNetWorthGranularity] = useState<NetWorthGranularity>('monthly');
 
   const monthlySummary = useMemo(() => {
     const now = new Date();
@@ -609,21 +2984,49 @@ const DashboardPage: React.FC = () => {
     transactions.forEach(tx => {
       const txDate = new Date(tx.date);
       if (txDate.getMonth() === currentMonth && txDate.getFullYear() === currentYear) {
-        if (tx.type === CategoryType.INCOME) {
-          totalIncome += tx.amount;
-        } else {
-          totalExpenses += tx.amount;
-        }
+        totalIncome += toBaseAmount(getIncomeAmount(tx), tx.accountId);
+        totalExpenses += toBaseAmount(getExpenseAmount(tx), tx.accountId);
       }
     });
     return { totalIncome, totalExpenses };
-  }, [transactions]);
+  }, [transactions, toBaseAmount]);
 
-  const overallBalance = useMemo(() => {
-    return accounts.reduce((sum, acc) => sum + acc.balance, 0);
-  }, [accounts]);
+  // Last 30 days, or the end of each of the last 12 months with today standing in for the current one
+  const netWorthData = useMemo(() => {
+    const now = new Date();
+    const today = formatDateForInput(now.toISOString());
+    const points: { name: string; day: string }[] = [];
+    if (netWorthGranularity === 'daily') {
+      for (let i = 29; i >= 0; i--) {
+        const day = new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate() - i)).toISOString().split('T')[0];
+        points.push({ name: formatDate(day), day });
+      }
+    } else {
+      for (let i = 11; i >= 0; i--) {
+        const monthEnd = new Date(Date.UTC(now.getFullYear(), now.getMonth() - i + 1, 0)).toISOString().split('T')[0];
+        points.push({ name: formatMonthLabel(new Date(now.getFullYear(), now.getMonth() - i, 1)), day: monthEnd < today ? monthEnd : today });
+      }
+    }
+    const history = computeNetWorthHistory(accounts, loans, transactions, points.map(point => point.day), toBaseAmount);
+    return history.map((point, index) => ({ ...point, name: points[index].name }));
+  }, [accounts, loans, transactions, toBaseAmount, netWorthGranularity, formatDate, formatMonthLabel]);
+
+  // Current balances, so transactions dated in the future count as well
+  const netWorth = useMemo(() => {
+    let assets = 0;
+    let liabilities = 0;
+    accounts.forEach(acc => {
+      if (isLiabilityAccount(acc)) liabilities -= toBaseAmount(acc.balance, acc.id);
+      else assets += toBaseAmount(acc.balance, acc.id);
+    });
+    loans.forEach(loan => {
+      const schedule = getLoanSchedule(loan, getAccountCurrency(loan.accountId));
+      liabilities += toBaseAmount(getLoanBalance(loan, schedule, transactions, '9999-12-31'), loan.accountId);
+    });
+    return { assets, liabilities, total: assets - liabilities };
+  }, [accounts, loans, transactions, toBaseAmount, getAccountCurrency]);
 
-  const expenseBreakdownData: ChartDataPoint[] = useMemo(() => {
+  const expenseBreakdownData = useMemo(() => {
     const expenseMap = new Map<string, number>();
     const now = new Date();
     const currentMonth = now.getMonth();
@@ -632,34 +3035,15 @@ const DashboardPage: React.FC = () => {
     transactions
       .filter(tx => {
         const txDate = new Date(tx.date);
-        return tx.type === CategoryType.EXPENSE && 
+        return getExpenseAmount(tx) > 0 && 
                txDate.getMonth() === currentMonth && 
                txDate.getFullYear() === currentYear;
       })
-      .forEach(tx => {
-        const category = getCategoryById(tx.categoryId);
-        const categoryName = category ? category.name : 'Lainnya';
-        expenseMap.set(categoryName, (expenseMap.get(categoryName) || 0) + tx.amount);
-      });
-    
-    return Array.from(expenseMap, ([name, value]) => {
-       const cat = categories.find(c => c.name === name && c.type === CategoryType.EXPENSE);
-       let fillColor = undefined;
-       // Try to match color from category, if defined
-       if(cat && cat.color){
-            // Simplified: assuming Tailwind color classes like text-red-500. Need mapping to hex for recharts.
-            // This is a placeholder. Real mapping would be more complex or use a library.
-            const colorMapping: { [key: string]: string } = {
-              'text-red-500': '#EF4444', 'text-blue-500': '#3B82F6', 'text-yellow-500': '#EAB308',
-              'text-green-500':'#22C55E', 'text-purple-500': '#A855F7', 'text-pink-500':'#EC4899',
-              'text-indigo-500': '#6366F1'
-              // Add other colors from COLOR_LIST
-            };
-            fillColor = colorMapping[cat.color] || undefined;
-       }
-       return { name, value, fill: fillColor }; 
-    });
-  }, [transactions, getCategoryById, categories]);
+      .forEach(tx => getExpenseLines(tx).forEach(line => {
+        expenseMap.set(line.categoryId, (expenseMap.get(line.categoryId) || 0) + toBaseAmount(line.amount, tx.accountId));
+      }));
+    return expenseMap;
+  }, [transactions, toBaseAmount]);
   
   const recentTransactions = useMemo(() => {
     return transactions.slice(0, 5);
@@ -667,14 +3051,13 @@ const DashboardPage: React.FC = () => {
 
   const incomeExpenseChartData: IncomeExpenseChartDataPoint[] = useMemo(() => {
     const dataMap = new Map<string, { income: number, expenses: number }>();
-    const monthNames = ["Jan", "Feb", "Mar", "Apr", "Mei", "Jun", "Jul", "Agu", "Sep", "Okt", "Nov", "Des"];
     const now = new Date();
     const currentYear = now.getFullYear();
 
     // Initialize for the last 6 months including current
     for (let i = 5; i >= 0; i--) {
       const date = new Date(currentYear, now.getMonth() - i, 1);
-      const monthKey = `${monthNames[date.getMonth()]} ${date.getFullYear().toString().slice(-2)}`; // Shorten year
+      const monthKey = formatMonthLabel(date);
       dataMap.set(monthKey, { income: 0, expenses: 0 });
     }
     
@@ -683,21 +3066,18 @@ const DashboardPage: React.FC = () => {
       // Only consider transactions within the last 6 months from current month's start
       const sixMonthsAgo = new Date(currentYear, now.getMonth() - 5, 1);
       if (txDate >= sixMonthsAgo) {
-          const monthKey = `${monthNames[txDate.getMonth()]} ${txDate.getFullYear().toString().slice(-2)}`;
+          const monthKey = formatMonthLabel(txDate);
           if (dataMap.has(monthKey)) {
             const current = dataMap.get(monthKey)!;
-            if (tx.type === CategoryType.INCOME) {
-              current.income += tx.amount;
-            } else {
-              current.expenses += tx.amount;
-            }
+            current.income += toBaseAmount(getIncomeAmount(tx), tx.accountId);
+            current.expenses += toBaseAmount(getExpenseAmount(tx), tx.accountId);
             dataMap.set(monthKey, current);
           }
       }
     });
 
     return Array.from(dataMap, ([name, values]) => ({ name, ...values }));
-  }, [transactions]);
+  }, [transactions, toBaseAmount, formatMonthLabel]);
 
 
   const netCashFlowData = incomeExpenseChartData.map(d => ({ name: d.name, cashFlow: d.income - d.expenses }));
@@ -705,52 +3085,91 @@ const DashboardPage: React.FC = () => {
 
   return (
     <div className="space-y-4 sm:space-y-6">
-      <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">Dasbor Keuangan</h1>
+      <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">{t('dashboard.title')}</h1>
+      <MissingExchangeRateNotice />
       
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
-        <SummaryCard title="Pendapatan Bulan Ini" amount={monthlySummary.totalIncome} icon="fas fa-arrow-up" colorClass="text-green-500" />
-        <SummaryCard title="Pengeluaran Bulan Ini" amount={monthlySummary.totalExpenses} icon="fas fa-arrow-down" colorClass="text-red-500" />
-        <SummaryCard title="Saldo Keseluruhan" amount={overallBalance} icon="fas fa-wallet" colorClass="text-blue-500" />
+        <SummaryCard title={t('dashboard.monthIncome')} amount={monthlySummary.totalIncome} icon="fas fa-arrow-up" colorClass="text-green-500" />
+        <SummaryCard title={t('dashboard.monthExpenses')} amount={monthlySummary.totalExpenses} icon="fas fa-arrow-down" colorClass="text-red-500" />
+        <SummaryCard title={t('dashboard.netWorth')} amount={netWorth.total} icon="fas fa-wallet" colorClass="text-blue-500" />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
         <Card>
-          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Rincian Pengeluaran (Bulan Ini)</h2>
-          <ExpenseBreakdownPieChart data={expenseBreakdownData} />
+          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">{t('dashboard.expenseBreakdown')}</h2>
+          <ExpenseBreakdownPieChart amounts={expenseBreakdownData} />
         </Card>
         <Card>
-          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Pendapatan vs Pengeluaran (6 Bln)</h2>
+          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">{t('dashboard.incomeVsExpenses')}</h2>
           <IncomeExpenseBarChartComponent data={incomeExpenseChartData} />
         </Card>
-         <Card className="lg:col-span-2">
-          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Tren Arus Kas Bersih (6 Bln)</h2>
+        <Card>
+          <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">{t('dashboard.netCashFlowTrend')}</h2>
           <NetCashFlowLineChart data={netCashFlowData} />
         </Card>
+        <Card>
+          <div className="flex justify-between items-center mb-3 sm:mb-4">
+            <h2 className="text-lg sm:text-xl font-semibold">{t('dashboard.netWorthTrend')}</h2>
+            <div className="w-32">
+              <Select value={netWorthGranularity} onChange={e => setNetWorthGranularity(e.target.value as NetWorthGranularity)} className="text-sm py-1" aria-label={t('dashboard.netWorthGranularity')}>
+                <option value="monthly">{t('dashboard.netWorthMonthly')}</option>
+                <option value="daily">{t('dashboard.netWorthDaily')}</option>
+              </Select>
+            </div>
+          </div>
+          <NetWorthLineChart data={netWorthData} />
+          <div className="grid grid-cols-3 gap-2 mt-3 text-center text-xs sm:text-sm">
+            <div>
+              <p className="text-lightTextSecondary dark:text-darkTextSecondary">{t('dashboard.assets')}</p>
+              <p className="font-semibold text-green-500">{formatAmount(netWorth.assets, baseCurrency)}</p>
+            </div>
+            <div>
+              <p className="text-lightTextSecondary dark:text-darkTextSecondary">{t('dashboard.liabilities')}</p>
+              <p className="font-semibold text-red-500">{formatAmount(netWorth.liabilities, baseCurrency)}</p>
+            </div>
+            <div>
+              <p className="text-lightTextSecondary dark:text-darkTextSecondary">{t('dashboard.netWorth')}</p>
+              <p className="font-semibold text-blue-500">{formatAmount(netWorth.total, baseCurrency)}</p>
+            </div>
+          </div>
+        </Card>
       </div>
 
       <Card>
-        <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Transaksi Terkini</h2>
+        <div className="flex justify-between items-center mb-3 sm:mb-4">
+          <h2 className="text-lg sm:text-xl font-semibold">{t('dashboard.upcoming')}</h2>
+          <Link to="/recurring" className="text-sm text-primary hover:underline">{t('dashboard.manage')}</Link>
+        </div>
+        <UpcomingRecurringList days={30} limit={5} />
+      </Card>
+
+      <CreditCardReminders />
+
+      <Card>
+        <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">{t('dashboard.recentTransactions')}</h2>
         {recentTransactions.length > 0 ? (
           <ul className="divide-y divide-slate-200 dark:divide-slate-700">
             {recentTransactions.map(tx => {
-              const category = getCategoryById(tx.categoryId);
+              const label = tx.type === 'transfer'
+                ? t('transaction.transferLabel', { from: getAccountById(tx.accountId)?.name || 'N/A', to: getAccountById(tx.toAccountId || '')?.name || 'N/A' })
+                : getCategoryLines(tx).map(line => getCategoryName(getCategoryById(line.categoryId))).filter(Boolean).join(', ') || t('transaction.uncategorized');
               return (
                 <li key={tx.id} className="py-3 flex justify-between items-center">
                   <div>
                     <p className="font-medium text-sm sm:text-base">{tx.description}</p>
                     <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
-                      {formatDateID(tx.date)} - {category?.name || 'Tanpa Kategori'}
+                      {formatDate(tx.date)} - {label}
                     </p>
                   </div>
-                  <p className={`font-semibold text-sm sm:text-base ${tx.type === CategoryType.INCOME ? 'text-green-500' : 'text-red-500'}`}>
-                    {tx.type === CategoryType.INCOME ? '+' : '-'} {formatCurrencyIDR(tx.amount)}
+                  <p className={`font-semibold text-sm sm:text-base ${tx.type === 'transfer' ? 'text-blue-500' : tx.type === CategoryType.INCOME ? 'text-green-500' : 'text-red-500'}`}>
+                    {tx.type === 'transfer' ? '' : tx.type === CategoryType.INCOME ? '+' : '-'} {formatAmount(tx.amount, getAccountCurrency(tx.accountId))}
                   </p>
                 </li>
               );
             })}
           </ul>
         ) : (
-          <p className="text-lightTextSecondary dark:text-darkTextSecondary">Belum ada transaksi.</p>
+          <p className="text-lightTextSecondary dark:text-darkTextSecondary">{t('dashboard.noTransactions')}</p>
         )}
       </Card>
     </div>
@@ -763,18 +3182,53 @@ interface TransactionFormProps {
   onSubmit: (transaction: Omit<Transaction, 'id'>) => void;
   onClose: () => void;
   initialData?: Transaction;
+  dateLabel?: string;
+  allowAttachments?: boolean; // Only for ledger transactions, not recurring templates
 }
 
-const TransactionForm: React.FC<TransactionFormProps> = ({ onSubmit, onClose, initialData }) => {
-  const { categories, accounts } = useData();
+// Extra fields passed as children are rendered above the form buttons
+const toSplitLineInputs = (splits?: TransactionSplit[]) => (splits || []).map(line => ({ categoryId: line.categoryId, amount: line.amount.toString() }));
+
+const TransactionForm: React.FC<PropsWithChildren<TransactionFormProps>> = ({ onSubmit, onClose, initialData, dateLabel, allowAttachments, children }) => {
+  const { formatAmount } = useFormatters();
+  const { t, getCategoryName } = useTranslation();
+  const { categories, accounts, exchangeRates, baseCurrency, transactions, attachmentsSupported, addAttachment, rules, getCategoryById } = useData();
   const [description, setDescription] = useState(initialData?.description || '');
   const [amount, setAmount] = useState(initialData?.amount?.toString() || '');
   const [date, setDate] = useState(initialData ? formatDateForInput(initialData.date) : formatDateForInput());
-  const [type, setType] = useState<CategoryType>(initialData?.type || CategoryType.EXPENSE);
+  const [type, setType] = useState<TransactionType>(initialData?.type || CategoryType.EXPENSE);
   const [categoryId, setCategoryId] = useState(initialData?.categoryId || '');
   const [accountId, setAccountId] = useState(initialData?.accountId || '');
+  const [toAccountId, setToAccountId] = useState(initialData?.toAccountId || '');
+  const [fee, setFee] = useState(initialData?.fee?.toString() || '');
+  const [toAmount, setToAmount] = useState(initialData?.toAmount?.toString() || '');
+  // Split lines as entered; empty when the transaction has a single category
+  const [splitLines, setSplitLines] = useState<{ categoryId: string; amount: string }[]>(toSplitLineInputs(initialData?.splits));
+  const [tags, setTags] = useState<string[]>(initialData?.tags || []);
+  const [notes, setNotes] = useState(initialData?.notes || '');
+  const [attachments, setAttachments] = useState<TransactionAttachment[]>(initialData?.attachments || []);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [dismissedRuleId, setDismissedRuleId] = useState('');
+  const tagSuggestions = useMemo(() => getTagSuggestions(transactions), [transactions]);
+
+  const currency = accounts.find(acc => acc.id === accountId)?.currency || baseCurrency;
+  const toCurrency = accounts.find(acc => acc.id === toAccountId)?.currency;
+  const isCrossCurrencyTransfer = type === 'transfer' && !!toCurrency && toCurrency !== currency;
+  const exchangeRate = isCrossCurrencyTransfer ? findExchangeRate(exchangeRates, currency, toCurrency!) : undefined;
+  const estimatedToAmount = exchangeRate !== undefined && amount ? roundCurrencyAmount(parseFloat(amount) * exchangeRate, toCurrency!) : undefined;
 
   const filteredCategories = useMemo(() => categories.filter(c => c.type === type), [categories, type]);
+  const isSplit = type !== 'transfer' && splitLines.length > 0;
+  const splitRemaining = roundCurrencyAmount((parseFloat(amount) || 0) - splitLines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0), currency);
+
+  // Offered until it is applied or dismissed; a rule never turns a transfer into an income or expense
+  const suggestedRule = useMemo(() => {
+    if (type === 'transfer' || !description.trim()) return undefined;
+    const rule = findMatchingRule(rules, { description, amount: parseFloat(amount) || 0, accountId });
+    if (!rule || rule.id === dismissedRuleId) return undefined;
+    const isApplied = !isSplit && rule.type === type && rule.categoryId === categoryId && (rule.tags || []).every(tag => tags.includes(tag));
+    return isApplied ? undefined : rule;
+  }, [rules, description, amount, accountId, type, categoryId, isSplit, tags, dismissedRuleId]);
 
   useEffect(() => {
     if (initialData) {
@@ -784,6 +3238,13 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onSubmit, onClose, in
       setType(initialData.type);
       setCategoryId(initialData.categoryId);
       setAccountId(initialData.accountId);
+      setToAccountId(initialData.toAccountId || '');
+      setFee(initialData.fee?.toString() || '');
+      setToAmount(initialData.toAmount?.toString() || '');
+      setSplitLines(toSplitLineInputs(initialData.splits));
+      setTags(initialData.tags || []);
+      setNotes(initialData.notes || '');
+      setAttachments(initialData.attachments || []);
     } else {
       // Reset for new transaction
       setDescription('');
@@ -793,6 +3254,13 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onSubmit, onClose, in
       // Set default category and account for new transaction
       setCategoryId(filteredCategories.length > 0 ? filteredCategories[0].id : '');
       setAccountId(accounts.length > 0 ? accounts[0].id : '');
+      setToAccountId(accounts.length > 1 ? accounts[1].id : '');
+      setFee('');
+      setToAmount('');
+      setSplitLines([]);
+      setTags([]);
+      setNotes('');
+      setAttachments([]);
     }
   }, [initialData, categories, accounts]); // Added categories and accounts dependency for initial reset
   
@@ -814,11 +3282,77 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onSubmit, onClose, in
     }
   }, [type, filteredCategories, accounts, initialData, categoryId, accountId]); // Added accountId to dependencies
 
+  useEffect(() => {
+    // Keep the transfer destination valid and different from the source account
+    if (type === 'transfer' && (!toAccountId || toAccountId === accountId)) {
+      setToAccountId(accounts.find(acc => acc.id !== accountId)?.id || '');
+    }
+  }, [type, accountId, toAccountId, accounts]);
+
+
+  const handleTypeChange = (newType: TransactionType) => {
+    setType(newType);
+    // Split categories belong to the previous type
+    setSplitLines([]);
+  };
+
+  const handleApplyRule = (rule: CategorizationRule) => {
+    setType(rule.type);
+    setCategoryId(rule.categoryId);
+    setSplitLines([]);
+    setTags(prev => mergeTags(prev, rule.tags) || []);
+  };
+
+  // Starts with the current category and the whole amount on the first line
+  const handleStartSplit = () => setSplitLines([{ categoryId, amount }, { categoryId: '', amount: '' }]);
+
+  const updateSplitLine = (index: number, changes: Partial<{ categoryId: string; amount: string }>) =>
+    setSplitLines(prev => prev.map((line, i) => i === index ? { ...line, ...changes } : line));
+
+  const handleAttachFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const acceptedFiles = files.filter(file => (file.type.startsWith('image/') || file.type === 'application/pdf') && file.size <= MAX_ATTACHMENT_SIZE_MB * 1024 * 1024);
+    if (acceptedFiles.length < files.length) alert(t('transaction.attachment.rejected', { size: MAX_ATTACHMENT_SIZE_MB }));
+    setIsAttaching(true);
+    try {
+      for (const file of acceptedFiles) {
+        const attachment = await addAttachment(file);
+        setAttachments(prev => [...prev, attachment]);
+      }
+    } catch (error) {
+      console.error('Error storing attachment:', error);
+      alert(t('transaction.attachment.saveFailed'));
+    }
+    setIsAttaching(false);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!description || !amount || !date || !categoryId || !accountId) {
-      alert('Harap isi semua kolom yang diperlukan.');
+    const isTransfer = type === 'transfer';
+    if (!description || !amount || !date || !accountId || (isTransfer ? !toAccountId : !isSplit && !categoryId)) {
+      alert(t('form.requiredFields'));
+      return;
+    }
+    const splits: TransactionSplit[] | undefined = isSplit
+      ? splitLines.map(line => ({ categoryId: line.categoryId, amount: parseFloat(line.amount) }))
+      : undefined;
+    if (splits && splits.some(line => !line.categoryId || !(line.amount > 0))) {
+      alert(t('transaction.split.incompleteLine'));
+      return;
+    }
+    if (splits && splitRemaining !== 0) {
+      alert(t('transaction.split.totalMismatch', { amount: formatAmount(splitRemaining, currency) }));
+      return;
+    }
+    if (isTransfer && toAccountId === accountId) {
+      alert(t('transaction.sameAccountTransfer'));
+      return;
+    }
+    // Without an entered amount, the received amount comes from the exchange rate table
+    const receivedAmount = toAmount ? parseFloat(toAmount) : estimatedToAmount;
+    if (isCrossCurrencyTransfer && receivedAmount === undefined) {
+      alert(t('transaction.missingRateForTransfer', { from: currency, to: toCurrency! }));
       return;
     }
     onSubmit({
@@ -826,43 +3360,368 @@ const TransactionForm: React.FC<TransactionFormProps> = ({ onSubmit, onClose, in
       amount: parseFloat(amount),
       date: new Date(date).toISOString(),
       type,
-      categoryId,
-      accountId
+      categoryId: isTransfer ? '' : splits ? splits[0].categoryId : categoryId,
+      splits,
+      accountId,
+      ...(isTransfer ? { toAccountId, fee: fee ? parseFloat(fee) : undefined, toAmount: isCrossCurrencyTransfer ? receivedAmount : undefined } : {}),
+      tags: tags.length > 0 ? tags : undefined,
+      notes: notes.trim() || undefined,
+      ...(allowAttachments ? { attachments: attachments.length > 0 ? attachments : undefined } : {}),
     });
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
-      <Input label="Deskripsi" value={description} onChange={e => setDescription(e.target.value)} required />
-      <Input type="number" label="Jumlah (IDR)" value={amount} onChange={e => setAmount(e.target.value)} required placeholder="Contoh: 50000"/>
-      <Input type="date" label="Tanggal" value={date} onChange={e => setDate(e.target.value)} required />
-      <Select label="Tipe" value={type} onChange={e => setType(e.target.value as CategoryType)}>
-        <option value={CategoryType.EXPENSE}>Pengeluaran</option>
-        <option value={CategoryType.INCOME}>Pemasukan</option>
-      </Select>
-      <Select label="Kategori" value={categoryId} onChange={e => setCategoryId(e.target.value)} required>
-        <option value="" disabled={filteredCategories.length > 0}>Pilih Kategori</option>
-        {filteredCategories.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
-         {filteredCategories.length === 0 && <option value="" disabled>Tidak ada kategori {type === CategoryType.EXPENSE ? 'pengeluaran' : 'pemasukan'}</option>}
+      <Input label={t('common.description')} value={description} onChange={e => setDescription(e.target.value)} required />
+      <Input type="number" label={t('transaction.amountWithCurrency', { currency })} value={amount} onChange={e => setAmount(e.target.value)} required step="any" placeholder={t('transaction.amountPlaceholder')}/>
+      <Input type="date" label={dateLabel || t('common.date')} value={date} onChange={e => setDate(e.target.value)} required />
+      {suggestedRule && (
+        <div className="flex items-center justify-between p-2 rounded-md bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-300 text-xs sm:text-sm">
+          <span className="mr-2">
+            <i className="fas fa-magic mr-1"></i>{t('rule.suggestion', { category: getCategoryName(getCategoryById(suggestedRule.categoryId)), rule: suggestedRule.name })}
+          </span>
+          <div className="flex-shrink-0 flex items-center space-x-1">
+            <Button type="button" variant="primary" size="sm" onClick={() => handleApplyRule(suggestedRule)}>{t('rule.apply')}</Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setDismissedRuleId(suggestedRule.id)} className="p-1" title={t('rule.dismiss')}>
+              <i className="fas fa-times"></i>
+            </Button>
+          </div>
+        </div>
+      )}
+      <Select label={t('common.type')} value={type} onChange={e => handleTypeChange(e.target.value as TransactionType)}>
+        <option value={CategoryType.EXPENSE}>{t('common.expense')}</option>
+        <option value={CategoryType.INCOME}>{t('transaction.income')}</option>
+        <option value="transfer">{t('transaction.transferBetweenAccounts')}</option>
       </Select>
-      <Select label="Akun" value={accountId} onChange={e => setAccountId(e.target.value)} required>
-        <option value="" disabled={accounts.length > 0}>Pilih Akun</option>
-        {accounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name} ({formatCurrencyIDR(acc.balance)})</option>)}
-        {accounts.length === 0 && <option value="" disabled>Tidak ada akun</option>}
+      {type !== 'transfer' && !isSplit && (
+        <div>
+          <Select label={t('common.category')} value={categoryId} onChange={e => setCategoryId(e.target.value)} required>
+            <option value="" disabled={filteredCategories.length > 0}>{t('transaction.selectCategory')}</option>
+            <CategoryOptions categories={filteredCategories} />
+             {filteredCategories.length === 0 && <option value="" disabled>{t(type === CategoryType.EXPENSE ? 'transaction.noExpenseCategories' : 'transaction.noIncomeCategories')}</option>}
+          </Select>
+          <button type="button" onClick={handleStartSplit} className="mt-1 text-xs text-primary hover:underline">
+            <i className="fas fa-code-branch mr-1"></i>{t('transaction.split.start')}
+          </button>
+        </div>
+      )}
+      {isSplit && (
+        <div className="space-y-2">
+          <span className="block text-sm font-medium text-lightTextSecondary dark:text-darkTextSecondary">{t('transaction.split.title')}</span>
+          {splitLines.map((line, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <Select value={line.categoryId} onChange={e => updateSplitLine(index, { categoryId: e.target.value })} aria-label={t('common.category')} required>
+                <option value="" disabled>{t('transaction.selectCategory')}</option>
+                <CategoryOptions categories={filteredCategories} />
+              </Select>
+              <Input type="number" value={line.amount} onChange={e => updateSplitLine(index, { amount: e.target.value })} aria-label={t('common.amount')} min="0" step="any" required />
+              <Button type="button" variant="ghost" size="sm" onClick={() => setSplitLines(prev => prev.filter((_, i) => i !== index))} className="p-1 text-red-500 hover:text-red-700"
+                disabled={splitLines.length <= 2} title={t('transaction.split.removeLine')}>
+                <i className="fas fa-times"></i>
+              </Button>
+            </div>
+          ))}
+          <div className="flex justify-between items-center text-xs">
+            <div className="space-x-3">
+              <button type="button" onClick={() => setSplitLines(prev => [...prev, { categoryId: '', amount: splitRemaining > 0 ? splitRemaining.toString() : '' }])} className="text-primary hover:underline">
+                <i className="fas fa-plus mr-1"></i>{t('transaction.split.addLine')}
+              </button>
+              <button type="button" onClick={() => { setCategoryId(splitLines[0].categoryId || categoryId); setSplitLines([]); }} className="text-lightTextSecondary dark:text-darkTextSecondary hover:underline">
+                {t('transaction.split.cancel')}
+              </button>
+            </div>
+            <span className={splitRemaining === 0 ? 'text-green-600 dark:text-green-400' : 'text-red-500'}>
+              {t('transaction.split.remaining', { amount: formatAmount(splitRemaining, currency) })}
+            </span>
+          </div>
+        </div>
+      )}
+      <Select label={t(type === 'transfer' ? 'transaction.fromAccount' : 'common.account')} value={accountId} onChange={e => setAccountId(e.target.value)} required>
+        <option value="" disabled={accounts.length > 0}>{t('transaction.selectAccount')}</option>
+        {accounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name} ({formatAmount(acc.balance, acc.currency)})</option>)}
+        {accounts.length === 0 && <option value="" disabled>{t('transaction.noAccounts')}</option>}
       </Select>
+      {type === 'transfer' && (
+        <>
+          <Select label={t('transaction.toAccount')} value={toAccountId} onChange={e => setToAccountId(e.target.value)} required>
+            <option value="" disabled={accounts.length > 1}>{t('transaction.selectToAccount')}</option>
+            {accounts.filter(acc => acc.id !== accountId).map(acc => <option key={acc.id} value={acc.id}>{acc.name} ({formatAmount(acc.balance, acc.currency)})</option>)}
+          </Select>
+          {isCrossCurrencyTransfer && (
+            <Input type="number" label={t('transaction.receivedAmount', { currency: toCurrency! })} value={toAmount} onChange={e => setToAmount(e.target.value)} min="0" step="any"
+              placeholder={estimatedToAmount !== undefined ? t('transaction.byExchangeRate', { amount: estimatedToAmount }) : t('transaction.rateNotSet')}/>
+          )}
+          <Input type="number" label={t('transaction.feeWithCurrency', { currency })} value={fee} onChange={e => setFee(e.target.value)} min="0" step="any" placeholder={t('transaction.feePlaceholder')}/>
+        </>
+      )}
+      <TagInput label={t('transaction.tags')} tags={tags} onChange={setTags} suggestions={tagSuggestions} placeholder={t('transaction.tagsPlaceholder')} removeLabel={t('transaction.removeTag')} />
+      <TextArea label={t('transaction.notes')} value={notes} onChange={e => setNotes(e.target.value)} rows={3} placeholder={t('transaction.notesPlaceholder')} />
+      {allowAttachments && (
+        <div>
+          <span className="block text-sm font-medium text-lightTextSecondary dark:text-darkTextSecondary mb-1">{t('transaction.attachment.title')}</span>
+          {attachments.length > 0 && (
+            <ul className="mb-2 space-y-1">
+              {attachments.map(attachment => (
+                <li key={attachment.id} className="flex items-center space-x-2 text-sm text-lightText dark:text-darkText">
+                  <AttachmentThumbnail attachment={attachment} />
+                  <span className="flex-1 truncate">{attachment.name}</span>
+                  <span className="text-xs text-lightTextSecondary dark:text-darkTextSecondary whitespace-nowrap">{formatFileSize(attachment.size)}</span>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setAttachments(prev => prev.filter(a => a.id !== attachment.id))} className="p-1 text-red-500 hover:text-red-700" title={t('transaction.attachment.remove')}>
+                    <i className="fas fa-times"></i>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {attachmentsSupported ? (
+            <label className={`inline-flex items-center text-xs text-primary ${isAttaching ? 'opacity-50' : 'cursor-pointer hover:underline'}`}>
+              <i className={`fas ${isAttaching ? 'fa-spinner fa-spin' : 'fa-paperclip'} mr-1`}></i>{t('transaction.attachment.add', { size: MAX_ATTACHMENT_SIZE_MB })}
+              <input type="file" accept="image/*,application/pdf" multiple onChange={handleAttachFiles} disabled={isAttaching} className="hidden" />
+            </label>
+          ) : (
+            <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('transaction.attachment.unsupported')}</p>
+          )}
+        </div>
+      )}
+      {children}
       <div className="flex justify-end space-x-2 pt-2">
-        <Button type="button" variant="ghost" onClick={onClose} size="md">Batal</Button>
-        <Button type="submit" variant="primary" size="md">{initialData ? 'Simpan' : 'Tambah'}</Button>
+        <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.cancel')}</Button>
+        <Button type="submit" variant="primary" size="md" disabled={isAttaching}>{initialData ? t('common.save') : t('common.add')}</Button>
       </div>
     </form>
   );
 };
 
+const AttachmentThumbnail: React.FC<{ attachment: TransactionAttachment }> = ({ attachment }) => (
+  attachment.thumbnail
+    ? <img src={attachment.thumbnail} alt={attachment.name} className="w-8 h-8 object-cover rounded border border-slate-200 dark:border-slate-600" />
+    : <span className="w-8 h-8 inline-flex items-center justify-center rounded border border-slate-200 dark:border-slate-600 text-red-500">
+        <i className={`fas ${attachment.type === 'application/pdf' ? 'fa-file-pdf' : 'fa-file'}`}></i>
+      </span>
+);
+
+// Shows one attachment at a time; the file is read from storage only while it is shown
+const AttachmentViewer: React.FC<{ attachments: TransactionAttachment[]; initialIndex: number }> = ({ attachments, initialIndex }) => {
+  const { loadAttachment } = useData();
+  const { t } = useTranslation();
+  const [index, setIndex] = useState(initialIndex);
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+  const attachment = attachments[index];
+
+  useEffect(() => {
+    let url: string | null = null;
+    let isCancelled = false;
+    setFileUrl(null);
+    setIsMissing(false);
+    loadAttachment(attachment)
+      .then(blob => {
+        if (isCancelled) return;
+        if (!blob) {
+          setIsMissing(true);
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        setFileUrl(url);
+      })
+      .catch(error => {
+        console.error('Error loading attachment:', error);
+        if (!isCancelled) setIsMissing(true);
+      });
+    return () => {
+      isCancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment, loadAttachment]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center text-sm text-lightText dark:text-darkText">
+        <span className="truncate">{attachment.name} <span className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">({formatFileSize(attachment.size)})</span></span>
+        {fileUrl && (
+          <a href={fileUrl} download={attachment.name} className="text-primary hover:underline whitespace-nowrap ml-2">
+            <i className="fas fa-download mr-1"></i>{t('transaction.attachment.download')}
+          </a>
+        )}
+      </div>
+      <div className="flex items-center justify-center min-h-[50vh] bg-slate-100 dark:bg-slate-900 rounded-md">
+        {isMissing ? (
+          <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('transaction.attachment.missing')}</p>
+        ) : !fileUrl ? (
+          <i className="fas fa-spinner fa-spin text-lightTextSecondary dark:text-darkTextSecondary"></i>
+        ) : attachment.type === 'application/pdf' ? (
+          <iframe src={fileUrl} title={attachment.name} className="w-full h-[70vh] rounded-md" />
+        ) : (
+          <img src={fileUrl} alt={attachment.name} className="max-w-full max-h-[70vh] object-contain" />
+        )}
+      </div>
+      {attachments.length > 1 && (
+        <div className="flex justify-center items-center space-x-2 text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+          <Button variant="ghost" size="sm" onClick={() => setIndex(index - 1)} disabled={index <= 0}>
+            <i className="fas fa-chevron-left"></i><span className="sr-only">{t('transaction.pagination.previous')}</span>
+          </Button>
+          <span>{index + 1} / {attachments.length}</span>
+          <Button variant="ghost" size="sm" onClick={() => setIndex(index + 1)} disabled={index >= attachments.length - 1}>
+            <i className="fas fa-chevron-right"></i><span className="sr-only">{t('transaction.pagination.next')}</span>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+type TransactionSortKey = 'date' | 'description' | 'category' | 'account' | 'amount';
+
+interface TransactionFilters {
+  search: string;
+  startDate: string;
+  endDate: string;
+  type: TransactionType | '';
+  categoryIds: string[];
+  accountIds: string[];
+  minAmount: string;
+  maxAmount: string;
+  sortKey: TransactionSortKey;
+  sortDirection: 'asc' | 'desc';
+  page: number;
+}
+
+const TRANSACTIONS_PAGE_SIZE = 50;
+const TRANSACTION_SORT_KEYS: TransactionSortKey[] = ['date', 'description', 'category', 'account', 'amount'];
+
+// Filters live in the URL query so a filtered view can be bookmarked. Missing or unknown values fall back to the defaults.
+const parseTransactionFilters = (params: URLSearchParams): TransactionFilters => {
+  const list = (name: string) => (params.get(name) || '').split(',').filter(Boolean);
+  const type = params.get('type') || '';
+  const sortKey = params.get('sort') as TransactionSortKey;
+  return {
+    search: params.get('q') || '',
+    startDate: params.get('from') || '',
+    endDate: params.get('to') || '',
+    type: type === CategoryType.INCOME || type === CategoryType.EXPENSE || type === 'transfer' ? type : '',
+    categoryIds: list('categories'),
+    accountIds: list('accounts'),
+    minAmount: params.get('min') || '',
+    maxAmount: params.get('max') || '',
+    sortKey: TRANSACTION_SORT_KEYS.includes(sortKey) ? sortKey : 'date',
+    sortDirection: params.get('dir') === 'asc' ? 'asc' : 'desc',
+    page: Math.max(parseInt(params.get('page') || '1', 10) || 1, 1),
+  };
+};
+
+// Only values that differ from the defaults are written, which keeps bookmarked URLs short
+const toTransactionFilterParams = (filters: TransactionFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('q', filters.search);
+  if (filters.startDate) params.set('from', filters.startDate);
+  if (filters.endDate) params.set('to', filters.endDate);
+  if (filters.type) params.set('type', filters.type);
+  if (filters.categoryIds.length > 0) params.set('categories', filters.categoryIds.join(','));
+  if (filters.accountIds.length > 0) params.set('accounts', filters.accountIds.join(','));
+  if (filters.minAmount) params.set('min', filters.minAmount);
+  if (filters.maxAmount) params.set('max', filters.maxAmount);
+  if (filters.sortKey !== 'date') params.set('sort', filters.sortKey);
+  if (filters.sortDirection !== 'desc') params.set('dir', filters.sortDirection);
+  if (filters.page > 1) params.set('page', filters.page.toString());
+  return params;
+};
+
+const countActiveTransactionFilters = (filters: TransactionFilters): number =>
+  [filters.startDate || filters.endDate, filters.type, filters.categoryIds.length > 0, filters.accountIds.length > 0, filters.minAmount || filters.maxAmount]
+    .filter(Boolean).length;
+
+const toggleListValue = (values: string[], value: string) => values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const TransactionFilterPanel: React.FC<{ filters: TransactionFilters; onChange: (changes: Partial<TransactionFilters>) => void }> = ({ filters, onChange }) => {
+  const { categories, accounts, baseCurrency } = useData();
+  const { t, getCategoryName } = useTranslation();
+  // Transfers have no category
+  const visibleCategories = filters.type === 'transfer' ? [] : categories.filter(c => !filters.type || c.type === filters.type);
+  const checkboxListClass = 'max-h-40 overflow-y-auto p-2 space-y-1 border border-slate-300 dark:border-slate-600 rounded-md';
+
+  return (
+    <Card className="p-3 sm:p-4 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <Input type="date" label={t('transaction.filter.startDate')} value={filters.startDate} onChange={e => onChange({ startDate: e.target.value })} max={filters.endDate || undefined} />
+        <Input type="date" label={t('transaction.filter.endDate')} value={filters.endDate} onChange={e => onChange({ endDate: e.target.value })} min={filters.startDate || undefined} />
+        <Input type="number" label={t('transaction.filter.minAmount', { currency: baseCurrency })} value={filters.minAmount} onChange={e => onChange({ minAmount: e.target.value })} min="0" step="any" />
+        <Input type="number" label={t('transaction.filter.maxAmount', { currency: baseCurrency })} value={filters.maxAmount} onChange={e => onChange({ maxAmount: e.target.value })} min="0" step="any" />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <Select label={t('common.type')} value={filters.type} onChange={e => onChange({ type: e.target.value as TransactionFilters['type'], categoryIds: [] })}>
+          <option value="">{t('transaction.filter.allTypes')}</option>
+          <option value={CategoryType.EXPENSE}>{t('common.expense')}</option>
+          <option value={CategoryType.INCOME}>{t('transaction.income')}</option>
+          <option value="transfer">{t('transaction.transfer')}</option>
+        </Select>
+        <div>
+          <span className="block text-sm font-medium text-lightTextSecondary dark:text-darkTextSecondary mb-1">{t('common.category')}</span>
+          <div className={checkboxListClass}>
+            {visibleCategories.map(cat => (
+              <label key={cat.id} className="flex items-center space-x-2 text-sm text-lightText dark:text-darkText">
+                <input type="checkbox" checked={filters.categoryIds.includes(cat.id)} onChange={() => onChange({ categoryIds: toggleListValue(filters.categoryIds, cat.id) })} />
+                <span>{getCategoryName(cat)}</span>
+              </label>
+            ))}
+            {filters.type === 'transfer' && <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('transaction.filter.transfersHaveNoCategory')}</p>}
+          </div>
+        </div>
+        <div>
+          <span className="block text-sm font-medium text-lightTextSecondary dark:text-darkTextSecondary mb-1">{t('common.account')}</span>
+          <div className={checkboxListClass}>
+            {accounts.map(acc => (
+              <label key={acc.id} className="flex items-center space-x-2 text-sm text-lightText dark:text-darkText">
+                <input type="checkbox" checked={filters.accountIds.includes(acc.id)} onChange={() => onChange({ accountIds: toggleListValue(filters.accountIds, acc.id) })} />
+                <span>{acc.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('transaction.filter.amountHint')}</p>
+    </Card>
+  );
+};
+
+const SortableHeader: React.FC<PropsWithChildren<{ sortKey: TransactionSortKey; filters: TransactionFilters; onSort: (sortKey: TransactionSortKey) => void; align?: 'left' | 'right' }>> = ({ sortKey, filters, onSort, align = 'left', children }) => {
+  const isActive = filters.sortKey === sortKey;
+  return (
+    <th className={`text-${align} p-2 sm:p-3 font-semibold text-lightText dark:text-darkText text-xs sm:text-sm`} aria-sort={isActive ? (filters.sortDirection === 'asc' ? 'ascending' : 'descending') : undefined}>
+      <button type="button" onClick={() => onSort(sortKey)} className="inline-flex items-center space-x-1 hover:text-primary">
+        <span>{children}</span>
+        <i className={`fas ${isActive ? (filters.sortDirection === 'asc' ? 'fa-sort-up' : 'fa-sort-down') : 'fa-sort text-slate-400'} text-xs`}></i>
+      </button>
+    </th>
+  );
+};
+
 const TransactionsPage: React.FC = () => {
-  const { transactions, addTransaction, updateTransaction, deleteTransaction, getCategoryById, getAccountById } = useData();
+  const { formatDate, formatAmount } = useFormatters();
+  const { transactions, addTransaction, updateTransaction, deleteTransaction, getCategoryById, getAccountById, getAccountCurrency, toBaseAmount } = useData();
+  const { t, getCategoryName } = useTranslation();
+  const { locale } = useSettings();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | undefined>(undefined);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [viewedAttachments, setViewedAttachments] = useState<{ attachments: TransactionAttachment[]; index: number } | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseTransactionFilters(searchParams), [searchParams]);
+  const activeFilterCount = countActiveTransactionFilters(filters);
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(activeFilterCount > 0);
+
+  // Any filter change goes back to the first page. Replacing the history entry keeps typing in the search box out of the back button.
+  const updateFilters = (changes: Partial<TransactionFilters>) => {
+    setSearchParams(toTransactionFilterParams({ ...filters, page: 1, ...changes }), { replace: true });
+  };
+
+  const handleClearFilters = () => updateFilters({ search: '', startDate: '', endDate: '', type: '', categoryIds: [], accountIds: [], minAmount: '', maxAmount: '' });
+
+  const handleSort = (sortKey: TransactionSortKey) => {
+    const isTextColumn = sortKey === 'description' || sortKey === 'category' || sortKey === 'account';
+    const sortDirection = filters.sortKey === sortKey
+      ? (filters.sortDirection === 'asc' ? 'desc' : 'asc')
+      : (isTextColumn ? 'asc' : 'desc');
+    updateFilters({ sortKey, sortDirection });
+  };
 
   const handleOpenModal = (transaction?: Transaction) => {
     setEditingTransaction(transaction);
@@ -884,77 +3743,182 @@ const TransactionsPage: React.FC = () => {
   };
 
   const handleDeleteTransaction = (transactionId: string) => {
-    if (window.confirm('Apakah Anda yakin ingin menghapus transaksi ini?')) {
+    if (window.confirm(t('transaction.confirmDelete'))) {
       deleteTransaction(transactionId);
     }
   };
 
   const filteredTransactions = useMemo(() => {
-    return transactions.filter(tx => 
-      tx.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (getCategoryById(tx.categoryId)?.name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (getAccountById(tx.accountId)?.name || '').toLowerCase().includes(searchTerm.toLowerCase())
-    );
-  }, [transactions, searchTerm, getCategoryById, getAccountById]);
+    const searchTerm = filters.search.toLowerCase();
+    const tagSearch = searchTerm.startsWith('#') ? normalizeTag(searchTerm) : '';
+    const minAmount = filters.minAmount ? parseFloat(filters.minAmount) : NaN;
+    const maxAmount = filters.maxAmount ? parseFloat(filters.maxAmount) : NaN;
+    return transactions.filter(tx => {
+      const txDay = formatDateForInput(tx.date);
+      if (filters.startDate && txDay < filters.startDate) return false;
+      if (filters.endDate && txDay > filters.endDate) return false;
+      if (filters.type && tx.type !== filters.type) return false;
+      if (filters.categoryIds.length > 0 && !filters.categoryIds.some(categoryId => usesCategory(tx, categoryId))) return false;
+      // A transfer matches both the account it leaves and the account it goes to
+      if (filters.accountIds.length > 0 && !filters.accountIds.includes(tx.accountId) && !(tx.toAccountId && filters.accountIds.includes(tx.toAccountId))) return false;
+      // Accounts hold different currencies, so the limits apply to the amount in the base currency
+      if (!isNaN(minAmount) && toBaseAmount(tx.amount, tx.accountId) < minAmount) return false;
+      if (!isNaN(maxAmount) && toBaseAmount(tx.amount, tx.accountId) > maxAmount) return false;
+      // "#tag" only matches that exact tag; other terms look in the tags and notes as well
+      if (tagSearch) return !!tx.tags && tx.tags.includes(tagSearch);
+      return !searchTerm ||
+        tx.description.toLowerCase().includes(searchTerm) ||
+        (tx.tags || []).some(tag => tag.includes(searchTerm)) ||
+        (tx.notes || '').toLowerCase().includes(searchTerm) ||
+        getCategoryLines(tx).some(line => getCategoryName(getCategoryById(line.categoryId)).toLowerCase().includes(searchTerm)) ||
+        (getAccountById(tx.accountId)?.name || '').toLowerCase().includes(searchTerm) ||
+        (tx.type === 'transfer' && ('transfer'.includes(searchTerm) || (getAccountById(tx.toAccountId || '')?.name || '').toLowerCase().includes(searchTerm)));
+    });
+  }, [transactions, filters, getCategoryById, getAccountById, getCategoryName, toBaseAmount]);
+
+  const sortedTransactions = useMemo(() => {
+    const getSortValue = (tx: Transaction): string | number => {
+      switch (filters.sortKey) {
+        case 'description': return tx.description;
+        case 'category': return tx.type === 'transfer' ? t('transaction.transfer') : getCategoryName(getCategoryById(tx.categoryId));
+        case 'account': return getAccountById(tx.accountId)?.name || '';
+        case 'amount': return tx.amount;
+        default: return tx.date;
+      }
+    };
+    const direction = filters.sortDirection === 'asc' ? 1 : -1;
+    return filteredTransactions
+      .map(tx => ({ tx, value: getSortValue(tx) }))
+      .sort((a, b) => direction * (typeof a.value === 'number' && typeof b.value === 'number'
+        ? a.value - b.value
+        : String(a.value).localeCompare(String(b.value), locale, { sensitivity: 'base' })))
+      .map(({ tx }) => tx);
+  }, [filteredTransactions, filters.sortKey, filters.sortDirection, t, getCategoryName, getCategoryById, getAccountById, locale]);
+
+  const pageCount = Math.max(Math.ceil(sortedTransactions.length / TRANSACTIONS_PAGE_SIZE), 1);
+  const currentPage = Math.min(filters.page, pageCount);
+  const pageStart = (currentPage - 1) * TRANSACTIONS_PAGE_SIZE;
+  const pageTransactions = sortedTransactions.slice(pageStart, pageStart + TRANSACTIONS_PAGE_SIZE);
 
 
   return (
     <div className="space-y-4 sm:space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-3 sm:space-y-0">
-        <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">Manajemen Transaksi</h1>
+        <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">{t('transaction.pageTitle')}</h1>
         <Button onClick={() => handleOpenModal()} variant="primary" size="md">
-          <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">Tambah</span> Transaksi
+          <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">{t('common.add')}</span> {t('transaction.noun')}
         </Button>
       </div>
       
-      <Input 
-        type="text"
-        placeholder="Cari (deskripsi, kategori, akun)..."
-        value={searchTerm}
-        onChange={(e) => setSearchTerm(e.target.value)}
-        className="max-w-full sm:max-w-md"
-      />
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <div className="w-full sm:max-w-md">
+          <Input 
+            type="text"
+            placeholder={t('transaction.searchPlaceholder')}
+            value={filters.search}
+            onChange={(e) => updateFilters({ search: e.target.value })}
+          />
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="secondary" size="md" onClick={() => setIsFilterPanelOpen(!isFilterPanelOpen)}>
+            <i className="fas fa-filter mr-1 sm:mr-2"></i>{t('transaction.filter.title')}{activeFilterCount > 0 && ` (${activeFilterCount})`}
+          </Button>
+          {(activeFilterCount > 0 || filters.search) && (
+            <Button variant="ghost" size="md" onClick={handleClearFilters}>
+              {t('transaction.filter.reset')}
+            </Button>
+          )}
+        </div>
+      </div>
+      {isFilterPanelOpen && <TransactionFilterPanel filters={filters} onChange={updateFilters} />}
 
-      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingTransaction ? 'Edit Transaksi' : 'Tambah Transaksi'}>
-        <TransactionForm onSubmit={handleSubmitTransaction} onClose={handleCloseModal} initialData={editingTransaction} />
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingTransaction ? t('transaction.editTransaction') : t('transaction.addTransaction')}>
+        <TransactionForm onSubmit={handleSubmitTransaction} onClose={handleCloseModal} initialData={editingTransaction} allowAttachments />
+      </Modal>
+      <Modal isOpen={!!viewedAttachments} onClose={() => setViewedAttachments(null)} title={t('transaction.attachment.title')} size="xl">
+        {viewedAttachments && <AttachmentViewer attachments={viewedAttachments.attachments} initialIndex={viewedAttachments.index} />}
       </Modal>
 
       <Card className="overflow-x-auto p-0 sm:p-0"> {/* Adjusted padding for table */}
-        {filteredTransactions.length > 0 ? (
+        {pageTransactions.length > 0 ? (
           <table className="w-full min-w-[700px]"> {/* Increased min-width slightly */}
             <thead className="border-b border-slate-200 dark:border-slate-700">
               <tr>
-                <th className="text-left p-2 sm:p-3 font-semibold text-lightText dark:text-darkText text-xs sm:text-sm">Tanggal</th>
-                <th className="text-left p-2 sm:p-3 font-semibold text-lightText dark:text-darkText text-xs sm:text-sm">Deskripsi</th>
-                <th className="text-left p-2 sm:p-3 font-semibold text-lightText dark:text-darkText text-xs sm:text-sm">Kategori</th>
-                <th className="text-left p-2 sm:p-3 font-semibold text-lightText dark:text-darkText text-xs sm:text-sm">Akun</th>
-                <th className="text-right p-2 sm:p-3 font-semibold text-lightText dark:text-darkText text-xs sm:text-sm">Jumlah</th>
-                <th className="text-center p-2 sm:p-3 font-semibold text-lightText dark:text-darkText text-xs sm:text-sm">Aksi</th>
+                <SortableHeader sortKey="date" filters={filters} onSort={handleSort}>{t('common.date')}</SortableHeader>
+                <SortableHeader sortKey="description" filters={filters} onSort={handleSort}>{t('common.description')}</SortableHeader>
+                <SortableHeader sortKey="category" filters={filters} onSort={handleSort}>{t('common.category')}</SortableHeader>
+                <SortableHeader sortKey="account" filters={filters} onSort={handleSort}>{t('common.account')}</SortableHeader>
+                <SortableHeader sortKey="amount" filters={filters} onSort={handleSort} align="right">{t('common.amount')}</SortableHeader>
+                <th className="text-center p-2 sm:p-3 font-semibold text-lightText dark:text-darkText text-xs sm:text-sm">{t('common.actions')}</th>
               </tr>
             </thead>
             <tbody>
-              {filteredTransactions.map(tx => {
+              {pageTransactions.map(tx => {
                 const category = getCategoryById(tx.categoryId);
                 const account = getAccountById(tx.accountId);
+                const toAccount = tx.type === 'transfer' ? getAccountById(tx.toAccountId || '') : undefined;
                 return (
                   <tr key={tx.id} className="border-b border-slate-100 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50 text-xs sm:text-sm">
-                    <td className="p-2 sm:p-3 text-lightTextSecondary dark:text-darkTextSecondary whitespace-nowrap">{formatDateID(tx.date)}</td>
-                    <td className="p-2 sm:p-3 text-lightText dark:text-darkText">{tx.description}</td>
+                    <td className="p-2 sm:p-3 text-lightTextSecondary dark:text-darkTextSecondary whitespace-nowrap">{formatDate(tx.date)}</td>
+                    <td className="p-2 sm:p-3 text-lightText dark:text-darkText">
+                      {tx.description}
+                      {tx.recurringId && <i className="fas fa-redo-alt ml-2 text-xs text-lightTextSecondary dark:text-darkTextSecondary" title={t('transaction.recurringHint')}></i>}
+                      {tx.notes && <i className="fas fa-sticky-note ml-2 text-xs text-lightTextSecondary dark:text-darkTextSecondary" title={tx.notes}></i>}
+                      {tx.attachments && tx.attachments.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {tx.attachments.map((attachment, index) => (
+                            <button key={attachment.id} type="button" onClick={() => setViewedAttachments({ attachments: tx.attachments!, index })} title={attachment.name}>
+                              <AttachmentThumbnail attachment={attachment} />
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {tx.tags && tx.tags.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {tx.tags.map(tag => (
+                            <button key={tag} type="button" onClick={() => updateFilters({ search: `#${tag}` })} className="px-1.5 py-0.5 text-xs rounded-full bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-300 hover:underline" title={t('transaction.filterByTag')}>
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </td>
                     <td className="p-2 sm:p-3">
-                      <span className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${category?.color ? category.color.replace('text-','bg-').replace('-500', '-100 dark:'+category.color.replace('text-','bg-').replace('-500', '-800') ) : 'bg-gray-200 dark:bg-gray-600'} ${category?.color ? category.color.replace('-500', '-700 dark:'+category.color.replace('-500', '-300')) : 'text-gray-800 dark:text-gray-200'}`}>
-                        <i className={`${category?.icon || 'fas fa-tag'} mr-1`}></i>{category?.name || 'N/A'}
-                      </span>
+                      {tx.type === 'transfer' ? (
+                        <span className="px-2 py-1 text-xs rounded-full whitespace-nowrap bg-blue-100 dark:bg-blue-800 text-blue-700 dark:text-blue-300">
+                          <i className="fas fa-exchange-alt mr-1"></i>{t('transaction.transfer')}
+                        </span>
+                      ) : tx.splits && tx.splits.length > 0 ? (
+                        <div>
+                          <span className="px-2 py-1 text-xs rounded-full whitespace-nowrap bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200">
+                            <i className="fas fa-code-branch mr-1"></i>{t('transaction.split.badge', { count: tx.splits.length })}
+                          </span>
+                          <ul className="mt-1 text-xs text-lightTextSecondary dark:text-darkTextSecondary">
+                            {tx.splits.map((line, index) => (
+                              <li key={index} className="whitespace-nowrap">{getCategoryName(getCategoryById(line.categoryId)) || 'N/A'}: {formatAmount(line.amount, getAccountCurrency(tx.accountId))}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      ) : (
+                        <span className={`px-2 py-1 text-xs rounded-full whitespace-nowrap ${category?.color ? category.color.replace('text-','bg-').replace('-500', '-100 dark:'+category.color.replace('text-','bg-').replace('-500', '-800') ) : 'bg-gray-200 dark:bg-gray-600'} ${category?.color ? category.color.replace('-500', '-700 dark:'+category.color.replace('-500', '-300')) : 'text-gray-800 dark:text-gray-200'}`}>
+                          <i className={`${category?.icon || 'fas fa-tag'} mr-1`}></i>{category ? getCategoryName(category) : 'N/A'}
+                        </span>
+                      )}
                     </td>
-                    <td className="p-2 sm:p-3 text-lightTextSecondary dark:text-darkTextSecondary">{account?.name || 'N/A'}</td>
-                    <td className={`p-2 sm:p-3 text-right font-medium whitespace-nowrap ${tx.type === CategoryType.INCOME ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                      {tx.type === CategoryType.INCOME ? '+' : '-'} {formatCurrencyIDR(tx.amount)}
+                    <td className="p-2 sm:p-3 text-lightTextSecondary dark:text-darkTextSecondary">
+                      {account?.name || 'N/A'}{tx.type === 'transfer' && ` → ${toAccount?.name || 'N/A'}`}
+                    </td>
+                    <td className={`p-2 sm:p-3 text-right font-medium whitespace-nowrap ${tx.type === 'transfer' ? 'text-blue-600 dark:text-blue-400' : tx.type === CategoryType.INCOME ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      {tx.type === 'transfer' ? '' : tx.type === CategoryType.INCOME ? '+' : '-'} {formatAmount(tx.amount, getAccountCurrency(tx.accountId))}
+                      {tx.type === 'transfer' && tx.toAmount !== undefined && <p className="text-xs">{t('transaction.received', { amount: formatAmount(tx.toAmount, getAccountCurrency(tx.toAccountId || '')) })}</p>}
+                      {tx.type === 'transfer' && !!tx.fee && <p className="text-xs text-red-500">{t('transaction.fee', { amount: formatAmount(tx.fee, getAccountCurrency(tx.accountId)) })}</p>}
                     </td>
                     <td className="p-1 sm:p-3 text-center space-x-0 sm:space-x-1">
                       <Button variant="ghost" size="sm" onClick={() => handleOpenModal(tx)} className="p-1 text-blue-500 hover:text-blue-700">
-                        <i className="fas fa-edit"></i><span className="sr-only">Edit</span>
+                        <i className="fas fa-edit"></i><span className="sr-only">{t('common.edit')}</span>
                       </Button>
                       <Button variant="ghost" size="sm" onClick={() => handleDeleteTransaction(tx.id)} className="p-1 text-red-500 hover:text-red-700">
-                        <i className="fas fa-trash"></i><span className="sr-only">Hapus</span>
+                        <i className="fas fa-trash"></i><span className="sr-only">{t('common.delete')}</span>
                       </Button>
                     </td>
                   </tr>
@@ -963,14 +3927,285 @@ const TransactionsPage: React.FC = () => {
             </tbody>
           </table>
         ) : (
-          <p className="text-center py-8 text-lightTextSecondary dark:text-darkTextSecondary">Belum ada transaksi yang cocok.</p>
+          <p className="text-center py-8 text-lightTextSecondary dark:text-darkTextSecondary">{t('transaction.noMatches')}</p>
         )}
       </Card>
+      {sortedTransactions.length > 0 && (
+        <div className="flex flex-col sm:flex-row justify-between items-center gap-2 text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+          <span>{t('transaction.pagination.showing', { start: pageStart + 1, end: pageStart + pageTransactions.length, total: sortedTransactions.length })}</span>
+          {pageCount > 1 && (
+            <div className="flex items-center space-x-2">
+              <Button variant="ghost" size="sm" onClick={() => updateFilters({ page: currentPage - 1 })} disabled={currentPage <= 1}>
+                <i className="fas fa-chevron-left"></i><span className="sr-only">{t('transaction.pagination.previous')}</span>
+              </Button>
+              <span>{t('transaction.pagination.page', { page: currentPage, pageCount })}</span>
+              <Button variant="ghost" size="sm" onClick={() => updateFilters({ page: currentPage + 1 })} disabled={currentPage >= pageCount}>
+                <i className="fas fa-chevron-right"></i><span className="sr-only">{t('transaction.pagination.next')}</span>
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Recurring Transactions Page Components
+interface RecurringTransactionFormProps {
+  onSubmit: (recurring: RecurringTransactionInput) => void;
+  onClose: () => void;
+  initialData?: RecurringTransaction;
+}
+
+const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> = ({ onSubmit, onClose, initialData }) => {
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>(initialData?.frequency || RecurrenceFrequency.MONTHLY);
+  const [repeatInterval, setRepeatInterval] = useState(initialData?.interval?.toString() || '1');
+  const [dayOfMonth, setDayOfMonth] = useState(initialData?.dayOfMonth?.toString() || '');
+  const [endCondition, setEndCondition] = useState<'never' | 'date' | 'count'>(initialData?.endDate ? 'date' : initialData?.maxOccurrences !== undefined ? 'count' : 'never');
+  const [endDate, setEndDate] = useState(initialData?.endDate ? formatDateForInput(initialData.endDate) : '');
+  const [maxOccurrences, setMaxOccurrences] = useState(initialData?.maxOccurrences?.toString() || '');
+  const { t } = useTranslation();
+
+  // TransactionForm resets whenever initialData changes identity, so keep it stable
+  const transactionData: Transaction | undefined = useMemo(() => initialData && {
+    id: initialData.id,
+    date: initialData.startDate,
+    description: initialData.description,
+    amount: initialData.amount,
+    type: initialData.type,
+    categoryId: initialData.categoryId,
+    splits: initialData.splits,
+    accountId: initialData.accountId,
+    toAccountId: initialData.toAccountId,
+    fee: initialData.fee,
+    tags: initialData.tags,
+    notes: initialData.notes,
+  }, [initialData]);
+
+  const handleSubmit = (transaction: Omit<Transaction, 'id'>) => {
+    if ((endCondition === 'date' && !endDate) || (endCondition === 'count' && !(parseInt(maxOccurrences, 10) > 0))) {
+      alert(t('recurring.endRequired'));
+      return;
+    }
+    if (endCondition === 'date' && endDate < formatDateForInput(transaction.date)) {
+      alert(t('recurring.endBeforeStart'));
+      return;
+    }
+    onSubmit({
+      description: transaction.description,
+      amount: transaction.amount,
+      type: transaction.type,
+      categoryId: transaction.categoryId,
+      splits: transaction.splits,
+      accountId: transaction.accountId,
+      toAccountId: transaction.toAccountId,
+      fee: transaction.fee,
+      tags: transaction.tags,
+      notes: transaction.notes,
+      startDate: transaction.date,
+      frequency,
+      interval: Math.max(parseInt(repeatInterval, 10) || 1, 1),
+      dayOfMonth: frequency === RecurrenceFrequency.MONTHLY && dayOfMonth ? parseInt(dayOfMonth, 10) : undefined,
+      endDate: endCondition === 'date' ? new Date(endDate).toISOString() : undefined,
+      maxOccurrences: endCondition === 'count' ? parseInt(maxOccurrences, 10) : undefined,
+    });
+  };
+
+  return (
+    <TransactionForm onSubmit={handleSubmit} onClose={onClose} initialData={transactionData} dateLabel={t('recurring.startDate')}>
+      <div className="grid grid-cols-2 gap-3">
+        <Select label={t('recurring.frequency')} value={frequency} onChange={e => setFrequency(e.target.value as RecurrenceFrequency)}>
+          <option value={RecurrenceFrequency.DAILY}>{t('recurring.frequency.daily')}</option>
+          <option value={RecurrenceFrequency.WEEKLY}>{t('recurring.frequency.weekly')}</option>
+          <option value={RecurrenceFrequency.MONTHLY}>{t('recurring.frequency.monthly')}</option>
+          <option value={RecurrenceFrequency.YEARLY}>{t('recurring.frequency.yearly')}</option>
+        </Select>
+        <Input type="number" label={t('recurring.interval')} value={repeatInterval} onChange={e => setRepeatInterval(e.target.value)} min="1" required />
+      </div>
+      {frequency === RecurrenceFrequency.MONTHLY && (
+        <Select label={t('recurring.dayOfMonth')} value={dayOfMonth} onChange={e => setDayOfMonth(e.target.value)}>
+          <option value="">{t('recurring.sameAsStart')}</option>
+          {Array.from({ length: 31 }, (_, i) => <option key={i + 1} value={i + 1}>{t('recurring.dayN', { day: i + 1 })}</option>)}
+          <option value="-1">{t('recurring.lastDayOfMonth')}</option>
+        </Select>
+      )}
+      <Select label={t('recurring.ends')} value={endCondition} onChange={e => setEndCondition(e.target.value as 'never' | 'date' | 'count')}>
+        <option value="never">{t('recurring.ends.never')}</option>
+        <option value="date">{t('recurring.ends.date')}</option>
+        <option value="count">{t('recurring.ends.count')}</option>
+      </Select>
+      {endCondition === 'date' && <Input type="date" label={t('recurring.endDate')} value={endDate} onChange={e => setEndDate(e.target.value)} required />}
+      {endCondition === 'count' && <Input type="number" label={t('recurring.occurrences')} value={maxOccurrences} onChange={e => setMaxOccurrences(e.target.value)} min="1" required />}
+    </TransactionForm>
+  );
+};
+
+// Not-yet-posted occurrences across all recurring transactions, with per-occurrence skip and edit
+const UpcomingRecurringList: React.FC<{ days: number; limit?: number }> = ({ days, limit }) => {
+  const { formatDate, formatAmount } = useFormatters();
+  const { recurringTransactions, toggleSkipRecurringOccurrence, editRecurringOccurrence, getCategoryById, getAccountById, getAccountCurrency } = useData();
+  const { t, getCategoryName } = useTranslation();
+  const [editingOccurrence, setEditingOccurrence] = useState<RecurringOccurrence | undefined>(undefined);
+
+  const occurrences = useMemo(() => {
+    const untilDate = new Date();
+    untilDate.setDate(untilDate.getDate() + days);
+    const untilDay = formatDateForInput(untilDate.toISOString());
+    const allOccurrences = recurringTransactions
+      .flatMap(template => getUpcomingOccurrences(template, untilDay))
+      .sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate));
+    return limit ? allOccurrences.slice(0, limit) : allOccurrences;
+  }, [recurringTransactions, days, limit]);
+
+  const editingTransaction: Transaction | undefined = useMemo(() => editingOccurrence && {
+    ...editingOccurrence.transaction,
+    id: `${editingOccurrence.template.id}-${editingOccurrence.scheduledDate}`,
+  }, [editingOccurrence]);
+
+  const handleSubmitOccurrence = (transaction: Omit<Transaction, 'id'>) => {
+    if (editingOccurrence) {
+      editRecurringOccurrence(editingOccurrence.template.id, editingOccurrence.scheduledDate, transaction);
+    }
+    setEditingOccurrence(undefined);
+  };
+
+  if (occurrences.length === 0) {
+    return <p className="text-lightTextSecondary dark:text-darkTextSecondary">{t('recurring.noneScheduled')}</p>;
+  }
+
+  return (
+    <>
+      <Modal isOpen={!!editingOccurrence} onClose={() => setEditingOccurrence(undefined)} title={t('recurring.editOccurrence')}>
+        <TransactionForm onSubmit={handleSubmitOccurrence} onClose={() => setEditingOccurrence(undefined)} initialData={editingTransaction} />
+      </Modal>
+      <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+        {occurrences.map(occurrence => {
+          const tx = occurrence.transaction;
+          const label = tx.type === 'transfer'
+            ? t('transaction.transferLabel', { from: getAccountById(tx.accountId)?.name || 'N/A', to: getAccountById(tx.toAccountId || '')?.name || 'N/A' })
+            : getCategoryLines(tx).map(line => getCategoryName(getCategoryById(line.categoryId))).filter(Boolean).join(', ') || t('transaction.uncategorized');
+          return (
+            <li key={`${occurrence.template.id}-${occurrence.scheduledDate}`} className={`py-3 flex justify-between items-center ${occurrence.isSkipped ? 'opacity-50' : ''}`}>
+              <div className={occurrence.isSkipped ? 'line-through' : ''}>
+                <p className="font-medium text-sm sm:text-base">
+                  {tx.description}
+                  {!!occurrence.template.overrides[occurrence.scheduledDate] && <span className="ml-2 text-xs text-yellow-600 dark:text-yellow-400">{t('recurring.modified')}</span>}
+                </p>
+                <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+                  {formatDate(tx.date)} - {label}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1 sm:space-x-2">
+                <p className={`font-semibold text-sm sm:text-base whitespace-nowrap ${tx.type === 'transfer' ? 'text-blue-500' : tx.type === CategoryType.INCOME ? 'text-green-500' : 'text-red-500'}`}>
+                  {tx.type === 'transfer' ? '' : tx.type === CategoryType.INCOME ? '+' : '-'} {formatAmount(tx.amount, getAccountCurrency(tx.accountId))}
+                </p>
+                <Button variant="ghost" size="sm" onClick={() => setEditingOccurrence(occurrence)} className="p-1 text-blue-500 hover:text-blue-700" disabled={occurrence.isSkipped} title={t('recurring.editThisOccurrence')}>
+                  <i className="fas fa-edit"></i>
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => toggleSkipRecurringOccurrence(occurrence.template.id, occurrence.scheduledDate)} className="p-1 text-yellow-600 hover:text-yellow-700" title={occurrence.isSkipped ? t('recurring.unskip') : t('recurring.skip')}>
+                  <i className={`fas ${occurrence.isSkipped ? 'fa-undo' : 'fa-forward'}`}></i>
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </>
+  );
+};
+
+const RecurringTransactionsPage: React.FC = () => {
+  const { formatDate, formatAmount } = useFormatters();
+  const { recurringTransactions, addRecurringTransaction, updateRecurringTransaction, deleteRecurringTransaction, getCategoryById, getAccountById, getAccountCurrency } = useData();
+  const { t, getCategoryName } = useTranslation();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRecurring, setEditingRecurring] = useState<RecurringTransaction | undefined>(undefined);
+
+  const handleOpenModal = (recurring?: RecurringTransaction) => {
+    setEditingRecurring(recurring);
+    setIsModalOpen(true);
+  };
+  const handleCloseModal = () => {
+    setEditingRecurring(undefined);
+    setIsModalOpen(false);
+  };
+  const handleSubmitRecurring = (recurringData: RecurringTransactionInput) => {
+    if (editingRecurring) {
+      updateRecurringTransaction({ ...editingRecurring, ...recurringData });
+    } else {
+      addRecurringTransaction(recurringData);
+    }
+    handleCloseModal();
+  };
+  const handleDeleteRecurring = (recurringId: string) => {
+    if (window.confirm(t('recurring.confirmDelete'))) {
+      deleteRecurringTransaction(recurringId);
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-3 sm:space-y-0">
+        <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">{t('recurring.pageTitle')}</h1>
+        <Button onClick={() => handleOpenModal()} variant="primary" size="md">
+          <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">{t('common.add')}</span> {t('recurring.noun')}
+        </Button>
+      </div>
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingRecurring ? t('recurring.edit') : t('recurring.add')} size="lg">
+        <RecurringTransactionForm onSubmit={handleSubmitRecurring} onClose={handleCloseModal} initialData={editingRecurring} />
+      </Modal>
+
+      {recurringTransactions.length > 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+          {recurringTransactions.map(recurring => {
+            const nextDate = getRecurringOccurrenceDate(recurring, recurring.processedCount);
+            const isFinished = !isOccurrenceInSchedule(recurring, recurring.processedCount, nextDate);
+            const label = recurring.type === 'transfer'
+              ? `${getAccountById(recurring.accountId)?.name || 'N/A'} → ${getAccountById(recurring.toAccountId || '')?.name || 'N/A'}`
+              : `${getCategoryLines(recurring).map(line => getCategoryName(getCategoryById(line.categoryId))).filter(Boolean).join(', ') || 'N/A'} · ${getAccountById(recurring.accountId)?.name || 'N/A'}`;
+            return (
+              <Card key={recurring.id} className="p-3 sm:p-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-md sm:text-lg font-semibold text-lightText dark:text-darkText">{recurring.description}</h3>
+                    <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{label}</p>
+                    <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{describeRecurrence(recurring, t, formatDate)}</p>
+                  </div>
+                  <div className="space-x-0 sm:space-x-1 flex">
+                    <Button variant="ghost" size="sm" onClick={() => handleOpenModal(recurring)} className="p-1 text-xs text-blue-500 hover:text-blue-700"><i className="fas fa-edit"></i></Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteRecurring(recurring.id)} className="p-1 text-xs text-red-500 hover:text-red-700"><i className="fas fa-trash"></i></Button>
+                  </div>
+                </div>
+                <div className="mt-3 sm:mt-4 flex justify-between items-end">
+                  <p className="text-xs sm:text-sm text-lightText dark:text-darkText">
+                    {isFinished ? t('recurring.finished') : t('recurring.next', { date: formatDate(nextDate) })}
+                  </p>
+                  <p className={`font-semibold text-sm sm:text-base ${recurring.type === 'transfer' ? 'text-blue-500' : recurring.type === CategoryType.INCOME ? 'text-green-500' : 'text-red-500'}`}>
+                    {formatAmount(recurring.amount, getAccountCurrency(recurring.accountId))}
+                  </p>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card className="text-center py-8">
+            <i className="fas fa-redo-alt text-3xl sm:text-4xl text-slate-400 dark:text-slate-500 mb-3 sm:mb-4"></i>
+            <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('recurring.empty')}</p>
+        </Card>
+      )}
+
+      <Card>
+        <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">{t('recurring.schedule60')}</h2>
+        <UpcomingRecurringList days={60} />
+      </Card>
     </div>
   );
 };
 
 // Budgets Page (Simplified)
+const DEFAULT_BUDGET_ALERT_THRESHOLDS = [80, 100];
+
 interface BudgetFormProps {
   onSubmit: (budget: Omit<Budget, 'id'>) => void;
   onClose: () => void;
@@ -978,11 +4213,15 @@ interface BudgetFormProps {
 }
 
 const BudgetForm: React.FC<BudgetFormProps> = ({ onSubmit, onClose, initialData }) => {
-  const { categories } = useData();
+  const { categories, baseCurrency } = useData();
+  const { t, getCategoryName } = useTranslation();
   const [categoryId, setCategoryId] = useState(initialData?.categoryId || '');
   const [amount, setAmount] = useState(initialData?.amount?.toString() || '');
   const [period, setPeriod] = useState<BudgetPeriod>(initialData?.period || BudgetPeriod.MONTHLY);
+  const [periodDays, setPeriodDays] = useState(initialData?.periodDays?.toString() || '');
   const [startDate, setStartDate] = useState(initialData ? formatDateForInput(initialData.startDate) : formatDateForInput(new Date(new Date().setDate(1)).toISOString()));
+  const [rollover, setRollover] = useState(initialData?.rollover || false);
+  const [alertThresholds, setAlertThresholds] = useState((initialData ? initialData.alertThresholds || [] : DEFAULT_BUDGET_ALERT_THRESHOLDS).join(', '));
 
 
   const expenseCategories = useMemo(() => categories.filter(c => c.type === CategoryType.EXPENSE), [categories]);
@@ -990,57 +4229,187 @@ const BudgetForm: React.FC<BudgetFormProps> = ({ onSubmit, onClose, initialData
   useEffect(() => {
     if (initialData) {
         setCategoryId(initialData.categoryId);
-        setAmount(initialData.amount.toString());
+        setAmount(getBudgetAmount(initialData, getCurrentBudgetPeriodIndex(initialData)).toString());
         setPeriod(initialData.period);
+        setPeriodDays(initialData.periodDays?.toString() || '');
         setStartDate(formatDateForInput(initialData.startDate));
+        setRollover(initialData.rollover || false);
+        setAlertThresholds((initialData.alertThresholds || []).join(', '));
     } else {
         setCategoryId(expenseCategories.length > 0 ? expenseCategories[0].id : '');
         setAmount('');
         setPeriod(BudgetPeriod.MONTHLY);
+        setPeriodDays('');
         setStartDate(formatDateForInput(new Date(new Date().setDate(1)).toISOString()));
+        setRollover(false);
+        setAlertThresholds(DEFAULT_BUDGET_ALERT_THRESHOLDS.join(', '));
     }
   }, [initialData, expenseCategories]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!categoryId || !amount || !period || !startDate) {
-      alert('Harap isi semua kolom.');
+      alert(t('form.allFields'));
+      return;
+    }
+    const days = parseInt(periodDays, 10);
+    if (period === BudgetPeriod.CUSTOM && !(days >= 1)) {
+      alert(t('budget.invalidPeriodDays'));
+      return;
+    }
+    const thresholds = alertThresholds.split(',').map(value => value.trim()).filter(value => value !== '').map(Number);
+    if (thresholds.some(threshold => !isFinite(threshold) || threshold <= 0)) {
+      alert(t('budget.invalidAlertThresholds'));
       return;
     }
     onSubmit({
       categoryId,
       amount: parseFloat(amount),
       period,
+      periodDays: period === BudgetPeriod.CUSTOM ? days : undefined,
       startDate: new Date(startDate).toISOString(),
+      rollover,
+      alertThresholds: Array.from(new Set(thresholds)).sort((a, b) => a - b),
     });
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
-      <Select label="Kategori Pengeluaran" value={categoryId} onChange={e => setCategoryId(e.target.value)} required>
-        <option value="" disabled={expenseCategories.length > 0}>Pilih Kategori</option>
-        {expenseCategories.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
-        {expenseCategories.length === 0 && <option value="" disabled>Tidak ada kategori pengeluaran</option>}
+      <Select label={t('budget.expenseCategory')} value={categoryId} onChange={e => setCategoryId(e.target.value)} required>
+        <option value="" disabled={expenseCategories.length > 0}>{t('transaction.selectCategory')}</option>
+        <CategoryOptions categories={expenseCategories} />
+        {expenseCategories.length === 0 && <option value="" disabled>{t('transaction.noExpenseCategories')}</option>}
       </Select>
-      <Input type="number" label="Jumlah Anggaran (IDR)" value={amount} onChange={e => setAmount(e.target.value)} required />
-      <Select label="Periode" value={period} onChange={e => setPeriod(e.target.value as BudgetPeriod)}>
-        <option value={BudgetPeriod.MONTHLY}>Bulanan</option>
-        <option value={BudgetPeriod.YEARLY}>Tahunan</option>
+      <Input type="number" label={t('budget.amountWithCurrency', { currency: baseCurrency })} value={amount} onChange={e => setAmount(e.target.value)} required step="any" />
+      {initialData && <p className="-mt-2 text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('budget.amountChangeHint')}</p>}
+      <Select label={t('budget.period')} value={period} onChange={e => setPeriod(e.target.value as BudgetPeriod)}>
+        <option value={BudgetPeriod.WEEKLY}>{t('recurring.frequency.weekly')}</option>
+        <option value={BudgetPeriod.MONTHLY}>{t('recurring.frequency.monthly')}</option>
+        <option value={BudgetPeriod.YEARLY}>{t('recurring.frequency.yearly')}</option>
+        <option value={BudgetPeriod.CUSTOM}>{t('budget.period.custom')}</option>
       </Select>
-      <Input type="date" label="Tanggal Mulai" value={startDate} onChange={e => setStartDate(e.target.value)} required />
+      {period === BudgetPeriod.CUSTOM && (
+        <Input type="number" label={t('budget.periodDays')} value={periodDays} onChange={e => setPeriodDays(e.target.value)} min="1" step="1" required />
+      )}
+      <Input type="date" label={t('recurring.startDate')} value={startDate} onChange={e => setStartDate(e.target.value)} required />
+      <label className="flex items-center space-x-2 text-sm text-lightText dark:text-darkText">
+        <input type="checkbox" checked={rollover} onChange={e => setRollover(e.target.checked)} />
+        <span>{t('budget.rollover')}</span>
+      </label>
+      <Input type="text" label={t('budget.alertThresholds')} value={alertThresholds} onChange={e => setAlertThresholds(e.target.value)} placeholder="80, 100" />
       <div className="flex justify-end space-x-2 pt-2">
-        <Button type="button" variant="ghost" onClick={onClose} size="md">Batal</Button>
-        <Button type="submit" variant="primary" size="md">{initialData ? 'Simpan' : 'Tambah'}</Button>
+        <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.cancel')}</Button>
+        <Button type="submit" variant="primary" size="md">{initialData ? t('common.save') : t('common.add')}</Button>
       </div>
     </form>
   );
 };
 
 
+// Number of completed periods the suggested budget amount is averaged over
+const BUDGET_SUGGESTION_PERIODS = 3;
+
+// Planned versus actual spending for every period of a budget, newest first in the table
+const BudgetHistory: React.FC<{ budget: Budget; onApplySuggestion: (amount: number) => void }> = ({ budget, onApplySuggestion }) => {
+  const { formatDate, formatAmount, formatCompactAmount } = useFormatters();
+  const { categories, transactions, toBaseAmount, baseCurrency } = useData();
+  const { t } = useTranslation();
+
+  const history = useMemo(() => getBudgetHistory(budget, categories, transactions, toBaseAmount), [budget, categories, transactions, toBaseAmount]);
+  const completedPeriods = useMemo(() => history.filter(period => period.periodEnd <= new Date()), [history]);
+
+  const chartData = useMemo(() => history.map(period => ({
+    name: formatDate(period.periodStart.toISOString()),
+    budgeted: period.available,
+    actual: period.spent,
+  })), [history, formatDate]);
+
+  const overspentPeriods = completedPeriods.filter(period => period.spent > period.available);
+  const averageOverspend = overspentPeriods.length > 0
+    ? overspentPeriods.reduce((sum, period) => sum + period.spent - period.available, 0) / overspentPeriods.length
+    : 0;
+
+  const trailingPeriods = completedPeriods.slice(-BUDGET_SUGGESTION_PERIODS);
+  const suggestedAmount = trailingPeriods.length > 0
+    ? roundCurrencyAmount(trailingPeriods.reduce((sum, period) => sum + period.spent, 0) / trailingPeriods.length, baseCurrency)
+    : undefined;
+
+  return (
+    <div className="space-y-4">
+      <ResponsiveContainer width="100%" height={250}>
+        <BarChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="name" tick={{fontSize: 10}} />
+          <YAxis tickFormatter={(value) => formatCompactAmount(value, baseCurrency)} tick={{fontSize: 10}} />
+          <Tooltip formatter={(value: number) => formatAmount(value, baseCurrency)} />
+          <Legend wrapperStyle={{fontSize: '12px'}} />
+          <Bar dataKey="budgeted" fill="#3b82f6" name={t('budget.history.budgeted')} />
+          <Bar dataKey="actual" fill="#ef4444" name={t('budget.history.actual')} />
+        </BarChart>
+      </ResponsiveContainer>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-lightText dark:text-darkText">
+        <div className="p-3 rounded-md bg-slate-100 dark:bg-slate-700">
+          <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('budget.history.averageOverspend')}</p>
+          <p className="font-semibold">{formatAmount(averageOverspend, baseCurrency)}</p>
+          <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('budget.history.overspentPeriods', { count: overspentPeriods.length, total: completedPeriods.length })}</p>
+        </div>
+        <div className="p-3 rounded-md bg-slate-100 dark:bg-slate-700">
+          <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('budget.history.suggestion', { count: trailingPeriods.length })}</p>
+          {suggestedAmount !== undefined ? (
+            <div className="flex items-center justify-between">
+              <p className="font-semibold">{formatAmount(suggestedAmount, baseCurrency)}</p>
+              <Button variant="secondary" size="sm" onClick={() => onApplySuggestion(suggestedAmount)} disabled={suggestedAmount === getBudgetAmount(budget, history.length)}>
+                {t('budget.history.applySuggestion')}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('budget.history.noCompletedPeriods')}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[480px] text-xs sm:text-sm">
+          <thead className="border-b border-slate-200 dark:border-slate-700">
+            <tr>
+              <th className="text-left p-2 font-semibold">{t('budget.history.period')}</th>
+              <th className="text-right p-2 font-semibold">{t('budget.history.budgeted')}</th>
+              <th className="text-right p-2 font-semibold">{t('budget.history.actual')}</th>
+              <th className="text-right p-2 font-semibold">{t('budget.history.variance')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...history].reverse().map(period => {
+              const variance = period.available - period.spent;
+              return (
+                <tr key={period.periodStart.toISOString()} className="border-b border-slate-100 dark:border-slate-700">
+                  <td className="p-2 whitespace-nowrap">
+                    {formatDate(period.periodStart.toISOString())} – {formatDate(new Date(period.periodEnd.getTime() - 1).toISOString())}
+                  </td>
+                  <td className="p-2 text-right whitespace-nowrap">{formatAmount(period.available, baseCurrency)}</td>
+                  <td className="p-2 text-right whitespace-nowrap">{formatAmount(period.spent, baseCurrency)}</td>
+                  <td className={`p-2 text-right whitespace-nowrap ${variance < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                    {formatAmount(variance, baseCurrency)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
 const BudgetsPage: React.FC = () => {
-  const { budgets, addBudget, updateBudget, deleteBudget, getCategoryById, transactions } = useData();
+  const { formatDate, formatAmount } = useFormatters();
+  const { budgets, addBudget, updateBudget, deleteBudget, categories, getCategoryById, transactions, baseCurrency, toBaseAmount } = useData();
+  const { t, getCategoryName } = useTranslation();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingBudget, setEditingBudget] = useState<Budget | undefined>(undefined);
+  const [historyBudgetId, setHistoryBudgetId] = useState<string | null>(null);
+  const historyBudget = budgets.find(b => b.id === historyBudgetId);
 
   const handleOpenModal = (budget?: Budget) => {
     setEditingBudget(budget);
@@ -1052,56 +4421,60 @@ const BudgetsPage: React.FC = () => {
   };
   const handleSubmitBudget = (budgetData: Omit<Budget, 'id'>) => {
     if (editingBudget) {
-      updateBudget({ ...editingBudget, ...budgetData });
+      // A new amount applies from the current period on, so past periods are still judged by what was budgeted then
+      const { amount, ...changes } = budgetData;
+      const updatedBudget = { ...editingBudget, ...changes };
+      const currentIndex = getCurrentBudgetPeriodIndex(updatedBudget);
+      updateBudget(amount === getBudgetAmount(updatedBudget, currentIndex) ? updatedBudget : setBudgetAmountFrom(updatedBudget, amount, currentIndex));
     } else {
       addBudget(budgetData);
     }
     handleCloseModal();
   };
   const handleDeleteBudget = (budgetId: string) => {
-    if (window.confirm('Apakah Anda yakin ingin menghapus anggaran ini?')) {
+    if (window.confirm(t('budget.confirmDelete'))) {
       deleteBudget(budgetId);
     }
   };
 
-  const getActualSpending = useCallback((budget: Budget): number => {
-    const budgetStartDate = new Date(budget.startDate);
-    const budgetEndDate = new Date(budgetStartDate);
-    if (budget.period === BudgetPeriod.MONTHLY) {
-      budgetEndDate.setMonth(budgetEndDate.getMonth() + 1);
-    } else { // Yearly
-      budgetEndDate.setFullYear(budgetEndDate.getFullYear() + 1);
-    }
-
-    return transactions
-      .filter(tx => 
-        tx.categoryId === budget.categoryId && 
-        tx.type === CategoryType.EXPENSE &&
-        new Date(tx.date) >= budgetStartDate &&
-        new Date(tx.date) < budgetEndDate
-      )
-      .reduce((sum, tx) => sum + tx.amount, 0);
-  }, [transactions]);
+  const budgetStatuses = useMemo(
+    () => new Map(budgets.map(budget => [budget.id, getBudgetStatus(budget, categories, transactions, toBaseAmount)])),
+    [budgets, categories, transactions, toBaseAmount]
+  );
 
   return (
     <div className="space-y-4 sm:space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-3 sm:space-y-0">
-        <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">Manajemen Anggaran</h1>
+        <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">{t('budget.pageTitle')}</h1>
         <Button onClick={() => handleOpenModal()} variant="primary" size="md">
-            <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">Tambah</span> Anggaran
+            <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">{t('common.add')}</span> {t('budget.noun')}
         </Button>
       </div>
-      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingBudget ? 'Edit Anggaran' : 'Tambah Anggaran'}>
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingBudget ? t('budget.edit') : t('budget.add')}>
         <BudgetForm onSubmit={handleSubmitBudget} onClose={handleCloseModal} initialData={editingBudget} />
       </Modal>
+      <Modal isOpen={!!historyBudget} onClose={() => setHistoryBudgetId(null)} title={t('budget.history.title', { category: getCategoryName(getCategoryById(historyBudget?.categoryId || '')) || 'N/A' })} size="lg">
+        {historyBudget && (
+          <BudgetHistory budget={historyBudget} onApplySuggestion={amount => {
+            // The current period is already under way, so the suggestion starts with the next one
+            const nextIndex = getCurrentBudgetPeriodIndex(historyBudget) + 1;
+            updateBudget(setBudgetAmountFrom(historyBudget, amount, nextIndex));
+            alert(t('budget.history.suggestionApplied', { amount: formatAmount(amount, baseCurrency), date: formatDate(getBudgetPeriodStart(historyBudget, nextIndex).toISOString()) }));
+          }} />
+        )}
+      </Modal>
+      <MissingExchangeRateNotice />
 
       {budgets.length > 0 ? (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
           {budgets.map(budget => {
             const category = getCategoryById(budget.categoryId);
-            const actualSpending = getActualSpending(budget);
-            const progress = budget.amount > 0 ? (actualSpending / budget.amount) * 100 : 0;
-            const remaining = budget.amount - actualSpending;
+            const subcategoryIds = getSubcategoryIds(categories, budget.categoryId);
+            const status = budgetStatuses.get(budget.id)!;
+            const actualSpending = status.spent;
+            const progress = status.available > 0 ? (actualSpending / status.available) * 100 : (actualSpending > 0 ? 101 : 0);
+            const remaining = status.available - actualSpending;
+            const periodEnd = new Date(status.periodEnd.getTime() - 1);
             
             let progressBarColor = 'bg-green-500';
             if (progress > 75 && progress <= 100) progressBarColor = 'bg-yellow-500';
@@ -1111,11 +4484,22 @@ const BudgetsPage: React.FC = () => {
               <Card key={budget.id} className="p-3 sm:p-4">
                 <div className="flex justify-between items-start">
                     <div>
-                        <h3 className="text-md sm:text-lg font-semibold text-lightText dark:text-darkText">{category?.name || 'N/A'}</h3>
-                        <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">Periode: {budget.period === BudgetPeriod.MONTHLY ? 'Bulanan' : 'Tahunan'}</p>
-                        <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">Mulai: {formatDateID(budget.startDate)}</p>
+                        <h3 className="text-md sm:text-lg font-semibold text-lightText dark:text-darkText">{getCategoryName(category) || 'N/A'}</h3>
+                        <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('budget.periodLabel', { period: describeBudgetPeriod(budget, t) })}</p>
+                        <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('budget.currentPeriod', { start: formatDate(status.periodStart.toISOString()), end: formatDate(periodEnd.toISOString()) })}</p>
+                        {budget.rollover && (
+                          <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+                            <i className="fas fa-redo-alt mr-1"></i>{t('budget.carriedOver', { amount: formatAmount(status.carriedOver, baseCurrency) })}
+                          </p>
+                        )}
+                        {subcategoryIds.length > 0 && (
+                          <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+                            <i className="fas fa-sitemap mr-1"></i>{t('budget.includesSubcategories')}
+                          </p>
+                        )}
                     </div>
                      <div className="space-x-0 sm:space-x-1 flex">
+                        <Button variant="ghost" size="sm" onClick={() => setHistoryBudgetId(budget.id)} className="p-1 text-xs text-slate-500 hover:text-slate-700" title={t('budget.history.show')}><i className="fas fa-chart-bar"></i></Button>
                         <Button variant="ghost" size="sm" onClick={() => handleOpenModal(budget)} className="p-1 text-xs text-blue-500 hover:text-blue-700"><i className="fas fa-edit"></i></Button>
                         <Button variant="ghost" size="sm" onClick={() => handleDeleteBudget(budget.id)} className="p-1 text-xs text-red-500 hover:text-red-700"><i className="fas fa-trash"></i></Button>
                     </div>
@@ -1123,15 +4507,25 @@ const BudgetsPage: React.FC = () => {
                 
                 <div className="mt-3 sm:mt-4">
                   <div className="flex justify-between text-xs sm:text-sm mb-1 text-lightText dark:text-darkText">
-                    <span>{formatCurrencyIDR(actualSpending)}</span>
-                    <span>{formatCurrencyIDR(budget.amount)}</span>
+                    <span>{formatAmount(actualSpending, baseCurrency)}</span>
+                    <span>{formatAmount(status.available, baseCurrency)}</span>
                   </div>
                   <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 sm:h-2.5">
                     <div className={`${progressBarColor} h-2 sm:h-2.5 rounded-full`} style={{ width: `${Math.min(progress, 100)}%` }}></div>
                   </div>
                    <p className={`text-xs sm:text-sm mt-1 ${remaining < 0 ? 'text-red-500' : 'text-green-500'}`}>
-                    {remaining >=0 ? `Sisa: ${formatCurrencyIDR(remaining)}` : `Lebih: ${formatCurrencyIDR(Math.abs(remaining))}`}
+                    {remaining >=0 ? t('budget.remaining', { amount: formatAmount(remaining, baseCurrency) }) : t('budget.over', { amount: formatAmount(Math.abs(remaining), baseCurrency) })}
                   </p>
+                  {subcategoryIds.length > 0 && status.spentByCategory.size > 0 && (
+                    <ul className="mt-2 space-y-0.5 text-xs text-lightTextSecondary dark:text-darkTextSecondary">
+                      {[budget.categoryId, ...subcategoryIds].filter(categoryId => status.spentByCategory.has(categoryId)).map(categoryId => (
+                        <li key={categoryId} className="flex justify-between">
+                          <span>{categoryId === budget.categoryId ? t('category.withoutSubcategory', { name: getCategoryName(category) }) : getCategoryName(getCategoryById(categoryId))}</span>
+                          <span>{formatAmount(status.spentByCategory.get(categoryId)!, baseCurrency)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               </Card>
             );
@@ -1140,202 +4534,1471 @@ const BudgetsPage: React.FC = () => {
       ) : (
         <Card className="text-center py-8">
             <i className="fas fa-folder-open text-3xl sm:text-4xl text-slate-400 dark:text-slate-500 mb-3 sm:mb-4"></i>
-            <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary">Belum ada anggaran yang dibuat.</p>
+            <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('budget.empty')}</p>
         </Card>
       )}
     </div>
   );
 };
 
-const ReportsPage: React.FC = () => {
-  const { transactions, getCategoryById, categories } = useData(); // Added categories
-  const cashFlow = useMemo(() => {
-    let income = 0;
-    let expenses = 0;
-    transactions.forEach(tx => {
-      if (tx.type === CategoryType.INCOME) income += tx.amount;
-      else expenses += tx.amount;
-    });
-    return { income, expenses, net: income - expenses };
-  }, [transactions]);
+// Reports Page Components
+type ReportRangePreset = 'thisMonth' | 'lastMonth' | 'thisQuarter' | 'yearToDate' | 'allTime' | 'custom';
 
-  const expenseByCategory: ChartDataPoint[] = useMemo(() => {
-    const categoryMap = new Map<string, {value: number, fill?: string}>();
-    transactions.filter(tx => tx.type === CategoryType.EXPENSE).forEach(tx => {
-      const category = getCategoryById(tx.categoryId);
-      const name = category?.name || 'Lain-lain';
-      const current = categoryMap.get(name) || { value: 0 };
-      current.value += tx.amount;
-      // Assign fill color for pie chart based on category color
-      if(category && category.color){
-            const colorMapping: { [key: string]: string } = {
-              'text-red-500': '#EF4444', 'text-orange-500': '#F97316', 'text-amber-500': '#F59E0B',
-              'text-yellow-500': '#EAB308', 'text-lime-500': '#84CC16', 'text-green-500':'#22C55E', 
-              'text-emerald-500': '#10B981', 'text-teal-500': '#14B8A6', 'text-cyan-500': '#06B6D4',
-              'text-sky-500': '#0EA5E9', 'text-blue-500': '#3B82F6', 'text-indigo-500': '#6366F1',
-              'text-violet-500': '#8B5CF6', 'text-purple-500': '#A855F7', 'text-fuchsia-500': '#D946EF',
-              'text-pink-500':'#EC4899', 'text-rose-500': '#F43F5E'
-            };
-            current.fill = colorMapping[category.color] || undefined;
-      }
-      categoryMap.set(name, current);
+const REPORT_RANGE_PRESETS: ReportRangePreset[] = ['thisMonth', 'lastMonth', 'thisQuarter', 'yearToDate', 'allTime', 'custom'];
+
+interface ReportRange {
+  startDay: string; // YYYY-MM-DD, inclusive
+  endDay: string; // YYYY-MM-DD, inclusive
+}
+
+const toReportDay = (year: number, month: number, day: number): string => new Date(Date.UTC(year, month, day)).toISOString().split('T')[0];
+
+// Only real calendar days are accepted, so a hand-edited URL cannot produce an invalid date
+const isReportDay = (value: string | null): value is string => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  return toReportDay(year, month - 1, day) === value;
+};
+
+// The selected range and the equivalent one before it: the previous month or quarter, the same part of
+// last year, or for a custom range the same number of days right before it. The all-time range, which
+// spans the given custom range, has nothing before it to compare with
+const getReportRanges = (preset: ReportRangePreset, customRange: ReportRange, today: string): { current: ReportRange; previous: ReportRange | null } => {
+  const [year, monthNumber, day] = today.split('-').map(Number);
+  const month = monthNumber - 1;
+  const monthsRange = (firstMonth: number, length: number): ReportRange => ({ startDay: toReportDay(year, firstMonth, 1), endDay: toReportDay(year, firstMonth + length, 0) });
+  switch (preset) {
+    case 'thisMonth':
+      return { current: monthsRange(month, 1), previous: monthsRange(month - 1, 1) };
+    case 'lastMonth':
+      return { current: monthsRange(month - 1, 1), previous: monthsRange(month - 2, 1) };
+    case 'thisQuarter': {
+      const quarterStart = month - (month % 3);
+      return { current: monthsRange(quarterStart, 3), previous: monthsRange(quarterStart - 3, 3) };
+    }
+    case 'yearToDate': {
+      const lastDayLastYear = new Date(Date.UTC(year - 1, month + 1, 0)).getUTCDate();
+      return {
+        current: { startDay: toReportDay(year, 0, 1), endDay: today },
+        previous: { startDay: toReportDay(year - 1, 0, 1), endDay: toReportDay(year - 1, month, Math.min(day, lastDayLastYear)) },
+      };
+    }
+    case 'allTime':
+      return { current: customRange, previous: null };
+    default: {
+      const start = new Date(customRange.startDay);
+      const lengthInDays = Math.round((new Date(customRange.endDay).getTime() - start.getTime()) / 86400000) + 1;
+      return {
+        current: customRange,
+        previous: {
+          startDay: toReportDay(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() - lengthInDays),
+          endDay: toReportDay(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() - 1),
+        },
+      };
+    }
+  }
+};
+
+interface ReportSummary {
+  income: number; // In the base currency
+  expenses: number; // In the base currency
+  byCategory: Map<string, number>; // Income and expense per category in the base currency; '' holds transfer fees
+  byAccount: Map<string, number>; // Net balance change per account in the account's currency
+  byTag: Map<string, Map<string, number>>; // Expenses per tag, then per category, in the base currency
+}
+
+const summarizeReportRange = (transactions: Transaction[], range: ReportRange, toBaseAmount: (amount: number, accountId: string) => number): ReportSummary => {
+  const summary: ReportSummary = { income: 0, expenses: 0, byCategory: new Map(), byAccount: new Map(), byTag: new Map() };
+  transactions.forEach(tx => {
+    const txDay = formatDateForInput(tx.date);
+    if (txDay < range.startDay || txDay > range.endDay) return;
+    summary.income += toBaseAmount(getIncomeAmount(tx), tx.accountId);
+    summary.expenses += toBaseAmount(getExpenseAmount(tx), tx.accountId);
+    (tx.type === CategoryType.INCOME ? getCategoryLines(tx) : getExpenseLines(tx)).forEach(line => {
+      summary.byCategory.set(line.categoryId, (summary.byCategory.get(line.categoryId) || 0) + toBaseAmount(line.amount, tx.accountId));
     });
-    return Array.from(categoryMap, ([name, data]) => ({ name, value: data.value, fill: data.fill }));
-  }, [transactions, getCategoryById, categories]); // Added categories
+    getBalanceImpacts(tx).forEach(impact => {
+      summary.byAccount.set(impact.accountId, (summary.byAccount.get(impact.accountId) || 0) + impact.amount);
+    });
+    (tx.tags || []).forEach(tag => {
+      const byCategory = summary.byTag.get(tag) || new Map<string, number>();
+      getExpenseLines(tx).forEach(line => {
+        byCategory.set(line.categoryId, (byCategory.get(line.categoryId) || 0) + toBaseAmount(line.amount, tx.accountId));
+      });
+      if (byCategory.size > 0) summary.byTag.set(tag, byCategory);
+    });
+  });
+  return summary;
+};
+
+// Change against the previous period, coloured by whether a rise is good news
+const ReportDelta: React.FC<{ current: number; previous: number; currency: CurrencyCode; increaseIsGood?: boolean }> = ({ current, previous, currency, increaseIsGood = true }) => {
+  const { formatAmount } = useFormatters();
+  const delta = current - previous;
+  if (delta === 0) return <span className="text-lightTextSecondary dark:text-darkTextSecondary">–</span>;
+  const sign = delta > 0 ? '+' : '';
+  const percent = previous !== 0 ? Math.round((delta / Math.abs(previous)) * 100) : undefined;
+  return (
+    <span className={(delta > 0) === increaseIsGood ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+      {sign}{formatAmount(delta, currency)}{percent !== undefined && ` (${sign}${percent}%)`}
+    </span>
+  );
+};
+
+const ReportsPage: React.FC = () => {
+  const { formatAmount, formatDate } = useFormatters();
+  const { transactions, accounts, getCategoryById, categories, baseCurrency, toBaseAmount } = useData(); // Added categories
+  const { t, getCategoryName } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [expandedCategoryIds, setExpandedCategoryIds] = useState<string[]>([]);
+
+  // The range lives in the URL like the transaction filters, so a report can be bookmarked
+  const today = formatDateForInput(new Date().toISOString());
+  const requestedPreset = searchParams.get('range') as ReportRangePreset;
+  const preset: ReportRangePreset = REPORT_RANGE_PRESETS.includes(requestedPreset) ? requestedPreset : 'thisMonth';
+  const thisMonth = getReportRanges('thisMonth', { startDay: today, endDay: today }, today).current;
+  const requestedFrom = searchParams.get('from');
+  const requestedTo = searchParams.get('to');
+  const customRange: ReportRange = isReportDay(requestedFrom) && isReportDay(requestedTo) && requestedFrom <= requestedTo
+    ? { startDay: requestedFrom, endDay: requestedTo }
+    : thisMonth;
+  // All time runs from the first transaction up to today, or to the last scheduled one after it
+  const allTimeRange = useMemo(() => transactions.reduce<ReportRange>((range, tx) => {
+    const txDay = formatDateForInput(tx.date);
+    return { startDay: txDay < range.startDay ? txDay : range.startDay, endDay: txDay > range.endDay ? txDay : range.endDay };
+  }, { startDay: today, endDay: today }), [transactions, today]);
+  const { current: currentRange, previous: previousRange } = getReportRanges(preset, preset === 'allTime' ? allTimeRange : customRange, today);
+
+  const updateRange = (changes: { range?: ReportRangePreset; from?: string; to?: string }) => {
+    const params = new URLSearchParams();
+    const nextPreset = changes.range || preset;
+    if (nextPreset !== 'thisMonth') params.set('range', nextPreset);
+    if (nextPreset === 'custom') {
+      params.set('from', changes.from ?? currentRange.startDay);
+      params.set('to', changes.to ?? currentRange.endDay);
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const currentSummary = useMemo(() => summarizeReportRange(transactions, currentRange, toBaseAmount),
+    [transactions, currentRange.startDay, currentRange.endDay, toBaseAmount]);
+  const previousSummary = useMemo(() => summarizeReportRange(previousRange ? transactions : [], previousRange || currentRange, toBaseAmount),
+    [transactions, previousRange?.startDay, previousRange?.endDay, currentRange.startDay, currentRange.endDay, toBaseAmount]);
+  const cashFlow = { income: currentSummary.income, expenses: currentSummary.expenses, net: currentSummary.income - currentSummary.expenses };
+  const previousCashFlow = { income: previousSummary.income, expenses: previousSummary.expenses, net: previousSummary.income - previousSummary.expenses };
+
+  // Subcategories roll up into their parent's row, which expands to the parent's own share and each subcategory.
+  // Transfer fees ('') count as expenses; categories deleted since then are listed as "other"
+  const categoryRows = useMemo(() => {
+    const describe = (categoryId: string) => {
+      const category = getCategoryById(categoryId);
+      return {
+        categoryId,
+        name: categoryId === '' ? t('transaction.transferFee') : getCategoryName(category) || t('common.other'),
+        type: category?.type || CategoryType.EXPENSE,
+      };
+    };
+    const currentTotals = rollUpCategoryAmounts(currentSummary.byCategory, categories);
+    const previousTotals = rollUpCategoryAmounts(previousSummary.byCategory, categories);
+    const categoryIds = Array.from(new Set([...currentTotals.keys(), ...previousTotals.keys()]));
+    return categoryIds
+      .map(categoryId => {
+        const subcategoryIds = categoryId ? getSubcategoryIds(categories, categoryId) : [];
+        return {
+          ...describe(categoryId),
+          current: currentTotals.get(categoryId) || 0,
+          previous: previousTotals.get(categoryId) || 0,
+          children: subcategoryIds.length === 0 ? [] : [categoryId, ...subcategoryIds]
+            .map(childId => ({ ...describe(childId), current: currentSummary.byCategory.get(childId) || 0, previous: previousSummary.byCategory.get(childId) || 0 }))
+            .filter(child => child.current !== 0 || child.previous !== 0)
+            .sort((a, b) => b.current - a.current),
+        };
+      })
+      .sort((a, b) => a.type === b.type ? b.current - a.current : (a.type === CategoryType.INCOME ? -1 : 1));
+  }, [currentSummary, previousSummary, categories, getCategoryById, t, getCategoryName]);
+
+  const toggleCategoryExpanded = (categoryId: string) =>
+    setExpandedCategoryIds(prev => prev.includes(categoryId) ? prev.filter(id => id !== categoryId) : [...prev, categoryId]);
+
+  // A transaction with several tags counts towards each of them
+  const tagRows = useMemo(() => {
+    const sumValues = (values?: Map<string, number>) => values ? Array.from(values.values()).reduce((sum, value) => sum + value, 0) : 0;
+    const tags = Array.from(new Set([...currentSummary.byTag.keys(), ...previousSummary.byTag.keys()]));
+    return tags
+      .map(tag => {
+        const byCategory = currentSummary.byTag.get(tag);
+        const categories = byCategory ? Array.from(byCategory, ([categoryId, amount]) => ({
+          name: categoryId === '' ? t('transaction.transferFee') : getCategoryName(getCategoryById(categoryId)) || t('common.other'),
+          amount,
+        })).sort((a, b) => b.amount - a.amount) : [];
+        return { tag, categories, current: sumValues(byCategory), previous: sumValues(previousSummary.byTag.get(tag)) };
+      })
+      .sort((a, b) => b.current - a.current || b.previous - a.previous);
+  }, [currentSummary, previousSummary, getCategoryById, t, getCategoryName]);
+
+  const getTagTransactionsLink = (tag: string) => `/transactions?${toTransactionFilterParams({
+    ...parseTransactionFilters(new URLSearchParams()), search: `#${tag}`, startDate: currentRange.startDay, endDate: currentRange.endDay,
+  })}`;
+
+  const accountRows = accounts
+    .map(account => ({ account, current: currentSummary.byAccount.get(account.id) || 0, previous: previousSummary.byAccount.get(account.id) || 0 }))
+    .filter(row => row.current !== 0 || row.previous !== 0);
+
+  const expenseByCategory = useMemo(() => {
+    const categoryMap = new Map<string, number>();
+    transactions.filter(tx => {
+      const txDay = formatDateForInput(tx.date);
+      return txDay >= currentRange.startDay && txDay <= currentRange.endDay;
+    }).forEach(tx => getExpenseLines(tx).forEach(line => {
+      categoryMap.set(line.categoryId, (categoryMap.get(line.categoryId) || 0) + toBaseAmount(line.amount, tx.accountId));
+    }));
+    return categoryMap;
+  }, [transactions, currentRange.startDay, currentRange.endDay, toBaseAmount]);
 
   return (
     <div className="space-y-4 sm:space-y-6">
-      <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">Laporan Keuangan</h1>
+      <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">{t('reports.title')}</h1>
+      <Card className="p-3 sm:p-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+          <Select label={t('reports.range')} value={preset} onChange={e => updateRange({ range: e.target.value as ReportRangePreset })}>
+            {REPORT_RANGE_PRESETS.map(option => <option key={option} value={option}>{t(`reports.range.${option}`)}</option>)}
+          </Select>
+          {preset === 'custom' && (
+            <>
+              <Input type="date" label={t('transaction.filter.startDate')} value={currentRange.startDay} onChange={e => e.target.value && updateRange({ from: e.target.value })} max={currentRange.endDay} />
+              <Input type="date" label={t('transaction.filter.endDate')} value={currentRange.endDay} onChange={e => e.target.value && updateRange({ to: e.target.value })} min={currentRange.startDay} />
+            </>
+          )}
+        </div>
+        <p className="mt-3 text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+          {previousRange ? t('reports.comparedWith', {
+            start: formatDate(currentRange.startDay), end: formatDate(currentRange.endDay),
+            previousStart: formatDate(previousRange.startDay), previousEnd: formatDate(previousRange.endDay),
+          }) : t('reports.allTimeRange', { start: formatDate(currentRange.startDay), end: formatDate(currentRange.endDay) })}
+        </p>
+      </Card>
+      <MissingExchangeRateNotice />
       <Card>
-        <h2 className="text-lg sm:text-xl font-semibold mb-4 text-lightText dark:text-darkText">Laporan Arus Kas (Keseluruhan)</h2>
+        <h2 className="text-lg sm:text-xl font-semibold mb-4 text-lightText dark:text-darkText">{t('reports.cashFlow')}</h2>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
           <div>
-            <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">Total Pemasukan</p>
-            <p className="text-xl sm:text-2xl font-semibold text-green-500">{formatCurrencyIDR(cashFlow.income)}</p>
+            <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('reports.totalIncome')}</p>
+            <p className="text-xl sm:text-2xl font-semibold text-green-500">{formatAmount(cashFlow.income, baseCurrency)}</p>
+            {previousRange && <p className="text-xs sm:text-sm"><ReportDelta current={cashFlow.income} previous={previousCashFlow.income} currency={baseCurrency} /></p>}
           </div>
           <div>
-            <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">Total Pengeluaran</p>
-            <p className="text-xl sm:text-2xl font-semibold text-red-500">{formatCurrencyIDR(cashFlow.expenses)}</p>
+            <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('reports.totalExpenses')}</p>
+            <p className="text-xl sm:text-2xl font-semibold text-red-500">{formatAmount(cashFlow.expenses, baseCurrency)}</p>
+            {previousRange && <p className="text-xs sm:text-sm"><ReportDelta current={cashFlow.expenses} previous={previousCashFlow.expenses} currency={baseCurrency} increaseIsGood={false} /></p>}
           </div>
           <div>
-            <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">Arus Kas Bersih</p>
-            <p className={`text-xl sm:text-2xl font-semibold ${cashFlow.net >= 0 ? 'text-blue-500' : 'text-orange-500'}`}>{formatCurrencyIDR(cashFlow.net)}</p>
+            <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('dashboard.netCashFlow')}</p>
+            <p className={`text-xl sm:text-2xl font-semibold ${cashFlow.net >= 0 ? 'text-blue-500' : 'text-orange-500'}`}>{formatAmount(cashFlow.net, baseCurrency)}</p>
+            {previousRange && <p className="text-xs sm:text-sm"><ReportDelta current={cashFlow.net} previous={previousCashFlow.net} currency={baseCurrency} /></p>}
           </div>
         </div>
       </Card>
       <Card>
-        <h2 className="text-lg sm:text-xl font-semibold mb-4 text-lightText dark:text-darkText">Pengeluaran per Kategori (Keseluruhan)</h2>
-        <ExpenseBreakdownPieChart data={expenseByCategory} />
+        <h2 className="text-lg sm:text-xl font-semibold mb-4 text-lightText dark:text-darkText">{t('reports.expenseByCategory')}</h2>
+        <ExpenseBreakdownPieChart amounts={expenseByCategory} />
+      </Card>
+      <Card>
+        <h2 className="text-lg sm:text-xl font-semibold mb-4 text-lightText dark:text-darkText">{t('reports.categoryComparison')}</h2>
+        {categoryRows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[560px] text-xs sm:text-sm text-lightText dark:text-darkText">
+              <thead className="border-b border-slate-200 dark:border-slate-700">
+                <tr>
+                  <th className="text-left p-2 font-semibold">{t('common.category')}</th>
+                  <th className="text-left p-2 font-semibold">{t('common.type')}</th>
+                  <th className="text-right p-2 font-semibold">{t('reports.currentPeriod')}</th>
+                  {previousRange && (
+                    <>
+                      <th className="text-right p-2 font-semibold">{t('reports.previousPeriod')}</th>
+                      <th className="text-right p-2 font-semibold">{t('reports.change')}</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {categoryRows.map(row => {
+                  const isExpanded = expandedCategoryIds.includes(row.categoryId);
+                  return (
+                    <React.Fragment key={row.categoryId || 'fee'}>
+                      <tr className="border-b border-slate-100 dark:border-slate-700">
+                        <td className="p-2">
+                          {row.children.length > 0 ? (
+                            <button type="button" onClick={() => toggleCategoryExpanded(row.categoryId)} className="text-left hover:underline" title={t(isExpanded ? 'reports.hideSubcategories' : 'reports.showSubcategories')}>
+                              <i className={`fas fa-chevron-${isExpanded ? 'down' : 'right'} mr-1 text-xs`}></i>{row.name}
+                            </button>
+                          ) : row.name}
+                        </td>
+                        <td className="p-2">{row.type === CategoryType.INCOME ? t('common.income') : t('common.expense')}</td>
+                        <td className="p-2 text-right whitespace-nowrap">{formatAmount(row.current, baseCurrency)}</td>
+                        {previousRange && (
+                          <>
+                            <td className="p-2 text-right whitespace-nowrap">{formatAmount(row.previous, baseCurrency)}</td>
+                            <td className="p-2 text-right whitespace-nowrap">
+                              <ReportDelta current={row.current} previous={row.previous} currency={baseCurrency} increaseIsGood={row.type === CategoryType.INCOME} />
+                            </td>
+                          </>
+                        )}
+                      </tr>
+                      {isExpanded && row.children.map(child => (
+                        <tr key={child.categoryId} className="border-b border-slate-100 dark:border-slate-700 text-lightTextSecondary dark:text-darkTextSecondary">
+                          <td className="p-2 pl-7">{child.categoryId === row.categoryId ? t('category.withoutSubcategory', { name: child.name }) : child.name}</td>
+                          <td className="p-2"></td>
+                          <td className="p-2 text-right whitespace-nowrap">{formatAmount(child.current, baseCurrency)}</td>
+                          {previousRange && (
+                            <>
+                              <td className="p-2 text-right whitespace-nowrap">{formatAmount(child.previous, baseCurrency)}</td>
+                              <td className="p-2 text-right whitespace-nowrap">
+                                <ReportDelta current={child.current} previous={child.previous} currency={baseCurrency} increaseIsGood={child.type === CategoryType.INCOME} />
+                              </td>
+                            </>
+                          )}
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center py-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('reports.noTransactions')}</p>
+        )}
+      </Card>
+      <Card>
+        <h2 className="text-lg sm:text-xl font-semibold mb-4 text-lightText dark:text-darkText">{t('reports.expenseByTag')}</h2>
+        {tagRows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[640px] text-xs sm:text-sm text-lightText dark:text-darkText">
+              <thead className="border-b border-slate-200 dark:border-slate-700">
+                <tr>
+                  <th className="text-left p-2 font-semibold">{t('transaction.tags')}</th>
+                  <th className="text-left p-2 font-semibold">{t('reports.tagCategories')}</th>
+                  <th className="text-right p-2 font-semibold">{t('reports.currentPeriod')}</th>
+                  {previousRange && (
+                    <>
+                      <th className="text-right p-2 font-semibold">{t('reports.previousPeriod')}</th>
+                      <th className="text-right p-2 font-semibold">{t('reports.change')}</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {tagRows.map(row => (
+                  <tr key={row.tag} className="border-b border-slate-100 dark:border-slate-700">
+                    <td className="p-2 whitespace-nowrap"><Link to={getTagTransactionsLink(row.tag)} className="text-primary hover:underline">#{row.tag}</Link></td>
+                    <td className="p-2 text-lightTextSecondary dark:text-darkTextSecondary">
+                      {row.categories.map(category => `${category.name}: ${formatAmount(category.amount, baseCurrency)}`).join(' · ') || '-'}
+                    </td>
+                    <td className="p-2 text-right whitespace-nowrap">{formatAmount(row.current, baseCurrency)}</td>
+                    {previousRange && (
+                      <>
+                        <td className="p-2 text-right whitespace-nowrap">{formatAmount(row.previous, baseCurrency)}</td>
+                        <td className="p-2 text-right whitespace-nowrap">
+                          <ReportDelta current={row.current} previous={row.previous} currency={baseCurrency} increaseIsGood={false} />
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center py-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('reports.noTaggedExpenses')}</p>
+        )}
+      </Card>
+      <Card>
+        <h2 className="text-lg sm:text-xl font-semibold mb-4 text-lightText dark:text-darkText">{t('reports.accountComparison')}</h2>
+        {accountRows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[480px] text-xs sm:text-sm text-lightText dark:text-darkText">
+              <thead className="border-b border-slate-200 dark:border-slate-700">
+                <tr>
+                  <th className="text-left p-2 font-semibold">{t('common.account')}</th>
+                  <th className="text-right p-2 font-semibold">{t('reports.currentPeriod')}</th>
+                  {previousRange && (
+                    <>
+                      <th className="text-right p-2 font-semibold">{t('reports.previousPeriod')}</th>
+                      <th className="text-right p-2 font-semibold">{t('reports.change')}</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {accountRows.map(({ account, current, previous }) => (
+                  <tr key={account.id} className="border-b border-slate-100 dark:border-slate-700">
+                    <td className="p-2">{account.name}</td>
+                    <td className="p-2 text-right whitespace-nowrap">{formatAmount(current, account.currency)}</td>
+                    {previousRange && (
+                      <>
+                        <td className="p-2 text-right whitespace-nowrap">{formatAmount(previous, account.currency)}</td>
+                        <td className="p-2 text-right whitespace-nowrap"><ReportDelta current={current} previous={previous} currency={account.currency} /></td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-center py-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('reports.noTransactions')}</p>
+        )}
       </Card>
     </div>
   );
 };
 
-// Settings Page Components
-const CategoryManagement: React.FC = () => {
-  const { categories, addCategory, updateCategory, deleteCategory, transactions } = useData(); // Added transactions
+// Savings Goals Page Components
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+const GOAL_PACE_DAYS = 90; // Contribution pace is measured over this many recent days
+
+// Money put towards a goal, in the goal's currency: every change to the linked account since the start date
+// (converted when the account's currency has since changed; 0 without a rate), or the recorded contributions
+const getGoalContributions = (goal: SavingsGoal, accounts: Account[], transactions: Transaction[], exchangeRates: ExchangeRate[]): GoalContribution[] => {
+  const account = accounts.find(acc => acc.id === goal.accountId);
+  if (!account) return [...goal.contributions].sort((a, b) => b.date.localeCompare(a.date));
+  const rate = account.currency === goal.currency ? 1 : findExchangeRate(exchangeRates, account.currency, goal.currency) ?? 0;
+  const startDay = formatDateForInput(goal.startDate);
+  return transactions
+    .filter(tx => formatDateForInput(tx.date) >= startDay)
+    .flatMap(tx => getBalanceImpacts(tx)
+      .filter(impact => impact.accountId === account.id)
+      .map(impact => ({ id: tx.id, date: tx.date, amount: roundCurrencyAmount(impact.amount * rate, goal.currency), note: tx.description })));
+};
+
+// Saved by the end of the given day: the contributions up to then. For a linked account that is how much its balance
+// changed since the start date, so money that was already there does not count.
+const getGoalSavedAmount = (contributions: GoalContribution[], day: string): number =>
+  contributions.filter(c => formatDateForInput(c.date) <= day).reduce((sum, c) => sum + c.amount, 0);
+
+interface GoalProgress {
+  saved: number;
+  remaining: number;
+  progress: number; // Percentage of the target
+  requiredMonthly: number; // Still to save per month to reach the target by its date; all of it once the date has passed
+  monthlyPace?: number; // Saved per month recently; undefined when saving started today
+  projectedDate?: string; // YYYY-MM-DD the target is reached at the recent pace; undefined when the pace is not positive
+}
+
+const getGoalProgress = (goal: SavingsGoal, accounts: Account[], transactions: Transaction[], exchangeRates: ExchangeRate[], today: string): GoalProgress => {
+  const contributions = getGoalContributions(goal, accounts, transactions, exchangeRates);
+  const saved = getGoalSavedAmount(contributions, today);
+  const remaining = Math.max(goal.targetAmount - saved, 0);
+  const todayTime = new Date(today).getTime();
+  const monthsLeft = (new Date(formatDateForInput(goal.targetDate)).getTime() - todayTime) / 86400000 / AVERAGE_DAYS_PER_MONTH;
+  const requiredMonthly = monthsLeft > 0 ? remaining / Math.max(monthsLeft, 1) : remaining;
+
+  const startDay = formatDateForInput(goal.startDate);
+  const windowStartDay = new Date(todayTime - GOAL_PACE_DAYS * 86400000).toISOString().split('T')[0];
+  const paceStartDay = startDay > windowStartDay ? startDay : windowStartDay;
+  const paceDays = (todayTime - new Date(paceStartDay).getTime()) / 86400000;
+  let monthlyPace: number | undefined;
+  let projectedDate: string | undefined;
+  if (paceDays > 0) {
+    // Saved before the pace window began; for a goal that started inside the window, what was there before its start
+    const dayBeforePace = new Date(new Date(paceStartDay).getTime() - 86400000).toISOString().split('T')[0];
+    monthlyPace = (saved - getGoalSavedAmount(contributions, dayBeforePace)) / (paceDays / AVERAGE_DAYS_PER_MONTH);
+    if (remaining > 0 && monthlyPace > 0) {
+      projectedDate = new Date(todayTime + Math.ceil((remaining / monthlyPace) * AVERAGE_DAYS_PER_MONTH) * 86400000).toISOString().split('T')[0];
+    }
+  }
+  return {
+    saved,
+    remaining,
+    progress: goal.targetAmount > 0 ? (saved / goal.targetAmount) * 100 : 0,
+    requiredMonthly,
+    monthlyPace,
+    projectedDate,
+  };
+};
+
+interface GoalFormProps {
+  onSubmit: (goal: Omit<SavingsGoal, 'id' | 'contributions'>) => void;
+  onClose: () => void;
+  initialData?: SavingsGoal;
+}
+
+const GoalForm: React.FC<GoalFormProps> = ({ onSubmit, onClose, initialData }) => {
+  const { accounts, baseCurrency } = useData();
+  const { t } = useTranslation();
+  const [name, setName] = useState(initialData?.name || '');
+  const [icon, setIcon] = useState(initialData?.icon || 'fas fa-piggy-bank');
+  const [targetAmount, setTargetAmount] = useState(initialData?.targetAmount.toString() || '');
+  const [targetDate, setTargetDate] = useState(initialData ? formatDateForInput(initialData.targetDate) : '');
+  const [startDate, setStartDate] = useState(formatDateForInput(initialData?.startDate));
+  const [accountId, setAccountId] = useState(initialData?.accountId || '');
+  const [currency, setCurrency] = useState<CurrencyCode>(initialData?.currency || baseCurrency);
+
+  const linkedAccount = accounts.find(acc => acc.id === accountId);
+  const goalCurrency = linkedAccount ? linkedAccount.currency : currency;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name || !targetAmount || !targetDate || !startDate) {
+      alert(t('form.allFields'));
+      return;
+    }
+    if (targetDate < startDate) {
+      alert(t('goal.targetBeforeStart'));
+      return;
+    }
+    onSubmit({
+      name,
+      icon,
+      currency: goalCurrency,
+      targetAmount: parseFloat(targetAmount),
+      targetDate: new Date(targetDate).toISOString(),
+      startDate: new Date(startDate).toISOString(),
+      accountId: linkedAccount?.id,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+      <Input label={t('goal.name')} value={name} onChange={e => setName(e.target.value)} required placeholder={t('goal.namePlaceholder')} />
+      <Select label={t('goal.linkedAccount')} value={accountId} onChange={e => setAccountId(e.target.value)}>
+        <option value="">{t('goal.noLinkedAccount')}</option>
+        {accounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+      </Select>
+      <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary -mt-2">{t(linkedAccount ? 'goal.linkedAccountHint' : 'goal.manualHint')}</p>
+      {!linkedAccount && (
+        <Select label={t('common.currency')} value={currency} onChange={e => setCurrency(e.target.value as CurrencyCode)}>
+          {CURRENCY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{t(getCurrencyLabelKey(opt.value))}</option>)}
+        </Select>
+      )}
+      <Input type="number" label={t('goal.targetAmount', { currency: goalCurrency })} value={targetAmount} onChange={e => setTargetAmount(e.target.value)} required min="0" step="any" />
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Input type="date" label={t('recurring.startDate')} value={startDate} onChange={e => setStartDate(e.target.value)} required />
+        <Input type="date" label={t('goal.targetDate')} value={targetDate} onChange={e => setTargetDate(e.target.value)} required min={startDate} />
+      </div>
+      <Select label={t('common.icon')} value={icon} onChange={e => setIcon(e.target.value)}>
+        {ICON_LIST.map(ic => <option key={ic} value={ic}>{ic.split('fa-')[1]?.replace(/-/g, ' ') || ic}</option>)}
+      </Select>
+      <div className="flex justify-end space-x-2 pt-2">
+        <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.cancel')}</Button>
+        <Button type="submit" variant="primary" size="md">{initialData ? t('common.save') : t('common.add')}</Button>
+      </div>
+    </form>
+  );
+};
+
+const GoalContributionForm: React.FC<{ goal: SavingsGoal; onClose: () => void }> = ({ goal, onClose }) => {
+  const { updateGoal } = useData();
+  const { t } = useTranslation();
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(formatDateForInput());
+  const [note, setNote] = useState('');
+  const [isWithdrawal, setIsWithdrawal] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amount || !date) {
+      alert(t('form.requiredFields'));
+      return;
+    }
+    const value = Math.abs(parseFloat(amount));
+    updateGoal({
+      ...goal,
+      contributions: [...goal.contributions, { id: generateId(), date: new Date(date).toISOString(), amount: isWithdrawal ? -value : value, note: note || undefined }],
+    });
+    onClose();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+      <label className="flex items-center space-x-2 text-sm text-lightText dark:text-darkText">
+        <input type="checkbox" checked={isWithdrawal} onChange={e => setIsWithdrawal(e.target.checked)} />
+        <span>{t('goal.withdrawal')}</span>
+      </label>
+      <Input type="number" label={t('goal.contributionAmount', { currency: goal.currency })} value={amount} onChange={e => setAmount(e.target.value)} required min="0" step="any" />
+      <Input type="date" label={t('common.date')} value={date} onChange={e => setDate(e.target.value)} required />
+      <Input label={t('goal.note')} value={note} onChange={e => setNote(e.target.value)} />
+      <div className="flex justify-end space-x-2 pt-2">
+        <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.cancel')}</Button>
+        <Button type="submit" variant="primary" size="md">{t('common.save')}</Button>
+      </div>
+    </form>
+  );
+};
+
+const GoalContributionList: React.FC<{ goal: SavingsGoal }> = ({ goal }) => {
+  const { formatDate, formatAmount } = useFormatters();
+  const { accounts, transactions, exchangeRates, updateGoal } = useData();
+  const { t } = useTranslation();
+  const contributions = useMemo(() => getGoalContributions(goal, accounts, transactions, exchangeRates), [goal, accounts, transactions, exchangeRates]);
+
+  const handleDelete = (contributionId: string) => {
+    if (window.confirm(t('goal.confirmDeleteContribution'))) {
+      updateGoal({ ...goal, contributions: goal.contributions.filter(c => c.id !== contributionId) });
+    }
+  };
+
+  if (contributions.length === 0) {
+    return <p className="text-center py-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('goal.noContributions')}</p>;
+  }
+  return (
+    <ul className="divide-y divide-slate-200 dark:divide-slate-700 max-h-96 overflow-y-auto">
+      {contributions.map(contribution => (
+        <li key={`${contribution.id}-${contribution.amount}`} className="py-2 flex justify-between items-center text-sm">
+          <div>
+            <p className="text-lightText dark:text-darkText">{contribution.note || '-'}</p>
+            <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{formatDate(contribution.date)}</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className={contribution.amount >= 0 ? 'text-green-500' : 'text-red-500'}>{formatAmount(contribution.amount, goal.currency)}</span>
+            {!goal.accountId && (
+              <Button variant="ghost" size="sm" onClick={() => handleDelete(contribution.id)} className="p-1 text-xs text-red-500 hover:text-red-700"><i className="fas fa-trash"></i></Button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const GoalsPage: React.FC = () => {
+  const { formatDate, formatAmount } = useFormatters();
+  const { goals, addGoal, updateGoal, deleteGoal, accounts, transactions, exchangeRates, getAccountById } = useData();
+  const { t } = useTranslation();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<SavingsGoal | undefined>(undefined);
+  const [contributingGoalId, setContributingGoalId] = useState<string | null>(null);
+  const [historyGoalId, setHistoryGoalId] = useState<string | null>(null);
+  const contributingGoal = goals.find(g => g.id === contributingGoalId);
+  const historyGoal = goals.find(g => g.id === historyGoalId);
+  const today = formatDateForInput();
+
+  const goalProgress = useMemo(
+    () => new Map(goals.map(goal => [goal.id, getGoalProgress(goal, accounts, transactions, exchangeRates, today)])),
+    [goals, accounts, transactions, exchangeRates, today]
+  );
+
+  const handleOpenModal = (goal?: SavingsGoal) => {
+    setEditingGoal(goal);
+    setIsModalOpen(true);
+  };
+  const handleCloseModal = () => {
+    setEditingGoal(undefined);
+    setIsModalOpen(false);
+  };
+  const handleSubmitGoal = (goalData: Omit<SavingsGoal, 'id' | 'contributions'>) => {
+    if (editingGoal) {
+      updateGoal({ ...editingGoal, ...goalData });
+    } else {
+      addGoal({ ...goalData, contributions: [] });
+    }
+    handleCloseModal();
+  };
+  const handleDeleteGoal = (goalId: string) => {
+    if (window.confirm(t('goal.confirmDelete'))) {
+      deleteGoal(goalId);
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-3 sm:space-y-0">
+        <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">{t('goal.pageTitle')}</h1>
+        <Button onClick={() => handleOpenModal()} variant="primary" size="md">
+            <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">{t('common.add')}</span> {t('goal.noun')}
+        </Button>
+      </div>
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingGoal ? t('goal.edit') : t('goal.add')}>
+        <GoalForm onSubmit={handleSubmitGoal} onClose={handleCloseModal} initialData={editingGoal} />
+      </Modal>
+      <Modal isOpen={!!contributingGoal} onClose={() => setContributingGoalId(null)} title={t('goal.addContribution', { goal: contributingGoal?.name || '' })}>
+        {contributingGoal && <GoalContributionForm goal={contributingGoal} onClose={() => setContributingGoalId(null)} />}
+      </Modal>
+      <Modal isOpen={!!historyGoal} onClose={() => setHistoryGoalId(null)} title={t('goal.contributions', { goal: historyGoal?.name || '' })}>
+        {historyGoal && <GoalContributionList goal={historyGoal} />}
+      </Modal>
+
+      {goals.length > 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+          {goals.map(goal => {
+            const progress = goalProgress.get(goal.id)!;
+            const isReached = progress.remaining <= 0;
+            const isLate = !isReached && !!progress.projectedDate && progress.projectedDate > formatDateForInput(goal.targetDate);
+            return (
+              <Card key={goal.id} className="p-3 sm:p-4">
+                <div className="flex justify-between items-start">
+                  <div className="flex items-start">
+                    <i className={`${goal.icon || 'fas fa-piggy-bank'} text-primary text-xl mr-3 mt-1`}></i>
+                    <div>
+                      <h3 className="text-md sm:text-lg font-semibold text-lightText dark:text-darkText">{goal.name}</h3>
+                      <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('goal.targetDateLabel', { date: formatDate(goal.targetDate) })}</p>
+                      {goal.accountId && (
+                        <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+                          <i className="fas fa-link mr-1"></i>{getAccountById(goal.accountId)?.name || 'N/A'}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="space-x-0 sm:space-x-1 flex">
+                    {!goal.accountId && (
+                      <Button variant="ghost" size="sm" onClick={() => setContributingGoalId(goal.id)} className="p-1 text-xs text-green-500 hover:text-green-700" title={t('goal.contribute')}><i className="fas fa-plus-circle"></i></Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setHistoryGoalId(goal.id)} className="p-1 text-xs text-slate-500 hover:text-slate-700" title={t('goal.showContributions')}><i className="fas fa-list"></i></Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleOpenModal(goal)} className="p-1 text-xs text-blue-500 hover:text-blue-700"><i className="fas fa-edit"></i></Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteGoal(goal.id)} className="p-1 text-xs text-red-500 hover:text-red-700"><i className="fas fa-trash"></i></Button>
+                  </div>
+                </div>
+
+                <div className="mt-3 sm:mt-4">
+                  <div className="flex justify-between text-xs sm:text-sm mb-1 text-lightText dark:text-darkText">
+                    <span>{formatAmount(progress.saved, goal.currency)}</span>
+                    <span>{formatAmount(goal.targetAmount, goal.currency)}</span>
+                  </div>
+                  <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 sm:h-2.5">
+                    <div className={`${isReached ? 'bg-green-500' : 'bg-primary'} h-2 sm:h-2.5 rounded-full`} style={{ width: `${Math.min(Math.max(progress.progress, 0), 100)}%` }}></div>
+                  </div>
+                  <p className="text-xs sm:text-sm mt-1 text-lightTextSecondary dark:text-darkTextSecondary">{t('goal.progress', { percent: Math.floor(progress.progress) })}</p>
+                </div>
+
+                {isReached ? (
+                  <p className="mt-2 text-xs sm:text-sm text-green-500"><i className="fas fa-check-circle mr-1"></i>{t('goal.reached')}</p>
+                ) : (
+                  <div className="mt-2 space-y-1 text-xs sm:text-sm text-lightText dark:text-darkText">
+                    <p>{t('goal.requiredMonthly', { amount: formatAmount(progress.requiredMonthly, goal.currency) })}</p>
+                    {progress.monthlyPace !== undefined && (
+                      <p className="text-lightTextSecondary dark:text-darkTextSecondary">{t('goal.monthlyPace', { amount: formatAmount(progress.monthlyPace, goal.currency) })}</p>
+                    )}
+                    <p className={isLate ? 'text-orange-500' : 'text-lightTextSecondary dark:text-darkTextSecondary'}>
+                      {progress.projectedDate ? t('goal.projectedDate', { date: formatDate(progress.projectedDate) }) : t('goal.noProjection')}
+                    </p>
+                  </div>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card className="text-center py-8">
+            <i className="fas fa-piggy-bank text-3xl sm:text-4xl text-slate-400 dark:text-slate-500 mb-3 sm:mb-4"></i>
+            <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('goal.empty')}</p>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+// Loans Page Components
+interface LoanFormProps {
+  onSubmit: (loan: Omit<Loan, 'id'>) => void;
+  onClose: () => void;
+  initialData?: Loan;
+}
+
+const LoanForm: React.FC<LoanFormProps> = ({ onSubmit, onClose, initialData }) => {
+  const { accounts, categories, transactions, getAccountCurrency } = useData();
+  const { t, getCategoryName } = useTranslation();
+  const expenseCategories = useMemo(() => categories.filter(c => c.type === CategoryType.EXPENSE), [categories]);
+  // Posted installments follow the schedule of the terms they were posted under, so those terms can no longer change
+  const hasPayments = useMemo(() => !!initialData && getLoanPayments(initialData, transactions).length > 0, [initialData, transactions]);
+  const lockedTermsClass = hasPayments ? 'bg-slate-100 dark:bg-slate-700' : '';
+  const [name, setName] = useState(initialData?.name || '');
+  const [principal, setPrincipal] = useState(initialData?.principal.toString() || '');
+  const [annualInterestRate, setAnnualInterestRate] = useState(initialData?.annualInterestRate.toString() || '');
+  const [interestMethod, setInterestMethod] = useState<LoanInterestMethod>(initialData?.interestMethod || LoanInterestMethod.ANNUITY);
+  const [tenorMonths, setTenorMonths] = useState(initialData?.tenorMonths.toString() || '');
+  const [startDate, setStartDate] = useState(formatDateForInput(initialData?.startDate));
+  const [accountId, setAccountId] = useState(initialData?.accountId || accounts[0]?.id || '');
+  // No defaults: principal and interest are booked to different categories, and only the user knows which
+  const [principalCategoryId, setPrincipalCategoryId] = useState(initialData?.principalCategoryId || '');
+  const [interestCategoryId, setInterestCategoryId] = useState(initialData?.interestCategoryId || '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name || !principal || annualInterestRate === '' || !tenorMonths || !startDate || !accountId || !principalCategoryId || !interestCategoryId) {
+      alert(t('form.allFields'));
+      return;
+    }
+    const tenor = parseInt(tenorMonths, 10);
+    if (!(tenor >= 1) || parseFloat(principal) <= 0 || parseFloat(annualInterestRate) < 0) {
+      alert(t('loan.invalidTerms'));
+      return;
+    }
+    onSubmit({
+      name,
+      principal: parseFloat(principal),
+      annualInterestRate: parseFloat(annualInterestRate),
+      interestMethod,
+      tenorMonths: tenor,
+      startDate: new Date(startDate).toISOString(),
+      accountId,
+      principalCategoryId,
+      interestCategoryId,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+      <Input label={t('loan.name')} value={name} onChange={e => setName(e.target.value)} required placeholder={t('loan.namePlaceholder')} />
+      <Select label={t('loan.paymentAccount')} value={accountId} onChange={e => setAccountId(e.target.value)} required disabled={hasPayments} className={lockedTermsClass}>
+        {accounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+      </Select>
+      <Input type="number" label={t('loan.principal', { currency: getAccountCurrency(accountId) })} value={principal} onChange={e => setPrincipal(e.target.value)} required min="0" step="any" disabled={hasPayments} className={lockedTermsClass} />
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Input type="number" label={t('loan.annualInterestRate')} value={annualInterestRate} onChange={e => setAnnualInterestRate(e.target.value)} required min="0" step="any" disabled={hasPayments} className={lockedTermsClass} />
+        <Select label={t('loan.interestMethod')} value={interestMethod} onChange={e => setInterestMethod(e.target.value as LoanInterestMethod)} disabled={hasPayments} className={lockedTermsClass}>
+          <option value={LoanInterestMethod.ANNUITY}>{t('loan.interestMethod.annuity')}</option>
+          <option value={LoanInterestMethod.FLAT}>{t('loan.interestMethod.flat')}</option>
+        </Select>
+        <Input type="number" label={t('loan.tenorMonths')} value={tenorMonths} onChange={e => setTenorMonths(e.target.value)} required min="1" step="1" disabled={hasPayments} className={lockedTermsClass} />
+        <Input type="date" label={t('loan.startDate')} value={startDate} onChange={e => setStartDate(e.target.value)} required disabled={hasPayments} className={lockedTermsClass} />
+        <Select label={t('loan.principalCategory')} value={principalCategoryId} onChange={e => setPrincipalCategoryId(e.target.value)} required>
+          <option value="" disabled>{t('transaction.selectCategory')}</option>
+          <CategoryOptions categories={expenseCategories} />
+        </Select>
+        <Select label={t('loan.interestCategory')} value={interestCategoryId} onChange={e => setInterestCategoryId(e.target.value)} required>
+          <option value="" disabled>{t('transaction.selectCategory')}</option>
+          <CategoryOptions categories={expenseCategories} />
+        </Select>
+      </div>
+      <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t(hasPayments ? 'loan.termsLocked' : 'loan.startDateHint')}</p>
+      <div className="flex justify-end space-x-2 pt-2">
+        <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.cancel')}</Button>
+        <Button type="submit" variant="primary" size="md">{initialData ? t('common.save') : t('common.add')}</Button>
+      </div>
+    </form>
+  );
+};
+
+const LoanScheduleTable: React.FC<{ schedule: LoanInstallment[]; paidCount: number; currency: CurrencyCode }> = ({ schedule, paidCount, currency }) => {
+  const { formatDate, formatAmount } = useFormatters();
+  const { t } = useTranslation();
+  return (
+    <div className="overflow-x-auto max-h-[60vh]">
+      <table className="w-full min-w-[600px] text-xs sm:text-sm text-lightText dark:text-darkText">
+        <thead className="border-b border-slate-200 dark:border-slate-700">
+          <tr>
+            <th className="text-left p-2 font-semibold">#</th>
+            <th className="text-left p-2 font-semibold">{t('loan.dueDate')}</th>
+            <th className="text-right p-2 font-semibold">{t('loan.installment')}</th>
+            <th className="text-right p-2 font-semibold">{t('loan.principalPart')}</th>
+            <th className="text-right p-2 font-semibold">{t('loan.interestPart')}</th>
+            <th className="text-right p-2 font-semibold">{t('loan.remainingBalance')}</th>
+            <th className="text-left p-2 font-semibold">{t('common.status')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {schedule.map(installment => (
+            <tr key={installment.number} className={`border-b border-slate-100 dark:border-slate-700 ${installment.number <= paidCount ? 'opacity-60' : ''}`}>
+              <td className="p-2">{installment.number}</td>
+              <td className="p-2 whitespace-nowrap">{formatDate(installment.dueDate)}</td>
+              <td className="p-2 text-right whitespace-nowrap">{formatAmount(installment.payment, currency)}</td>
+              <td className="p-2 text-right whitespace-nowrap">{formatAmount(installment.principal, currency)}</td>
+              <td className="p-2 text-right whitespace-nowrap">{formatAmount(installment.interest, currency)}</td>
+              <td className="p-2 text-right whitespace-nowrap">{formatAmount(installment.balance, currency)}</td>
+              <td className="p-2 whitespace-nowrap">
+                {installment.number <= paidCount ? <span className="text-green-500"><i className="fas fa-check mr-1"></i>{t('loan.paid')}</span> : '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const LoansPage: React.FC = () => {
+  const { formatDate, formatAmount } = useFormatters();
+  const { loans, addLoan, updateLoan, deleteLoan, transactions, addTransaction, getAccountById, getAccountCurrency } = useData();
+  const { t } = useTranslation();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingLoan, setEditingLoan] = useState<Loan | undefined>(undefined);
+  const [scheduleLoanId, setScheduleLoanId] = useState<string | null>(null);
+  const today = formatDateForInput();
+
+  const loanStates = useMemo(() => new Map(loans.map(loan => {
+    const schedule = getLoanSchedule(loan, getAccountCurrency(loan.accountId));
+    const paidCount = Math.min(getLoanPayments(loan, transactions).length, schedule.length);
+    return [loan.id, { schedule, paidCount, balance: paidCount === 0 ? loan.principal : schedule[paidCount - 1].balance }];
+  })), [loans, transactions, getAccountCurrency]);
+  const scheduleLoan = loans.find(l => l.id === scheduleLoanId);
+
+  const handleOpenModal = (loan?: Loan) => {
+    setEditingLoan(loan);
+    setIsModalOpen(true);
+  };
+  const handleCloseModal = () => {
+    setEditingLoan(undefined);
+    setIsModalOpen(false);
+  };
+  const handleSubmitLoan = (loanData: Omit<Loan, 'id'>) => {
+    if (editingLoan) {
+      updateLoan({ ...editingLoan, ...loanData });
+    } else {
+      addLoan(loanData);
+    }
+    handleCloseModal();
+  };
+  const handleDeleteLoan = (loanId: string) => {
+    if (window.confirm(t('loan.confirmDelete'))) {
+      deleteLoan(loanId);
+    }
+  };
+  const handlePostInstallment = (loan: Loan, installment: LoanInstallment) => {
+    if (window.confirm(t('loan.confirmPost', { number: installment.number, amount: formatAmount(installment.payment, getAccountCurrency(loan.accountId)) }))) {
+      addTransaction(buildLoanInstallmentTransaction(loan, installment, t));
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-3 sm:space-y-0">
+        <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">{t('loan.pageTitle')}</h1>
+        <Button onClick={() => handleOpenModal()} variant="primary" size="md">
+            <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">{t('common.add')}</span> {t('loan.noun')}
+        </Button>
+      </div>
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingLoan ? t('loan.edit') : t('loan.add')}>
+        <LoanForm onSubmit={handleSubmitLoan} onClose={handleCloseModal} initialData={editingLoan} />
+      </Modal>
+      <Modal isOpen={!!scheduleLoan} onClose={() => setScheduleLoanId(null)} title={t('loan.scheduleTitle', { loan: scheduleLoan?.name || '' })} size="xl">
+        {scheduleLoan && (
+          <LoanScheduleTable schedule={loanStates.get(scheduleLoan.id)!.schedule} paidCount={loanStates.get(scheduleLoan.id)!.paidCount} currency={getAccountCurrency(scheduleLoan.accountId)} />
+        )}
+      </Modal>
+
+      {loans.length > 0 ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+          {loans.map(loan => {
+            const { schedule, paidCount, balance } = loanStates.get(loan.id)!;
+            const currency = getAccountCurrency(loan.accountId);
+            const nextInstallment = schedule[paidCount];
+            const totalInterest = schedule.reduce((sum, installment) => sum + installment.interest, 0);
+            const remainingInterest = schedule.slice(paidCount).reduce((sum, installment) => sum + installment.interest, 0);
+            const isOverdue = !!nextInstallment && nextInstallment.dueDate < today;
+            return (
+              <Card key={loan.id} className="p-3 sm:p-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-md sm:text-lg font-semibold text-lightText dark:text-darkText">{loan.name}</h3>
+                    <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+                      {t('loan.terms', {
+                        principal: formatAmount(loan.principal, currency),
+                        rate: loan.annualInterestRate,
+                        method: t(`loan.interestMethod.${loan.interestMethod}`),
+                        tenor: loan.tenorMonths,
+                      })}
+                    </p>
+                    <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{getAccountById(loan.accountId)?.name || 'N/A'}</p>
+                  </div>
+                  <div className="space-x-0 sm:space-x-1 flex">
+                    <Button variant="ghost" size="sm" onClick={() => setScheduleLoanId(loan.id)} className="p-1 text-xs text-slate-500 hover:text-slate-700" title={t('loan.showSchedule')}><i className="fas fa-table"></i></Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleOpenModal(loan)} className="p-1 text-xs text-blue-500 hover:text-blue-700"><i className="fas fa-edit"></i></Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteLoan(loan.id)} className="p-1 text-xs text-red-500 hover:text-red-700"><i className="fas fa-trash"></i></Button>
+                  </div>
+                </div>
+
+                <div className="mt-3 sm:mt-4">
+                  <div className="flex justify-between text-xs sm:text-sm mb-1 text-lightText dark:text-darkText">
+                    <span>{t('loan.remainingBalanceLabel', { amount: formatAmount(balance, currency) })}</span>
+                    <span>{t('loan.paidCount', { paid: paidCount, tenor: schedule.length })}</span>
+                  </div>
+                  <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 sm:h-2.5">
+                    <div className="bg-primary h-2 sm:h-2.5 rounded-full" style={{ width: `${loan.principal > 0 ? Math.min(((loan.principal - balance) / loan.principal) * 100, 100) : 0}%` }}></div>
+                  </div>
+                </div>
+
+                <div className="mt-2 grid grid-cols-2 gap-2 text-xs sm:text-sm text-lightText dark:text-darkText">
+                  <p>{t('loan.payoffDate', { date: formatDate(schedule[schedule.length - 1].dueDate) })}</p>
+                  <p>{t('loan.remainingInterest', { amount: formatAmount(remainingInterest, currency), total: formatAmount(totalInterest, currency) })}</p>
+                </div>
+
+                {nextInstallment ? (
+                  <div className="mt-3 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 p-2 rounded-md bg-slate-100 dark:bg-slate-700 text-xs sm:text-sm">
+                    <div>
+                      <p className={isOverdue ? 'text-red-500 font-semibold' : 'text-lightText dark:text-darkText'}>
+                        {t('loan.nextInstallment', { number: nextInstallment.number, date: formatDate(nextInstallment.dueDate), amount: formatAmount(nextInstallment.payment, currency) })}
+                      </p>
+                      <p className="text-lightTextSecondary dark:text-darkTextSecondary">
+                        {t('loan.installmentBreakdown', { principal: formatAmount(nextInstallment.principal, currency), interest: formatAmount(nextInstallment.interest, currency) })}
+                      </p>
+                    </div>
+                    <Button variant="secondary" size="sm" onClick={() => handlePostInstallment(loan, nextInstallment)}>
+                      <i className="fas fa-check mr-1"></i>{t('loan.post')}
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="mt-3 text-xs sm:text-sm text-green-500"><i className="fas fa-check-circle mr-1"></i>{t('loan.paidOff')}</p>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <Card className="text-center py-8">
+            <i className="fas fa-hand-holding-usd text-3xl sm:text-4xl text-slate-400 dark:text-slate-500 mb-3 sm:mb-4"></i>
+            <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('loan.empty')}</p>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+// Settings Page Components
+const CategoryManagement: React.FC = () => {
+  const { categories, addCategory, updateCategory, deleteCategory, transactions, rules } = useData(); // Added transactions
+  const { t, getCategoryName } = useTranslation();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | undefined>(undefined);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<CategoryType>(CategoryType.EXPENSE);
+  const [icon, setIcon] = useState(ICON_LIST[0]);
+  const [color, setColor] = useState(COLOR_LIST[0]);
+  const [parentId, setParentId] = useState('');
+
+  // One level deep: a category with subcategories stays top-level and keeps its type
+  const editingHasSubcategories = !!editingCategory && categories.some(c => c.parentId === editingCategory.id);
+  const parentOptions = categories.filter(c => c.type === type && !c.parentId && c.id !== editingCategory?.id);
+
+  const handleOpenModal = (category?: Category) => {
+    setEditingCategory(category);
+    setName(category ? getCategoryName(category) : '');
+    setType(category?.type || CategoryType.EXPENSE);
+    setIcon(category?.icon || ICON_LIST[0]);
+    setColor(category?.color || COLOR_LIST[0]);
+    setParentId(category?.parentId || '');
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setEditingCategory(undefined);
+    setIsModalOpen(false);
+    setName('');
+    setType(CategoryType.EXPENSE);
+    setIcon(ICON_LIST[0]);
+    setColor(COLOR_LIST[0]);
+    setParentId('');
+  };
+
+  const handleTypeChange = (newType: CategoryType) => {
+    setType(newType);
+    // The parent must have the same type
+    setParentId('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name) return;
+    const categoryData = { name, type, icon, color, parentId: parentId || undefined };
+    if (editingCategory) {
+      updateCategory({ ...editingCategory, ...categoryData });
+    } else {
+      addCategory(categoryData);
+    }
+    handleCloseModal();
+  };
+
+  const handleDelete = (categoryId: string) => {
+    if (transactions.some(tx => usesCategory(tx, categoryId))) {
+      alert(t('category.inUseAlert'));
+      return;
+    }
+    if (rules.some(rule => rule.categoryId === categoryId)) {
+      alert(t('category.usedByRuleAlert'));
+      return;
+    }
+    if (categories.some(c => c.parentId === categoryId)) {
+      alert(t('category.hasSubcategoriesAlert'));
+      return;
+    }
+    if (window.confirm(t('category.confirmDelete'))) {
+      deleteCategory(categoryId);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 space-y-2 sm:space-y-0">
+        <h2 className="text-lg sm:text-xl font-semibold text-lightText dark:text-darkText">{t('category.title')}</h2>
+        <Button onClick={() => handleOpenModal()} variant="primary" size="md">
+            <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">{t('common.add')}</span> {t('category.noun')}
+        </Button>
+      </div>
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingCategory ? t('category.edit') : t('category.add')}>
+        <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+          <Input label={t('category.name')} value={name} onChange={e => setName(e.target.value)} required />
+          <Select label={t('category.type')} value={type} onChange={e => handleTypeChange(e.target.value as CategoryType)} disabled={editingHasSubcategories}>
+            <option value={CategoryType.EXPENSE}>{t('common.expense')}</option>
+            <option value={CategoryType.INCOME}>{t('transaction.income')}</option>
+          </Select>
+          <div>
+            <Select label={t('category.parent')} value={parentId} onChange={e => setParentId(e.target.value)} disabled={editingHasSubcategories}>
+              <option value="">{t('category.noParent')}</option>
+              {parentOptions.map(cat => <option key={cat.id} value={cat.id}>{getCategoryName(cat)}</option>)}
+            </Select>
+            {editingHasSubcategories && <p className="mt-1 text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('category.hasSubcategoriesHint')}</p>}
+          </div>
+          <Select label={t('common.icon')} value={icon} onChange={e => setIcon(e.target.value)}>
+            {ICON_LIST.map(ic => <option key={ic} value={ic}><i className={`${ic} mr-2`}></i> {ic.split('fa-')[1]?.replace(/-/g, ' ') || ic}</option>)}
+          </Select>
+           <Select label={t('category.color')} value={color} onChange={e => setColor(e.target.value)}>
+            {COLOR_LIST.map(c => <option key={c} value={c} className={`${c} font-medium`}>{c.split('-')[1]} {c.split('-')[2]}</option>)}
+          </Select>
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button type="button" variant="ghost" onClick={handleCloseModal} size="md">{t('common.cancel')}</Button>
+            <Button type="submit" variant="primary" size="md">{editingCategory ? t('common.save') : t('common.add')}</Button>
+          </div>
+        </form>
+      </Modal>
+      <ul className="space-y-2">
+        {getCategoryGroups(categories).flatMap(({ category, children }) => [category, ...children]).map(cat => (
+          <li key={cat.id} className={`flex justify-between items-center p-2 sm:p-3 bg-slate-100 dark:bg-slate-700 rounded-md ${getRootCategoryId(categories, cat.id) !== cat.id ? 'ml-6 sm:ml-8' : ''}`}>
+            <div className="flex items-center overflow-hidden">
+              <i className={`${cat.icon} ${cat.color} text-lg sm:text-xl mr-2 sm:mr-3 w-5 sm:w-6 text-center`}></i>
+              <div className="overflow-hidden whitespace-nowrap text-ellipsis">
+                <span className="text-sm sm:text-base text-lightText dark:text-darkText">{getCategoryName(cat)}</span>
+                <span className="text-xs text-lightTextSecondary dark:text-darkTextSecondary hidden sm:inline"> ({t(cat.type === CategoryType.INCOME ? 'transaction.income' : 'common.expense')})</span>
+              </div>
+            </div>
+            <div className="space-x-0 sm:space-x-1 flex-shrink-0">
+              <Button variant="ghost" size="sm" onClick={() => handleOpenModal(cat)} className="p-1 text-blue-500"><i className="fas fa-edit"></i></Button>
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                onClick={() => handleDelete(cat.id)} 
+                className="p-1 text-red-500"
+                disabled={transactions.some(tx => usesCategory(tx, cat.id))}
+                title={transactions.some(tx => usesCategory(tx, cat.id)) ? t('category.inUseHint') : ""}
+              >
+                <i className="fas fa-trash"></i>
+              </Button>
+            </div>
+          </li>
+        ))}
+         {categories.length === 0 && <p className="text-center py-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('category.empty')}</p>}
+      </ul>
+    </Card>
+  );
+};
+
+interface RuleFormProps {
+  onSubmit: (rule: Omit<CategorizationRule, 'id'>) => void;
+  onClose: () => void;
+  initialData?: CategorizationRule;
+}
+
+const RuleForm: React.FC<RuleFormProps> = ({ onSubmit, onClose, initialData }) => {
+  const { categories, accounts, transactions } = useData();
+  const { t, getCategoryName } = useTranslation();
+  const [name, setName] = useState(initialData?.name || '');
+  const [matchMode, setMatchMode] = useState<RuleMatchMode>(initialData?.matchMode || RuleMatchMode.CONTAINS);
+  const [descriptionPattern, setDescriptionPattern] = useState(initialData?.descriptionPattern || '');
+  const [minAmount, setMinAmount] = useState(initialData?.minAmount?.toString() || '');
+  const [maxAmount, setMaxAmount] = useState(initialData?.maxAmount?.toString() || '');
+  const [accountId, setAccountId] = useState(initialData?.accountId || '');
+  const [type, setType] = useState<CategoryType>(initialData?.type || CategoryType.EXPENSE);
+  const [categoryId, setCategoryId] = useState(initialData?.categoryId || categories.find(c => c.type === CategoryType.EXPENSE)?.id || '');
+  const [tags, setTags] = useState<string[]>(initialData?.tags || []);
+  const [enabled, setEnabled] = useState(initialData?.enabled ?? true);
+  const tagSuggestions = useMemo(() => getTagSuggestions(transactions), [transactions]);
+  const filteredCategories = useMemo(() => categories.filter(c => c.type === type), [categories, type]);
+
+  const handleTypeChange = (newType: CategoryType) => {
+    setType(newType);
+    setCategoryId(categories.find(c => c.type === newType)?.id || '');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name || !categoryId) {
+      alert(t('form.requiredFields'));
+      return;
+    }
+    const pattern = descriptionPattern.trim();
+    if (!pattern && !minAmount && !maxAmount && !accountId) {
+      alert(t('rule.noConditions'));
+      return;
+    }
+    if (pattern && matchMode === RuleMatchMode.REGEX && !isValidRegex(pattern)) {
+      alert(t('rule.invalidRegex'));
+      return;
+    }
+    if (minAmount && maxAmount && parseFloat(minAmount) > parseFloat(maxAmount)) {
+      alert(t('rule.invalidAmountRange'));
+      return;
+    }
+    onSubmit({
+      name,
+      descriptionPattern: pattern || undefined,
+      matchMode,
+      minAmount: minAmount ? parseFloat(minAmount) : undefined,
+      maxAmount: maxAmount ? parseFloat(maxAmount) : undefined,
+      accountId: accountId || undefined,
+      type,
+      categoryId,
+      tags: tags.length > 0 ? tags : undefined,
+      enabled,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+      <Input label={t('rule.name')} value={name} onChange={e => setName(e.target.value)} required placeholder={t('rule.namePlaceholder')} />
+      <span className="block text-sm font-semibold text-lightText dark:text-darkText">{t('rule.conditions')}</span>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <Select label={t('rule.matchMode')} value={matchMode} onChange={e => setMatchMode(e.target.value as RuleMatchMode)}>
+          <option value={RuleMatchMode.CONTAINS}>{t('rule.matchMode.contains')}</option>
+          <option value={RuleMatchMode.REGEX}>{t('rule.matchMode.regex')}</option>
+        </Select>
+        <div className="sm:col-span-2">
+          <Input label={t('rule.descriptionPattern')} value={descriptionPattern} onChange={e => setDescriptionPattern(e.target.value)}
+            placeholder={t(matchMode === RuleMatchMode.REGEX ? 'rule.regexPlaceholder' : 'rule.containsPlaceholder')} />
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Input type="number" label={t('rule.minAmount')} value={minAmount} onChange={e => setMinAmount(e.target.value)} min="0" step="any" placeholder={t('rule.anyAmount')} />
+        <Input type="number" label={t('rule.maxAmount')} value={maxAmount} onChange={e => setMaxAmount(e.target.value)} min="0" step="any" placeholder={t('rule.anyAmount')} />
+      </div>
+      <Select label={t('common.account')} value={accountId} onChange={e => setAccountId(e.target.value)}>
+        <option value="">{t('rule.anyAccount')}</option>
+        {accounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+      </Select>
+      <span className="block text-sm font-semibold text-lightText dark:text-darkText">{t('rule.actions')}</span>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Select label={t('common.type')} value={type} onChange={e => handleTypeChange(e.target.value as CategoryType)}>
+          <option value={CategoryType.EXPENSE}>{t('common.expense')}</option>
+          <option value={CategoryType.INCOME}>{t('transaction.income')}</option>
+        </Select>
+        <Select label={t('common.category')} value={categoryId} onChange={e => setCategoryId(e.target.value)} required>
+          <option value="" disabled={filteredCategories.length > 0}>{t('transaction.selectCategory')}</option>
+          <CategoryOptions categories={filteredCategories} />
+        </Select>
+      </div>
+      <TagInput label={t('rule.tags')} tags={tags} onChange={setTags} suggestions={tagSuggestions} placeholder={t('transaction.tagsPlaceholder')} removeLabel={t('transaction.removeTag')} />
+      <label className="flex items-center space-x-2 text-sm text-lightText dark:text-darkText">
+        <input type="checkbox" checked={enabled} onChange={e => setEnabled(e.target.checked)} />
+        <span>{t('rule.enabled')}</span>
+      </label>
+      <div className="flex justify-end space-x-2 pt-2">
+        <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.cancel')}</Button>
+        <Button type="submit" variant="primary" size="md">{initialData ? t('common.save') : t('common.add')}</Button>
+      </div>
+    </form>
+  );
+};
+
+// Lists what the current rules would change in the ledger and applies the selected changes
+const RuleReapplyPreview: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { formatDate } = useFormatters();
+  const { transactions, setTransactions, rules, getCategoryById } = useData();
+  const { t, getCategoryName } = useTranslation();
+  const [selectionOverrides, setSelectionOverrides] = useState<Record<string, boolean>>({});
+
+  // Transfers, split transactions and loan installments keep their categories
+  const changes = useMemo(() => transactions.flatMap(tx => {
+    if (tx.type === 'transfer' || (tx.splits && tx.splits.length > 0) || tx.loanId) return [];
+    const rule = findMatchingRule(rules, tx);
+    if (!rule) return [];
+    const updated = applyRule(tx, rule);
+    const isChanged = updated.type !== tx.type || updated.categoryId !== tx.categoryId || (updated.tags || []).length !== (tx.tags || []).length;
+    return isChanged ? [{ transaction: tx, updated, rule }] : [];
+  }), [transactions, rules]);
+
+  const isSelected = (transactionId: string) => selectionOverrides[transactionId] ?? true;
+  const selectedChanges = changes.filter(change => isSelected(change.transaction.id));
+
+  const handleApply = () => {
+    const updatedById = new Map(selectedChanges.map(change => [change.transaction.id, change.updated]));
+    setTransactions(prev => prev.map(tx => updatedById.get(tx.id) || tx));
+    alert(t('rule.reapply.success', { count: selectedChanges.length }));
+    onClose();
+  };
+
+  if (changes.length === 0) {
+    return (
+      <div className="space-y-3 sm:space-y-4">
+        <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('rule.reapply.noChanges')}</p>
+        <div className="flex justify-end pt-2">
+          <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.close')}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('rule.reapply.hint', { count: changes.length })}</p>
+      <div className="overflow-x-auto max-h-[50vh] border border-slate-200 dark:border-slate-700 rounded-md">
+        <table className="w-full min-w-[640px] text-xs sm:text-sm">
+          <thead className="border-b border-slate-200 dark:border-slate-700 sticky top-0 bg-lightSurface dark:bg-darkSurface">
+            <tr>
+              <th className="p-2"></th>
+              <th className="text-left p-2 font-semibold">{t('common.date')}</th>
+              <th className="text-left p-2 font-semibold">{t('common.description')}</th>
+              <th className="text-left p-2 font-semibold">{t('rule.reapply.change')}</th>
+              <th className="text-left p-2 font-semibold">{t('rule.noun')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(({ transaction, updated, rule }) => {
+              const addedTags = (updated.tags || []).filter(tag => !(transaction.tags || []).includes(tag));
+              return (
+                <tr key={transaction.id} className="border-b border-slate-100 dark:border-slate-700">
+                  <td className="p-2 text-center">
+                    <input type="checkbox" checked={isSelected(transaction.id)} onChange={e => setSelectionOverrides(prev => ({ ...prev, [transaction.id]: e.target.checked }))} />
+                  </td>
+                  <td className="p-2 whitespace-nowrap">{formatDate(transaction.date)}</td>
+                  <td className="p-2">{transaction.description}</td>
+                  <td className="p-2">
+                    {(updated.categoryId !== transaction.categoryId || updated.type !== transaction.type) && (
+                      <p>{getCategoryName(getCategoryById(transaction.categoryId)) || '-'} <i className="fas fa-arrow-right mx-1 text-xs"></i> {getCategoryName(getCategoryById(updated.categoryId))}</p>
+                    )}
+                    {addedTags.length > 0 && <p className="text-indigo-700 dark:text-indigo-300">{addedTags.map(tag => `#${tag}`).join(' ')}</p>}
+                  </td>
+                  <td className="p-2 text-lightTextSecondary dark:text-darkTextSecondary">{rule.name}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-end space-x-2 pt-2">
+        <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.cancel')}</Button>
+        <Button type="button" variant="primary" onClick={handleApply} size="md" disabled={selectedChanges.length === 0}>{t('rule.reapply.applyCount', { count: selectedChanges.length })}</Button>
+      </div>
+    </div>
+  );
+};
+
+const RuleManagement: React.FC = () => {
+  const { formatAmount } = useFormatters();
+  const { rules, addRule, updateRule, deleteRule, moveRule, getCategoryById, getAccountById, getAccountCurrency, baseCurrency } = useData();
+  const { t, getCategoryName } = useTranslation();
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [editingCategory, setEditingCategory] = useState<Category | undefined>(undefined);
-  const [name, setName] = useState('');
-  const [type, setType] = useState<CategoryType>(CategoryType.EXPENSE);
-  const [icon, setIcon] = useState(ICON_LIST[0]);
-  const [color, setColor] = useState(COLOR_LIST[0]);
+  const [editingRule, setEditingRule] = useState<CategorizationRule | undefined>(undefined);
+  const [isReapplyOpen, setIsReapplyOpen] = useState(false);
 
-  const handleOpenModal = (category?: Category) => {
-    setEditingCategory(category);
-    setName(category?.name || '');
-    setType(category?.type || CategoryType.EXPENSE);
-    setIcon(category?.icon || ICON_LIST[0]);
-    setColor(category?.color || COLOR_LIST[0]);
+  const handleOpenModal = (rule?: CategorizationRule) => {
+    setEditingRule(rule);
     setIsModalOpen(true);
   };
 
   const handleCloseModal = () => {
-    setEditingCategory(undefined);
+    setEditingRule(undefined);
     setIsModalOpen(false);
-    setName('');
-    setType(CategoryType.EXPENSE);
-    setIcon(ICON_LIST[0]);
-    setColor(COLOR_LIST[0]);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!name) return;
-    const categoryData = { name, type, icon, color };
-    if (editingCategory) {
-      updateCategory({ ...editingCategory, ...categoryData });
+  const handleSubmit = (ruleData: Omit<CategorizationRule, 'id'>) => {
+    if (editingRule) {
+      updateRule({ ...editingRule, ...ruleData });
     } else {
-      addCategory(categoryData);
+      addRule(ruleData);
     }
     handleCloseModal();
   };
 
-  const handleDelete = (categoryId: string) => {
-    if (transactions.some(tx => tx.categoryId === categoryId)) {
-      alert('Kategori ini tidak dapat dihapus karena memiliki transaksi terkait.');
-      return;
-    }
-    if (window.confirm('Apakah Anda yakin ingin menghapus kategori ini?')) {
-      deleteCategory(categoryId);
+  const handleDelete = (ruleId: string) => {
+    if (window.confirm(t('rule.confirmDelete'))) {
+      deleteRule(ruleId);
     }
   };
 
+  const describeConditions = (rule: CategorizationRule): string => {
+    // Amounts are in the account's currency; without an account the base currency is the best guess
+    const currency = rule.accountId ? getAccountCurrency(rule.accountId) : baseCurrency;
+    return [
+      rule.descriptionPattern && t(rule.matchMode === RuleMatchMode.REGEX ? 'rule.summary.regex' : 'rule.summary.contains', { pattern: rule.descriptionPattern }),
+      rule.minAmount !== undefined && t('rule.summary.minAmount', { amount: formatAmount(rule.minAmount, currency) }),
+      rule.maxAmount !== undefined && t('rule.summary.maxAmount', { amount: formatAmount(rule.maxAmount, currency) }),
+      rule.accountId && t('rule.summary.account', { account: getAccountById(rule.accountId)?.name || t('rule.deletedAccount') }),
+    ].filter(Boolean).join(' · ');
+  };
+
   return (
     <Card>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 space-y-2 sm:space-y-0">
-        <h2 className="text-lg sm:text-xl font-semibold text-lightText dark:text-darkText">Manajemen Kategori</h2>
-        <Button onClick={() => handleOpenModal()} variant="primary" size="md">
-            <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">Tambah</span> Kategori
-        </Button>
+        <h2 className="text-lg sm:text-xl font-semibold text-lightText dark:text-darkText">{t('rule.title')}</h2>
+        <div className="flex space-x-2">
+          <Button onClick={() => setIsReapplyOpen(true)} variant="secondary" size="md" disabled={rules.length === 0}>
+            <i className="fas fa-redo mr-1 sm:mr-2"></i><span className="hidden sm:inline">{t('rule.reapply.open')}</span>
+          </Button>
+          <Button onClick={() => handleOpenModal()} variant="primary" size="md">
+            <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">{t('common.add')}</span> {t('rule.noun')}
+          </Button>
+        </div>
       </div>
-      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingCategory ? 'Edit Kategori' : 'Tambah Kategori'}>
-        <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
-          <Input label="Nama Kategori" value={name} onChange={e => setName(e.target.value)} required />
-          <Select label="Tipe Kategori" value={type} onChange={e => setType(e.target.value as CategoryType)}>
-            <option value={CategoryType.EXPENSE}>Pengeluaran</option>
-            <option value={CategoryType.INCOME}>Pemasukan</option>
-          </Select>
-          <Select label="Ikon" value={icon} onChange={e => setIcon(e.target.value)}>
-            {ICON_LIST.map(ic => <option key={ic} value={ic}><i className={`${ic} mr-2`}></i> {ic.split('fa-')[1]?.replace(/-/g, ' ') || ic}</option>)}
-          </Select>
-           <Select label="Warna (Tailwind Class)" value={color} onChange={e => setColor(e.target.value)}>
-            {COLOR_LIST.map(c => <option key={c} value={c} className={`${c} font-medium`}>{c.split('-')[1]} {c.split('-')[2]}</option>)}
-          </Select>
-          <div className="flex justify-end space-x-2 pt-2">
-            <Button type="button" variant="ghost" onClick={handleCloseModal} size="md">Batal</Button>
-            <Button type="submit" variant="primary" size="md">{editingCategory ? 'Simpan' : 'Tambah'}</Button>
-          </div>
-        </form>
+      <p className="mb-4 text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('rule.hint')}</p>
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingRule ? t('rule.edit') : t('rule.add')}>
+        <RuleForm key={editingRule?.id || 'new'} onSubmit={handleSubmit} onClose={handleCloseModal} initialData={editingRule} />
+      </Modal>
+      <Modal isOpen={isReapplyOpen} onClose={() => setIsReapplyOpen(false)} title={t('rule.reapply.title')} size="xl">
+        {isReapplyOpen && <RuleReapplyPreview onClose={() => setIsReapplyOpen(false)} />}
       </Modal>
       <ul className="space-y-2">
-        {categories.map(cat => (
-          <li key={cat.id} className="flex justify-between items-center p-2 sm:p-3 bg-slate-100 dark:bg-slate-700 rounded-md">
-            <div className="flex items-center overflow-hidden">
-              <i className={`${cat.icon} ${cat.color} text-lg sm:text-xl mr-2 sm:mr-3 w-5 sm:w-6 text-center`}></i>
-              <div className="overflow-hidden whitespace-nowrap text-ellipsis">
-                <span className="text-sm sm:text-base text-lightText dark:text-darkText">{cat.name}</span>
-                <span className="text-xs text-lightTextSecondary dark:text-darkTextSecondary hidden sm:inline"> ({cat.type === CategoryType.INCOME ? 'Pemasukan' : 'Pengeluaran'})</span>
+        {rules.map((rule, index) => {
+          const category = getCategoryById(rule.categoryId);
+          return (
+            <li key={rule.id} className={`flex justify-between items-center p-2 sm:p-3 bg-slate-100 dark:bg-slate-700 rounded-md ${rule.enabled ? '' : 'opacity-60'}`}>
+              <div className="flex items-center overflow-hidden">
+                <span className="text-xs text-lightTextSecondary dark:text-darkTextSecondary w-5 sm:w-6 text-center mr-2 sm:mr-3 flex-shrink-0">{index + 1}</span>
+                <div className="overflow-hidden">
+                  <p className="text-sm sm:text-base text-lightText dark:text-darkText truncate">
+                    {rule.name}
+                    {!rule.enabled && <span className="ml-2 text-xs text-lightTextSecondary dark:text-darkTextSecondary">({t('rule.disabled')})</span>}
+                  </p>
+                  <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary truncate">{describeConditions(rule)}</p>
+                  <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary truncate">
+                    <i className="fas fa-arrow-right mr-1"></i>
+                    {category && <i className={`${category.icon} ${category.color} mr-1`}></i>}
+                    {getCategoryName(category)} ({t(rule.type === CategoryType.INCOME ? 'transaction.income' : 'common.expense')})
+                    {rule.tags && rule.tags.length > 0 && <span className="ml-1 text-indigo-700 dark:text-indigo-300">{rule.tags.map(tag => `#${tag}`).join(' ')}</span>}
+                  </p>
+                </div>
               </div>
-            </div>
-            <div className="space-x-0 sm:space-x-1 flex-shrink-0">
-              <Button variant="ghost" size="sm" onClick={() => handleOpenModal(cat)} className="p-1 text-blue-500"><i className="fas fa-edit"></i></Button>
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => handleDelete(cat.id)} 
-                className="p-1 text-red-500"
-                disabled={transactions.some(tx => tx.categoryId === cat.id)}
-                title={transactions.some(tx => tx.categoryId === cat.id) ? "Kategori tidak dapat dihapus jika memiliki transaksi terkait." : ""}
-              >
-                <i className="fas fa-trash"></i>
-              </Button>
-            </div>
-          </li>
-        ))}
-         {categories.length === 0 && <p className="text-center py-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">Belum ada kategori.</p>}
+              <div className="space-x-0 sm:space-x-1 flex-shrink-0">
+                <Button variant="ghost" size="sm" onClick={() => moveRule(rule.id, -1)} className="p-1" disabled={index === 0} title={t('rule.moveUp')}><i className="fas fa-arrow-up"></i></Button>
+                <Button variant="ghost" size="sm" onClick={() => moveRule(rule.id, 1)} className="p-1" disabled={index === rules.length - 1} title={t('rule.moveDown')}><i className="fas fa-arrow-down"></i></Button>
+                <Button variant="ghost" size="sm" onClick={() => updateRule({ ...rule, enabled: !rule.enabled })} className="p-1" title={t(rule.enabled ? 'rule.disable' : 'rule.enable')}>
+                  <i className={`fas ${rule.enabled ? 'fa-toggle-on text-green-500' : 'fa-toggle-off'}`}></i>
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleOpenModal(rule)} className="p-1 text-blue-500"><i className="fas fa-edit"></i></Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(rule.id)} className="p-1 text-red-500"><i className="fas fa-trash"></i></Button>
+              </div>
+            </li>
+          );
+        })}
+        {rules.length === 0 && <p className="text-center py-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('rule.empty')}</p>}
       </ul>
     </Card>
   );
 };
 
 const AccountManagement: React.FC = () => {
-  const { accounts, addAccount, updateAccount, deleteAccount, transactions } = useData();
+  const { formatAmount } = useFormatters();
+  const { accounts, addAccount, updateAccount, deleteAccount, transactions, baseCurrency } = useData();
+  const { t } = useTranslation();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingAccount, setEditingAccount] = useState<Account | undefined>(undefined);
   
   const [name, setName] = useState('');
   const [type, setType] = useState<AccountType>(AccountType.BANK);
-  const [balance, setBalance] = useState('');
+  const [currency, setCurrency] = useState<CurrencyCode>(baseCurrency);
+  const [openingBalance, setOpeningBalance] = useState('');
   const [icon, setIcon] = useState(ACCOUNT_TYPE_OPTIONS.find(opt => opt.value === AccountType.BANK)?.icon || 'fas fa-university');
+  const [creditLimit, setCreditLimit] = useState('');
+  const [statementClosingDay, setStatementClosingDay] = useState('');
+  const [paymentDueDay, setPaymentDueDay] = useState('');
 
 
   const handleOpenModal = (account?: Account) => {
     setEditingAccount(account);
     setName(account?.name || '');
     setType(account?.type || AccountType.BANK);
-    setBalance(account?.balance?.toString() || '0');
+    setCurrency(account?.currency || baseCurrency);
+    setOpeningBalance(account?.openingBalance?.toString() || '0');
     setIcon(account?.icon || ACCOUNT_TYPE_OPTIONS.find(opt => opt.value === (account?.type || AccountType.BANK))?.icon || 'fas fa-university');
+    setCreditLimit(account?.creditLimit?.toString() || '');
+    setStatementClosingDay(account?.statementClosingDay?.toString() || '');
+    setPaymentDueDay(account?.paymentDueDay?.toString() || '');
     setIsModalOpen(true);
   };
 
@@ -1344,8 +6007,12 @@ const AccountManagement: React.FC = () => {
     setIsModalOpen(false);
     setName('');
     setType(AccountType.BANK);
-    setBalance('');
+    setCurrency(baseCurrency);
+    setOpeningBalance('');
     setIcon(ACCOUNT_TYPE_OPTIONS.find(opt => opt.value === AccountType.BANK)?.icon || 'fas fa-university');
+    setCreditLimit('');
+    setStatementClosingDay('');
+    setPaymentDueDay('');
   };
 
   const handleTypeChange = (newType: AccountType) => {
@@ -1356,8 +6023,25 @@ const AccountManagement: React.FC = () => {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!name || balance === '') return; 
-    const accountData = { name, type, balance: parseFloat(balance), icon };
+    if (!name || openingBalance === '') return; 
+    const isCreditCard = isLiabilityAccount({ type });
+    const closingDay = parseInt(statementClosingDay, 10);
+    const dueDay = parseInt(paymentDueDay, 10);
+    const isInvalidDay = (value: string, day: number) => value !== '' && !(day >= 1 && day <= 31);
+    if (isCreditCard && (isInvalidDay(statementClosingDay, closingDay) || isInvalidDay(paymentDueDay, dueDay))) {
+      alert(t('account.invalidDay'));
+      return;
+    }
+    if (isCreditCard && paymentDueDay && !statementClosingDay) {
+      alert(t('account.dueDayNeedsClosingDay'));
+      return;
+    }
+    const accountData = {
+      name, type, currency, openingBalance: parseFloat(openingBalance), icon,
+      creditLimit: isCreditCard && creditLimit !== '' ? parseFloat(creditLimit) : undefined,
+      statementClosingDay: isCreditCard && statementClosingDay ? closingDay : undefined,
+      paymentDueDay: isCreditCard && paymentDueDay ? dueDay : undefined,
+    };
     if (editingAccount) {
       updateAccount({ ...editingAccount, ...accountData });
     } else {
@@ -1369,29 +6053,42 @@ const AccountManagement: React.FC = () => {
   return (
     <Card>
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 space-y-2 sm:space-y-0">
-        <h2 className="text-lg sm:text-xl font-semibold text-lightText dark:text-darkText">Manajemen Akun</h2>
+        <h2 className="text-lg sm:text-xl font-semibold text-lightText dark:text-darkText">{t('account.title')}</h2>
         <Button onClick={() => handleOpenModal()} variant="primary" size="md">
-          <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">Tambah</span> Akun
+          <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">{t('common.add')}</span> {t('account.noun')}
         </Button>
       </div>
-      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingAccount ? 'Edit Akun' : 'Tambah Akun'}>
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingAccount ? t('account.edit') : t('account.add')}>
         <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
-          <Input label="Nama Akun" value={name} onChange={e => setName(e.target.value)} required />
-          <Select label="Tipe Akun" value={type} onChange={e => handleTypeChange(e.target.value as AccountType)}>
+          <Input label={t('account.name')} value={name} onChange={e => setName(e.target.value)} required />
+          <Select label={t('account.type')} value={type} onChange={e => handleTypeChange(e.target.value as AccountType)}>
             {ACCOUNT_TYPE_OPTIONS.map(opt => (
-              <option key={opt.value} value={opt.value}>{opt.label}</option>
+              <option key={opt.value} value={opt.value}>{t(ACCOUNT_TYPE_LABELS[opt.value])}</option>
             ))}
           </Select>
-          <Input type="number" label="Saldo Awal/Saat Ini (IDR)" value={balance} onChange={e => setBalance(e.target.value)} required 
-            disabled={!!editingAccount && transactions.some(tx => tx.accountId === editingAccount.id)}
-            title={!!editingAccount && transactions.some(tx => tx.accountId === editingAccount.id) ? "Saldo tidak dapat diubah jika akun sudah memiliki transaksi. Ubah melalui transaksi." : ""}
-          />
-          <Select label="Ikon" value={icon} onChange={e => setIcon(e.target.value)}>
+          {/* Recorded amounts are in the account's currency, so it is fixed once the account has transactions */}
+          <Select label={t('common.currency')} value={currency} onChange={e => setCurrency(e.target.value as CurrencyCode)}
+            disabled={!!editingAccount && isAccountUsed(transactions, editingAccount.id)}
+            title={editingAccount && isAccountUsed(transactions, editingAccount.id) ? t('account.currencyLocked') : ''}>
+            {CURRENCY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{t(getCurrencyLabelKey(opt.value))}</option>)}
+          </Select>
+          <Input type="number" label={t('account.openingBalance', { currency })} value={openingBalance} onChange={e => setOpeningBalance(e.target.value)} required step="any" />
+          <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary -mt-2">{t('account.openingBalanceHint')}</p>
+          {isLiabilityAccount({ type }) && (
+            <>
+              <Input type="number" label={t('account.creditLimit', { currency })} value={creditLimit} onChange={e => setCreditLimit(e.target.value)} min="0" step="any" />
+              <div className="grid grid-cols-2 gap-3">
+                <Input type="number" label={t('account.statementClosingDay')} value={statementClosingDay} onChange={e => setStatementClosingDay(e.target.value)} min="1" max="31" step="1" />
+                <Input type="number" label={t('account.paymentDueDay')} value={paymentDueDay} onChange={e => setPaymentDueDay(e.target.value)} min="1" max="31" step="1" />
+              </div>
+            </>
+          )}
+          <Select label={t('common.icon')} value={icon} onChange={e => setIcon(e.target.value)}>
             {ICON_LIST.map(ic => <option key={ic} value={ic}><i className={`${ic} mr-2`}></i> {ic.split('fa-')[1]?.replace(/-/g, ' ') || ic}</option>)}
           </Select>
           <div className="flex justify-end space-x-2 pt-2">
-            <Button type="button" variant="ghost" onClick={handleCloseModal} size="md">Batal</Button>
-            <Button type="submit" variant="primary" size="md">{editingAccount ? 'Simpan' : 'Tambah'}</Button>
+            <Button type="button" variant="ghost" onClick={handleCloseModal} size="md">{t('common.cancel')}</Button>
+            <Button type="submit" variant="primary" size="md">{editingAccount ? t('common.save') : t('common.add')}</Button>
           </div>
         </form>
       </Modal>
@@ -1401,20 +6098,127 @@ const AccountManagement: React.FC = () => {
             <div className="flex items-center overflow-hidden">
               <i className={`${acc.icon || 'fas fa-question-circle'} text-primary text-lg sm:text-xl mr-2 sm:mr-3 w-5 sm:w-6 text-center`}></i>
               <div className="overflow-hidden whitespace-nowrap text-ellipsis">
-                <p className="font-medium text-sm sm:text-base text-lightText dark:text-darkText">{acc.name} <span className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">({acc.type})</span></p>
-                <p className="text-xs sm:text-sm text-lightText dark:text-darkText">{formatCurrencyIDR(acc.balance)}</p>
+                <p className="font-medium text-sm sm:text-base text-lightText dark:text-darkText">{acc.name} <span className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">({t(ACCOUNT_TYPE_LABELS[acc.type])})</span></p>
+                <p className="text-xs sm:text-sm text-lightText dark:text-darkText">{formatAmount(acc.balance, acc.currency)}</p>
+                {getAvailableCredit(acc) !== undefined && (
+                  <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">
+                    {t('account.availableCredit', { amount: formatAmount(getAvailableCredit(acc)!, acc.currency), limit: formatAmount(acc.creditLimit!, acc.currency) })}
+                  </p>
+                )}
               </div>
             </div>
             <div className="space-x-0 sm:space-x-1 flex-shrink-0">
               <Button variant="ghost" size="sm" onClick={() => handleOpenModal(acc)} className="p-1 text-blue-500"><i className="fas fa-edit"></i></Button>
               <Button variant="ghost" size="sm" onClick={() => deleteAccount(acc.id)} className="p-1 text-red-500"
-                disabled={transactions.some(tx => tx.accountId === acc.id)}
-                title={transactions.some(tx => tx.accountId === acc.id) ? "Akun tidak dapat dihapus jika memiliki transaksi terkait." : ""}
+                disabled={isAccountUsed(transactions, acc.id)}
+                title={isAccountUsed(transactions, acc.id) ? t('account.inUseHint') : ""}
               ><i className="fas fa-trash"></i></Button>
             </div>
           </li>
         ))}
-        {accounts.length === 0 && <p className="text-center py-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">Belum ada akun.</p>}
+        {accounts.length === 0 && <p className="text-center py-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('account.empty')}</p>}
+      </ul>
+    </Card>
+  );
+};
+
+const ExchangeRateManagement: React.FC = () => {
+  const { formatDate, formatAmount } = useFormatters();
+  const { exchangeRates, addExchangeRate, updateExchangeRate, deleteExchangeRate, baseCurrency, missingRateCurrencies } = useData();
+  const { t } = useTranslation();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<ExchangeRate | undefined>(undefined);
+  const [fromCurrency, setFromCurrency] = useState<CurrencyCode>('USD');
+  const [toCurrency, setToCurrency] = useState<CurrencyCode>(baseCurrency);
+  const [rate, setRate] = useState('');
+
+  const handleOpenModal = (exchangeRate?: ExchangeRate) => {
+    setEditingRate(exchangeRate);
+    setFromCurrency(exchangeRate?.fromCurrency || missingRateCurrencies[0] || (baseCurrency === 'USD' ? 'IDR' : 'USD'));
+    setToCurrency(exchangeRate?.toCurrency || baseCurrency);
+    setRate(exchangeRate?.rate.toString() || '');
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setEditingRate(undefined);
+    setIsModalOpen(false);
+    setRate('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rateValue = parseFloat(rate);
+    if (fromCurrency === toCurrency) {
+      alert(t('rate.sameCurrency'));
+      return;
+    }
+    if (!(rateValue > 0)) {
+      alert(t('rate.mustBePositive'));
+      return;
+    }
+    const isDuplicate = exchangeRates.some(r => r.id !== editingRate?.id &&
+      ((r.fromCurrency === fromCurrency && r.toCurrency === toCurrency) || (r.fromCurrency === toCurrency && r.toCurrency === fromCurrency)));
+    if (isDuplicate) {
+      alert(t('rate.duplicate', { from: fromCurrency, to: toCurrency }));
+      return;
+    }
+    const rateData = { fromCurrency, toCurrency, rate: rateValue, updatedAt: new Date().toISOString() };
+    if (editingRate) {
+      updateExchangeRate({ ...editingRate, ...rateData });
+    } else {
+      addExchangeRate(rateData);
+    }
+    handleCloseModal();
+  };
+
+  return (
+    <Card>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 space-y-2 sm:space-y-0">
+        <h2 className="text-lg sm:text-xl font-semibold text-lightText dark:text-darkText">{t('rate.title')}</h2>
+        <Button onClick={() => handleOpenModal()} variant="primary" size="md">
+          <i className="fas fa-plus mr-1 sm:mr-2"></i><span className="hidden sm:inline">{t('common.add')}</span> {t('rate.noun')}
+        </Button>
+      </div>
+      <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary mb-4">
+        {t('rate.description', { baseCurrency })}
+      </p>
+      <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingRate ? t('rate.edit') : t('rate.add')}>
+        <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+          <Select label={t('rate.fromCurrency')} value={fromCurrency} onChange={e => setFromCurrency(e.target.value as CurrencyCode)}>
+            {CURRENCY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{t(getCurrencyLabelKey(opt.value))}</option>)}
+          </Select>
+          <Select label={t('rate.toCurrency')} value={toCurrency} onChange={e => setToCurrency(e.target.value as CurrencyCode)}>
+            {CURRENCY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{t(getCurrencyLabelKey(opt.value))}</option>)}
+          </Select>
+          <Input type="number" label={t('rate.rateLabel', { from: fromCurrency, to: toCurrency })} value={rate} onChange={e => setRate(e.target.value)} required min="0" step="any" placeholder={t('rate.placeholder')}/>
+          <div className="flex justify-end space-x-2 pt-2">
+            <Button type="button" variant="ghost" onClick={handleCloseModal} size="md">{t('common.cancel')}</Button>
+            <Button type="submit" variant="primary" size="md">{editingRate ? t('common.save') : t('common.add')}</Button>
+          </div>
+        </form>
+      </Modal>
+      {missingRateCurrencies.length > 0 && (
+        <p className="text-xs sm:text-sm text-yellow-600 dark:text-yellow-400 mb-3">
+          <i className="fas fa-exclamation-triangle mr-1"></i>{t('rate.missing', { currencies: missingRateCurrencies.join(', '), baseCurrency })}
+        </p>
+      )}
+      <ul className="space-y-2">
+        {exchangeRates.map(exchangeRate => (
+          <li key={exchangeRate.id} className="flex justify-between items-center p-2 sm:p-3 bg-slate-100 dark:bg-slate-700 rounded-md">
+            <div>
+              <p className="font-medium text-sm sm:text-base text-lightText dark:text-darkText">
+                1 {exchangeRate.fromCurrency} = {formatAmount(exchangeRate.rate, exchangeRate.toCurrency)}
+              </p>
+              <p className="text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('rate.updated', { date: formatDate(exchangeRate.updatedAt) })}</p>
+            </div>
+            <div className="space-x-0 sm:space-x-1 flex-shrink-0">
+              <Button variant="ghost" size="sm" onClick={() => handleOpenModal(exchangeRate)} className="p-1 text-blue-500"><i className="fas fa-edit"></i></Button>
+              <Button variant="ghost" size="sm" onClick={() => deleteExchangeRate(exchangeRate.id)} className="p-1 text-red-500"><i className="fas fa-trash"></i></Button>
+            </div>
+          </li>
+        ))}
+        {exchangeRates.length === 0 && <p className="text-center py-4 text-sm text-lightTextSecondary dark:text-darkTextSecondary">{t('rate.empty')}</p>}
       </ul>
     </Card>
   );
@@ -1422,85 +6226,713 @@ const AccountManagement: React.FC = () => {
 
 const PreferencesSettings: React.FC = () => {
     const { theme, toggleTheme } = useTheme();
-    const [language, setLanguage] = useState('id');
-    const [currency, setCurrency] = useState('IDR');
-    const [dateFormat, setDateFormat] = useState('DD/MM/YYYY');
+    const { settings, updateSettings } = useSettings();
+    const { changeBaseCurrency } = useData();
+    const { t } = useTranslation();
 
     return (
         <Card>
-            <h2 className="text-lg sm:text-xl font-semibold mb-4 sm:mb-6 text-lightText dark:text-darkText">Preferensi Aplikasi</h2>
+            <h2 className="text-lg sm:text-xl font-semibold mb-4 sm:mb-6 text-lightText dark:text-darkText">{t('preferences.title')}</h2>
             <div className="space-y-4 sm:space-y-6">
                 <div>
-                    <label className="block text-sm font-medium text-lightTextSecondary dark:text-darkTextSecondary mb-1">Tema Aplikasi</label>
+                    <label className="block text-sm font-medium text-lightTextSecondary dark:text-darkTextSecondary mb-1">{t('preferences.theme')}</label>
                     <Button onClick={toggleTheme} variant="secondary" size="md">
-                        Mode {theme === ThemeMode.LIGHT ? 'Gelap' : 'Terang'}
+                        {t(theme === ThemeMode.LIGHT ? 'preferences.darkMode' : 'preferences.lightMode')}
                     </Button>
                 </div>
-                <Select label="Bahasa (UI Placeholder)" value={language} onChange={e => setLanguage(e.target.value)}>
+                <Select label={t('preferences.language')} value={settings.language} onChange={e => updateSettings({ language: e.target.value as Settings['language'] })}>
                     <option value="id">Bahasa Indonesia</option>
-                    <option value="en" disabled>English (Soon)</option>
-                </Select>
-                 <Select label="Mata Uang (UI Placeholder)" value={currency} onChange={e => setCurrency(e.target.value)}>
-                    <option value="IDR">Rupiah (IDR)</option>
-                    <option value="USD" disabled>US Dollar (USD) (Soon)</option>
+                    <option value="en">English</option>
                 </Select>
-                <Select label="Format Tanggal (UI Placeholder)" value={dateFormat} onChange={e => setDateFormat(e.target.value)}>
-                    <option value="DD/MM/YYYY">DD/MM/YYYY</option>
-                    <option value="DD MonthName YYYY" disabled>DD NamaBulan YYYY (Soon)</option>
+                <div>
+                    <Select label={t('preferences.baseCurrency')} value={settings.currency} onChange={e => changeBaseCurrency(e.target.value as CurrencyCode)}>
+                        {CURRENCY_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{t(getCurrencyLabelKey(opt.value))}</option>)}
+                    </Select>
+                    <p className="mt-1 text-xs text-lightTextSecondary dark:text-darkTextSecondary">{t('preferences.baseCurrencyHint')}</p>
+                </div>
+                <Select label={t('preferences.dateFormat')} value={settings.dateFormat} onChange={e => updateSettings({ dateFormat: e.target.value as Settings['dateFormat'] })}>
+                    {DATE_FORMAT_OPTIONS.map(format => <option key={format} value={format}>{format} ({formatDateID(new Date().toISOString(), format)})</option>)}
                 </Select>
             </div>
         </Card>
     );
 };
 
+// CSV Import Components
+type ImportField = 'date' | 'description' | 'amount' | 'type' | 'category' | 'account';
+
+const IMPORT_FIELDS: { key: ImportField; label: MessageKey; required: boolean; pattern: RegExp }[] = [
+  { key: 'date', label: 'common.date', required: true, pattern: /tanggal|tgl|date|waktu/i },
+  { key: 'description', label: 'common.description', required: true, pattern: /deskripsi|keterangan|uraian|description|memo|catatan|detail/i },
+  { key: 'amount', label: 'common.amount', required: true, pattern: /jumlah|nominal|amount|nilai|mutasi/i },
+  { key: 'type', label: 'import.field.type', required: false, pattern: /tipe|jenis|type|db\/cr|d\/k/i },
+  { key: 'category', label: 'common.category', required: false, pattern: /kategori|category/i },
+  { key: 'account', label: 'common.account', required: false, pattern: /akun|account|rekening|dompet/i },
+];
+
+interface ImportRowMessage {
+  message: MessageKey;
+  params?: MessageParams;
+}
+
+interface ImportPreviewRow {
+  index: number;
+  description: string;
+  date?: string;
+  amount?: number;
+  type: CategoryType;
+  categoryId: string;
+  accountId: string;
+  tags?: string[];
+  ruleName?: string; // The categorization rule that filled in the row
+  errors: ImportRowMessage[];
+  warnings: ImportRowMessage[];
+  isDuplicate: boolean;
+}
+
+const guessColumnMapping = (header: string[]): Record<ImportField, number> => {
+  const mapping = {} as Record<ImportField, number>;
+  IMPORT_FIELDS.forEach(field => {
+    mapping[field.key] = header.findIndex(cell => field.pattern.test(cell));
+  });
+  return mapping;
+};
+
+// Same day, account, type and amount is treated as the same transaction; descriptions differ too often between sources.
+const getDuplicateKey = (tx: { date: string; accountId: string; type: TransactionType; amount: number }) =>
+  `${tx.date.split('T')[0]}|${tx.accountId}|${tx.type}|${tx.amount}`;
+
+const resolveImportType = (rawType: string, rawAmount: string, amount: number, fallbackType: CategoryType | 'sign'): CategoryType | null => {
+  const value = rawType.trim().toLowerCase();
+  if (value) {
+    if (/^(cr|k|kredit|credit|masuk|pemasukan|income|in)$/.test(value)) return CategoryType.INCOME;
+    if (/^(db|d|debit|debet|keluar|pengeluaran|expense|out)$/.test(value)) return CategoryType.EXPENSE;
+    return null;
+  }
+  if (/\bCR\b/i.test(rawAmount)) return CategoryType.INCOME;
+  if (/\bDB\b/i.test(rawAmount)) return CategoryType.EXPENSE;
+  if (fallbackType !== 'sign') return fallbackType;
+  return amount < 0 ? CategoryType.EXPENSE : CategoryType.INCOME;
+};
+
+const CsvImportWizard: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { formatDate, formatAmount } = useFormatters();
+  const { categories, accounts, transactions, rules, addTransaction, getAccountCurrency } = useData();
+  const { t, getCategoryName } = useTranslation();
+  const [step, setStep] = useState<'upload' | 'mapping' | 'preview'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<Record<ImportField, number>>(guessColumnMapping([]));
+  const { settings } = useSettings();
+  const [dateFormat, setDateFormat] = useState<Settings['dateFormat']>(settings.dateFormat);
+  const [fallbackType, setFallbackType] = useState<CategoryType | 'sign'>('sign');
+  const [defaultAccountId, setDefaultAccountId] = useState(accounts[0]?.id || '');
+  const [defaultExpenseCategoryId, setDefaultExpenseCategoryId] = useState(categories.find(c => c.type === CategoryType.EXPENSE)?.id || '');
+  const [defaultIncomeCategoryId, setDefaultIncomeCategoryId] = useState(categories.find(c => c.type === CategoryType.INCOME)?.id || '');
+  const [selectionOverrides, setSelectionOverrides] = useState<Record<number, boolean>>({});
+
+  const columnCount = useMemo(() => rows.reduce((max, r) => Math.max(max, r.length), 0), [rows]);
+  const columnLabels = useMemo(() => Array.from({ length: columnCount }, (_, i) =>
+    hasHeader && rows[0]?.[i]?.trim() ? rows[0][i].trim() : t('import.columnN', { n: i + 1 })
+  ), [columnCount, hasHeader, rows, t]);
+  const dataRows = useMemo(() => hasHeader ? rows.slice(1) : rows, [rows, hasHeader]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const parsedRows = parseCSV(await file.text());
+    if (parsedRows.length === 0) {
+      alert(t('import.emptyFile'));
+      return;
+    }
+    setFileName(file.name);
+    setRows(parsedRows);
+    setMapping(guessColumnMapping(parsedRows[0]));
+    setSelectionOverrides({});
+    setStep('mapping');
+  };
+
+  const previewRows: ImportPreviewRow[] = useMemo(() => {
+    const existingCounts = new Map<string, number>();
+    transactions.forEach(tx => {
+      const key = getDuplicateKey(tx);
+      existingCounts.set(key, (existingCounts.get(key) || 0) + 1);
+    });
+    const cell = (row: string[], field: ImportField) => mapping[field] >= 0 ? (row[mapping[field]] || '').trim() : '';
+
+    return dataRows.map((row, index) => {
+      const errors: ImportRowMessage[] = [];
+      const warnings: ImportRowMessage[] = [];
+
+      const description = cell(row, 'description');
+      if (!description) errors.push({ message: 'import.error.noDescription' });
+
+      const date = parseDateString(cell(row, 'date'), dateFormat) || undefined;
+      if (!date) errors.push({ message: 'import.error.invalidDate' });
+
+      const rawAmount = cell(row, 'amount');
+      const signedAmount = parseAmountString(rawAmount);
+      if (signedAmount === null || signedAmount === 0) errors.push({ message: 'import.error.invalidAmount' });
+
+      const amount = signedAmount !== null ? Math.abs(signedAmount) : undefined;
+
+      const accountName = cell(row, 'account').toLowerCase();
+      const matchedAccount = accountName ? accounts.find(acc => acc.name.toLowerCase() === accountName) : undefined;
+      if (accountName && !matchedAccount) warnings.push({ message: 'import.warning.accountNotFound', params: { name: cell(row, 'account') } });
+      const accountId = matchedAccount?.id || defaultAccountId;
+      if (!accountId) errors.push({ message: 'import.error.noAccount' });
+
+      // Rules only fill in what the file leaves open: they never contradict the type it gives, and a category named in the file wins
+      const resolvedType = resolveImportType(cell(row, 'type'), rawAmount, signedAmount || 0, fallbackType);
+      const rule = description
+        ? findMatchingRule(rules.filter(r => !resolvedType || r.type === resolvedType), { description, amount: amount || 0, accountId })
+        : undefined;
+      if (!resolvedType && !rule) errors.push({ message: 'import.error.unknownType' });
+      const type = resolvedType || rule?.type || CategoryType.EXPENSE;
+
+      const categoryName = cell(row, 'category').toLowerCase();
+      const matchedCategory = categoryName
+        ? categories.find(c => c.type === type && (c.name.toLowerCase() === categoryName || getCategoryName(c).toLowerCase() === categoryName))
+        : undefined;
+      if (categoryName && !matchedCategory) warnings.push({ message: 'import.warning.categoryNotFound', params: { name: cell(row, 'category') } });
+      const categoryId = matchedCategory?.id || rule?.categoryId || (type === CategoryType.INCOME ? defaultIncomeCategoryId : defaultExpenseCategoryId);
+      if (!categoryId) errors.push({ message: 'import.error.noCategory' });
+      let isDuplicate = false;
+      if (errors.length === 0 && date && amount !== undefined) {
+        const key = getDuplicateKey({ date, accountId, type, amount });
+        const remaining = existingCounts.get(key) || 0;
+        if (remaining > 0) {
+          isDuplicate = true;
+          existingCounts.set(key, remaining - 1);
+        }
+      }
+
+      return { index, description, date, amount, type, categoryId, accountId, tags: rule?.tags, ruleName: rule?.name, errors, warnings, isDuplicate };
+    });
+  }, [dataRows, mapping, dateFormat, fallbackType, categories, accounts, transactions, rules, defaultAccountId, defaultExpenseCategoryId, defaultIncomeCategoryId, getCategoryName]);
+
+  const isRowSelected = (row: ImportPreviewRow) =>
+    row.errors.length === 0 && (selectionOverrides[row.index] ?? !row.isDuplicate);
+
+  const selectedCount = previewRows.filter(isRowSelected).length;
+  const errorCount = previewRows.filter(r => r.errors.length > 0).length;
+  const duplicateCount = previewRows.filter(r => r.isDuplicate).length;
+  const missingRequiredFields = IMPORT_FIELDS.filter(f => f.required && mapping[f.key] < 0);
+
+  const handleImport = () => {
+    const rowsToImport = previewRows.filter(isRowSelected);
+    if (rowsToImport.length === 0) {
+      alert(t('import.nothingSelected'));
+      return;
+    }
+    rowsToImport.forEach(row => addTransaction({
+      description: row.description,
+      amount: row.amount!,
+      date: row.date!,
+      type: row.type,
+      categoryId: row.categoryId,
+      accountId: row.accountId,
+      tags: row.tags,
+    }));
+    alert(t('import.success', { count: rowsToImport.length }));
+    onClose();
+  };
+
+  if (step === 'upload') {
+    return (
+      <div className="space-y-3 sm:space-y-4">
+        <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+          {t('import.uploadHint')}
+        </p>
+        <Input type="file" accept=".csv,text/csv" label={t('import.csvFile')} onChange={handleFileChange} />
+        <div className="flex justify-end pt-2">
+          <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.cancel')}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'mapping') {
+    return (
+      <div className="space-y-3 sm:space-y-4">
+        <p className="text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+          <i className="fas fa-file-csv mr-1"></i>{fileName} &mdash; {t('import.dataRows', { count: dataRows.length })}
+        </p>
+        <label className="flex items-center space-x-2 text-sm text-lightText dark:text-darkText">
+          <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} />
+          <span>{t('import.hasHeader')}</span>
+        </label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {IMPORT_FIELDS.map(field => (
+            <Select key={field.key} label={`${t(field.label)}${field.required ? ' *' : ''}`} value={mapping[field.key]}
+              onChange={e => setMapping(prev => ({ ...prev, [field.key]: parseInt(e.target.value, 10) }))}>
+              <option value={-1}>{t(field.required ? 'import.selectColumn' : 'import.notUsed')}</option>
+              {columnLabels.map((label, i) => <option key={i} value={i}>{label}</option>)}
+            </Select>
+          ))}
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Select label={t('preferences.dateFormat')} value={dateFormat} onChange={e => setDateFormat(e.target.value as Settings['dateFormat'])}>
+            {DATE_FORMAT_OPTIONS.map(format => <option key={format} value={format}>{format}</option>)}
+          </Select>
+          <Select label={t('import.fallbackType')} value={fallbackType} onChange={e => setFallbackType(e.target.value as CategoryType | 'sign')}>
+            <option value="sign">{t('import.fallback.sign')}</option>
+            <option value={CategoryType.EXPENSE}>{t('import.fallback.expense')}</option>
+            <option value={CategoryType.INCOME}>{t('import.fallback.income')}</option>
+          </Select>
+          <Select label={t('import.defaultAccount')} value={defaultAccountId} onChange={e => setDefaultAccountId(e.target.value)}>
+            <option value="" disabled={accounts.length > 0}>{t('transaction.selectAccount')}</option>
+            {accounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+          </Select>
+          <Select label={t('import.defaultExpenseCategory')} value={defaultExpenseCategoryId} onChange={e => setDefaultExpenseCategoryId(e.target.value)}>
+            <CategoryOptions categories={categories.filter(c => c.type === CategoryType.EXPENSE)} />
+          </Select>
+          <Select label={t('import.defaultIncomeCategory')} value={defaultIncomeCategoryId} onChange={e => setDefaultIncomeCategoryId(e.target.value)}>
+            <CategoryOptions categories={categories.filter(c => c.type === CategoryType.INCOME)} />
+          </Select>
+        </div>
+        {missingRequiredFields.length > 0 && (
+          <p className="text-xs text-red-500">{t('import.missingRequired', { fields: missingRequiredFields.map(f => t(f.label)).join(', ') })}</p>
+        )}
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button type="button" variant="ghost" onClick={() => setStep('upload')} size="md">{t('common.back')}</Button>
+          <Button type="button" variant="primary" onClick={() => setStep('preview')} size="md" disabled={missingRequiredFields.length > 0}>{t('import.preview')}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="flex flex-wrap gap-3 text-xs sm:text-sm">
+        <span className="text-green-600 dark:text-green-400"><i className="fas fa-check-circle mr-1"></i>{t('import.selected', { count: selectedCount })}</span>
+        <span className="text-yellow-600 dark:text-yellow-400"><i className="fas fa-clone mr-1"></i>{t('import.possibleDuplicates', { count: duplicateCount })}</span>
+        <span className="text-red-500"><i className="fas fa-exclamation-circle mr-1"></i>{t('import.invalid', { count: errorCount })}</span>
+      </div>
+      <div className="overflow-x-auto max-h-[50vh] border border-slate-200 dark:border-slate-700 rounded-md">
+        <table className="w-full min-w-[700px] text-xs sm:text-sm">
+          <thead className="border-b border-slate-200 dark:border-slate-700 sticky top-0 bg-lightSurface dark:bg-darkSurface">
+            <tr>
+              <th className="p-2"></th>
+              <th className="text-left p-2 font-semibold">{t('common.date')}</th>
+              <th className="text-left p-2 font-semibold">{t('common.description')}</th>
+              <th className="text-left p-2 font-semibold">{t('common.category')}</th>
+              <th className="text-left p-2 font-semibold">{t('common.account')}</th>
+              <th className="text-right p-2 font-semibold">{t('common.amount')}</th>
+              <th className="text-left p-2 font-semibold">{t('common.status')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {previewRows.map(row => (
+              <tr key={row.index} className={`border-b border-slate-100 dark:border-slate-700 ${row.errors.length > 0 ? 'opacity-60' : ''}`}>
+                <td className="p-2 text-center">
+                  <input type="checkbox" checked={isRowSelected(row)} disabled={row.errors.length > 0}
+                    onChange={e => setSelectionOverrides(prev => ({ ...prev, [row.index]: e.target.checked }))} />
+                </td>
+                <td className="p-2 whitespace-nowrap">{row.date ? formatDate(row.date) : '-'}</td>
+                <td className="p-2">{row.description || '-'}</td>
+                <td className="p-2">{getCategoryName(categories.find(c => c.id === row.categoryId)) || '-'}</td>
+                <td className="p-2">{accounts.find(acc => acc.id === row.accountId)?.name || '-'}</td>
+                <td className={`p-2 text-right whitespace-nowrap ${row.type === CategoryType.INCOME ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {row.amount !== undefined ? `${row.type === CategoryType.INCOME ? '+' : '-'} ${formatAmount(row.amount, getAccountCurrency(row.accountId))}` : '-'}
+                </td>
+                <td className="p-2">
+                  {row.errors.length > 0 && <p className="text-red-500">{row.errors.map(error => t(error.message, error.params)).join(', ')}</p>}
+                  {row.isDuplicate && <p className="text-yellow-600 dark:text-yellow-400">{t('import.possibleDuplicate')}</p>}
+                  {row.warnings.length > 0 && <p className="text-lightTextSecondary dark:text-darkTextSecondary">{row.warnings.map(warning => t(warning.message, warning.params)).join(', ')}</p>}
+                  {row.ruleName && <p className="text-indigo-700 dark:text-indigo-300"><i className="fas fa-magic mr-1"></i>{t('import.ruleApplied', { rule: row.ruleName })}</p>}
+                  {row.errors.length === 0 && !row.isDuplicate && row.warnings.length === 0 && <p className="text-green-600 dark:text-green-400">{t('import.ready')}</p>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-end space-x-2 pt-2">
+        <Button type="button" variant="ghost" onClick={() => setStep('mapping')} size="md">{t('common.back')}</Button>
+        <Button type="button" variant="primary" onClick={handleImport} size="md" disabled={selectedCount === 0}>{t('import.importCount', { count: selectedCount })}</Button>
+      </div>
+    </div>
+  );
+};
+
+// Data Export Components
+const DataExportForm: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { accounts, categories, transactions, budgets, recurringTransactions, exchangeRates, goals, loans, rules, baseCurrency, getCategoryById, getAccountById, getAccountCurrency, attachmentsSupported, loadAttachment } = useData();
+  const { t, getCategoryName } = useTranslation();
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [includeAttachments, setIncludeAttachments] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const filteredTransactions = useMemo(() => transactions.filter(tx => {
+    const txDay = formatDateForInput(tx.date);
+    return (!startDate || txDay >= startDate) && (!endDate || txDay <= endDate);
+  }), [transactions, startDate, endDate]);
+
+  const fileSuffix = startDate || endDate ? `${startDate || 'awal'}_${endDate || 'akhir'}` : formatDateForInput();
+
+  // The amount is signed for income (+) and expenses (-) only, so summing it gives the net cash flow. Transfers move money between
+  // accounts and fill in the sent and received amounts instead, with their fee in a column of its own.
+  const handleExportCSV = () => {
+    const header = [t('common.date'), t('common.description'), t('common.type'), t('common.category'), t('common.account'), t('common.amount'),
+      t('common.currency'), t('export.toAccount'), t('export.sentAmount'), t('export.receivedAmount'), t('export.fee'), t('transaction.tags'), t('transaction.notes')];
+    const rows = filteredTransactions.map(tx => [
+      formatDateForInput(tx.date),
+      tx.description,
+      t(tx.type === 'transfer' ? 'transaction.transfer' : tx.type === CategoryType.INCOME ? 'transaction.income' : 'common.expense'),
+      tx.splits && tx.splits.length > 0
+        ? tx.splits.map(line => t('export.splitLine', { category: getCategoryName(getCategoryById(line.categoryId)), amount: line.amount })).join('; ')
+        : getCategoryName(getCategoryById(tx.categoryId)),
+      getAccountById(tx.accountId)?.name || '',
+      tx.type === 'transfer' ? '' : tx.type === CategoryType.INCOME ? tx.amount : -tx.amount,
+      getAccountCurrency(tx.accountId),
+      tx.type === 'transfer' ? getAccountById(tx.toAccountId || '')?.name || '' : '',
+      tx.type === 'transfer' ? tx.amount : '',
+      tx.type === 'transfer' ? tx.toAmount ?? tx.amount : '',
+      tx.fee || '',
+      (tx.tags || []).join(', '),
+      tx.notes || '',
+    ]);
+    // BOM so spreadsheet apps detect UTF-8
+    downloadFile(`\uFEFF${toCSV([header, ...rows])}`, `transaksi-${fileSuffix}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  // Without the files, only the attachment names stay in the backup; their previews are left out as well
+  const handleExportJSON = async () => {
+    setIsExporting(true);
+    try {
+      const attachmentFiles: { id: string; dataUrl: string }[] = [];
+      if (includeAttachments) {
+        for (const attachment of filteredTransactions.flatMap(tx => tx.attachments || [])) {
+          const blob = await loadAttachment(attachment).catch(error => console.error('Error loading attachment:', error));
+          if (blob) attachmentFiles.push({ id: attachment.id, dataUrl: await blobToDataUrl(blob) });
+        }
+      }
+      const bundle = {
+        app: APP_NAME,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        dateRange: startDate || endDate ? { startDate: startDate || null, endDate: endDate || null } : null,
+        accounts,
+        categories,
+        transactions: includeAttachments ? filteredTransactions : filteredTransactions.map(tx => tx.attachments
+          ? { ...tx, attachments: tx.attachments.map(({ thumbnail, ...attachment }) => attachment) }
+          : tx),
+        attachmentFiles: includeAttachments ? attachmentFiles : undefined,
+        budgets,
+        recurringTransactions,
+        baseCurrency,
+        exchangeRates,
+        goals,
+        loans,
+        rules,
+      };
+      downloadFile(JSON.stringify(bundle, null, 2), `cadangan-keuangan-${fileSuffix}.json`, 'application/json');
+    } catch (error) {
+      console.error('Error exporting JSON:', error);
+      alert(t('export.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Input type="date" label={t('export.startDate')} value={startDate} onChange={e => setStartDate(e.target.value)} max={endDate || undefined} />
+        <Input type="date" label={t('export.endDate')} value={endDate} onChange={e => setEndDate(e.target.value)} min={startDate || undefined} />
+      </div>
+      <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+        {t('export.summary', { count: filteredTransactions.length, total: transactions.length })}
+      </p>
+      <div className="space-y-2">
+        <Button type="button" variant="primary" className="w-full" size="md" onClick={handleExportCSV} disabled={filteredTransactions.length === 0}>
+          <i className="fas fa-file-csv mr-2"></i>{t('export.csv')}
+        </Button>
+        {attachmentsSupported && (
+          <label className="flex items-center space-x-2 text-sm text-lightText dark:text-darkText">
+            <input type="checkbox" checked={includeAttachments} onChange={e => setIncludeAttachments(e.target.checked)} />
+            <span>{t('export.includeAttachments')}</span>
+          </label>
+        )}
+        <Button type="button" variant="secondary" className="w-full" size="md" onClick={handleExportJSON} disabled={isExporting}>
+          <i className="fas fa-file-code mr-2"></i>{t('export.json')}
+        </Button>
+      </div>
+      <div className="flex justify-end pt-2">
+        <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.close')}</Button>
+      </div>
+    </div>
+  );
+};
+
+// Balance Verification Components
+interface LedgerIssue {
+  transactionId: string;
+  description: string;
+  message: MessageKey;
+}
+
+// Transactions that would make derived balances wrong or that reference data which no longer exists
+const findLedgerIssues = (transactions: Transaction[], accounts: Account[], categories: Category[]): LedgerIssue[] => {
+  const accountIds = new Set(accounts.map(acc => acc.id));
+  const categoryIds = new Set(categories.map(cat => cat.id));
+  const issues: LedgerIssue[] = [];
+  transactions.forEach(tx => {
+    const addIssue = (message: MessageKey) => issues.push({ transactionId: tx.id, description: tx.description, message });
+    if (typeof tx.amount !== 'number' || !isFinite(tx.amount) || tx.amount <= 0) addIssue('ledger.invalidAmount');
+    if (tx.fee !== undefined && (!isFinite(tx.fee) || tx.fee < 0)) addIssue('ledger.invalidFee');
+    if (isNaN(new Date(tx.date).getTime())) addIssue('ledger.invalidDate');
+    if (!accountIds.has(tx.accountId)) addIssue('ledger.accountNotFound');
+    if (tx.type === 'transfer') {
+      if (!tx.toAccountId || !accountIds.has(tx.toAccountId)) addIssue('ledger.toAccountNotFound');
+      else if (tx.toAccountId === tx.accountId) addIssue('ledger.sameAccount');
+      else if (tx.toAmount === undefined && accounts.find(acc => acc.id === tx.accountId)?.currency !== accounts.find(acc => acc.id === tx.toAccountId)?.currency) {
+        addIssue('ledger.missingToAmount');
+      }
+    } else if (tx.splits && tx.splits.length > 0) {
+      if (tx.splits.some(line => !categoryIds.has(line.categoryId))) addIssue('ledger.splitCategoryNotFound');
+      const splitTotal = tx.splits.reduce((sum, line) => sum + line.amount, 0);
+      if (Math.abs(splitTotal - tx.amount) > 0.005) addIssue('ledger.splitTotalMismatch');
+    } else if (!categoryIds.has(tx.categoryId)) {
+      addIssue('ledger.categoryNotFound');
+    }
+  });
+  return issues;
+};
+
+const BalanceVerification: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { formatAmount } = useFormatters();
+  const { accounts, categories, transactions, updateAccount } = useData();
+  const { t } = useTranslation();
+  const [actualBalances, setActualBalances] = useState<Record<string, string>>({});
+
+  const accountSummaries = useMemo(() => accounts.map(acc => {
+    let inflow = 0;
+    let outflow = 0;
+    transactions.forEach(tx => getBalanceImpacts(tx).forEach(impact => {
+      if (impact.accountId !== acc.id) return;
+      if (impact.amount >= 0) inflow += impact.amount;
+      else outflow -= impact.amount;
+    }));
+    return { account: acc, inflow, outflow };
+  }), [accounts, transactions]);
+
+  const issues = useMemo(() => findLedgerIssues(transactions, accounts, categories), [transactions, accounts, categories]);
+
+  const handleAdjustOpeningBalance = (account: Account, discrepancy: number) => {
+    if (window.confirm(t('verify.confirmAdjust', { account: account.name, amount: formatAmount(discrepancy, account.currency) }))) {
+      updateAccount({ ...account, openingBalance: account.openingBalance + discrepancy });
+      setActualBalances(prev => ({ ...prev, [account.id]: '' }));
+    }
+  };
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary">
+        {t('verify.description')}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[640px] text-xs sm:text-sm">
+          <thead className="border-b border-slate-200 dark:border-slate-700">
+            <tr>
+              <th className="text-left p-2 font-semibold">{t('common.account')}</th>
+              <th className="text-right p-2 font-semibold">{t('verify.openingBalance')}</th>
+              <th className="text-right p-2 font-semibold">{t('verify.inflow')}</th>
+              <th className="text-right p-2 font-semibold">{t('verify.outflow')}</th>
+              <th className="text-right p-2 font-semibold">{t('verify.computedBalance')}</th>
+              <th className="text-right p-2 font-semibold">{t('verify.actualBalance')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {accountSummaries.map(({ account, inflow, outflow }) => {
+              const actualBalance = actualBalances[account.id] ? parseFloat(actualBalances[account.id]) : undefined;
+              const discrepancy = actualBalance !== undefined && !isNaN(actualBalance) ? actualBalance - account.balance : 0;
+              return (
+                <tr key={account.id} className="border-b border-slate-100 dark:border-slate-700 align-top">
+                  <td className="p-2">{account.name}</td>
+                  <td className="p-2 text-right whitespace-nowrap">{formatAmount(account.openingBalance, account.currency)}</td>
+                  <td className="p-2 text-right whitespace-nowrap text-green-600 dark:text-green-400">{formatAmount(inflow, account.currency)}</td>
+                  <td className="p-2 text-right whitespace-nowrap text-red-600 dark:text-red-400">{formatAmount(outflow, account.currency)}</td>
+                  <td className="p-2 text-right whitespace-nowrap font-semibold">{formatAmount(account.balance, account.currency)}</td>
+                  <td className="p-2 text-right">
+                    <Input type="number" value={actualBalances[account.id] || ''} placeholder="-" className="text-right"
+                      onChange={e => setActualBalances(prev => ({ ...prev, [account.id]: e.target.value }))} />
+                    {discrepancy !== 0 && (
+                      <div className="mt-1">
+                        <p className="text-xs text-red-500">{t('verify.difference', { amount: formatAmount(discrepancy, account.currency) })}</p>
+                        <button type="button" className="text-xs text-primary hover:underline" onClick={() => handleAdjustOpeningBalance(account, discrepancy)}>{t('verify.adjust')}</button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {issues.length > 0 ? (
+        <div>
+          <p className="text-sm font-semibold text-red-500 mb-1"><i className="fas fa-exclamation-triangle mr-1"></i>{t('verify.issuesFound', { count: issues.length })}</p>
+          <ul className="text-xs sm:text-sm space-y-1 max-h-40 overflow-y-auto">
+            {issues.map((issue, index) => (
+              <li key={`${issue.transactionId}-${index}`} className="text-lightText dark:text-darkText">
+                <span className="font-medium">{issue.description || issue.transactionId}</span>: {t(issue.message)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-green-600 dark:text-green-400"><i className="fas fa-check-circle mr-1"></i>{t('verify.noIssues', { count: transactions.length })}</p>
+      )}
+      <div className="flex justify-end pt-2">
+        <Button type="button" variant="ghost" onClick={onClose} size="md">{t('common.close')}</Button>
+      </div>
+    </div>
+  );
+};
+
 const DataManagementSettings: React.FC = () => {
-    const { resetAllData } = useData();
+    const { resetAllData, storageKind } = useData();
+    const { t } = useTranslation();
+    const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+    const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+    const [isVerifyModalOpen, setIsVerifyModalOpen] = useState(false);
     return (
         <Card>
-            <h2 className="text-lg sm:text-xl font-semibold mb-4 sm:mb-6 text-lightText dark:text-darkText">Manajemen Data</h2>
+            <h2 className="text-lg sm:text-xl font-semibold mb-2 text-lightText dark:text-darkText">{t('data.title')}</h2>
+            <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary mb-4 sm:mb-6">
+                <i className="fas fa-database mr-1"></i>
+                {t(storageKind === 'indexedDB' ? 'data.storageIndexedDB' : 'data.storageLocalStorage')}
+            </p>
+            <Modal isOpen={isImportModalOpen} onClose={() => setIsImportModalOpen(false)} title={t('data.importCsv')} size="xl">
+                <CsvImportWizard onClose={() => setIsImportModalOpen(false)} />
+            </Modal>
+            <Modal isOpen={isExportModalOpen} onClose={() => setIsExportModalOpen(false)} title={t('data.export')}>
+                <DataExportForm onClose={() => setIsExportModalOpen(false)} />
+            </Modal>
+            <Modal isOpen={isVerifyModalOpen} onClose={() => setIsVerifyModalOpen(false)} title={t('data.verify')} size="lg">
+                <BalanceVerification onClose={() => setIsVerifyModalOpen(false)} />
+            </Modal>
             <div className="space-y-3 sm:space-y-4">
-                <Button variant="secondary" className="w-full" size="md" onClick={() => alert('Fitur Impor CSV akan segera hadir!')}>
-                    <i className="fas fa-file-import mr-2"></i>Impor Data dari CSV
+                <Button variant="secondary" className="w-full" size="md" onClick={() => setIsImportModalOpen(true)}>
+                    <i className="fas fa-file-import mr-2"></i>{t('data.importCsv')}
+                </Button>
+                <Button variant="secondary" className="w-full" size="md" onClick={() => setIsExportModalOpen(true)}>
+                    <i className="fas fa-file-export mr-2"></i>{t('data.exportButton')}
                 </Button>
-                <Button variant="secondary" className="w-full" size="md" onClick={() => alert('Fitur Ekspor CSV akan segera hadir!')}>
-                    <i className="fas fa-file-export mr-2"></i>Ekspor Data ke CSV
+                <Button variant="secondary" className="w-full" size="md" onClick={() => setIsVerifyModalOpen(true)}>
+                    <i className="fas fa-balance-scale mr-2"></i>{t('data.verifyButton')}
                 </Button>
                 <Button variant="danger" className="w-full" size="md" onClick={resetAllData}>
-                    <i className="fas fa-trash-alt mr-2"></i>Reset Semua Data
+                    <i className="fas fa-trash-alt mr-2"></i>{t('storage.reset')}
                 </Button>
-                <p className="text-xs text-red-500 text-center">Perhatian: Reset data akan menghapus semua data Anda secara permanen.</p>
+                <p className="text-xs text-red-500 text-center">{t('data.resetWarning')}</p>
             </div>
         </Card>
     );
 };
 
 const ProfileSettings: React.FC = () => {
-    const { user } = useAuth();
-    const [currentEmail, setCurrentEmail] = useState(user?.email || '');
+    const { user, changePassword } = useAuth();
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { t } = useTranslation();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!currentPassword || !newPassword) {
+            alert(t('form.allFields'));
+            return;
+        }
+        if (newPassword !== confirmPassword) {
+            alert(t('auth.passwordMismatch'));
+            return;
+        }
+        setIsSubmitting(true);
+        const error = await changePassword(currentPassword, newPassword);
+        setIsSubmitting(false);
+        if (error) {
+            alert(t(error));
+            return;
+        }
+        setCurrentPassword('');
+        setNewPassword('');
+        setConfirmPassword('');
+        alert(t('profile.passwordChanged'));
+    };
     
     return (
         <Card>
-            <h2 className="text-lg sm:text-xl font-semibold mb-4 sm:mb-6 text-lightText dark:text-darkText">Pengaturan Profil</h2>
-            <form className="space-y-3 sm:space-y-4">
-                <Input label="Email Terdaftar" type="email" value={currentEmail} readOnly disabled className="bg-slate-100 dark:bg-slate-700"/>
-                <Input label="Kata Sandi Baru (UI Placeholder)" type="password" placeholder="Masukkan kata sandi baru"/>
-                <Input label="Konfirmasi Kata Sandi (UI Placeholder)" type="password" placeholder="Konfirmasi kata sandi baru"/>
-                <Button variant="primary" size="md" onClick={() => alert('Fungsi ubah profil akan segera hadir!')}>Simpan Perubahan</Button>
+            <h2 className="text-lg sm:text-xl font-semibold mb-4 sm:mb-6 text-lightText dark:text-darkText">{t('profile.title')}</h2>
+            <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+                <Input label={t('profile.email')} type="email" value={user?.email || ''} readOnly disabled className="bg-slate-100 dark:bg-slate-700"/>
+                <Input label={t('profile.currentPassword')} type="password" value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} autoComplete="current-password" required/>
+                <Input label={t('profile.newPassword')} type="password" value={newPassword} onChange={e => setNewPassword(e.target.value)} placeholder={t('profile.newPasswordPlaceholder')} autoComplete="new-password" required/>
+                <Input label={t('profile.confirmPassword')} type="password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} placeholder={t('profile.confirmPasswordPlaceholder')} autoComplete="new-password" required/>
+                <Button type="submit" variant="primary" size="md" disabled={isSubmitting}>{t('profile.save')}</Button>
             </form>
+            <EncryptionSettings />
         </Card>
     );
 };
 
+const EncryptionSettings: React.FC = () => {
+    const { isDataEncrypted, enableEncryption, disableEncryption, lock } = useAuth();
+    const [password, setPassword] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const { t } = useTranslation();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!password) return;
+        if (isDataEncrypted && !window.confirm(t('encryption.confirmDisable'))) return;
+        setIsSubmitting(true);
+        const error = await (isDataEncrypted ? disableEncryption(password) : enableEncryption(password));
+        setIsSubmitting(false);
+        if (error) alert(t(error));
+    };
+
+    return (
+        <div className="mt-6 pt-6 border-t border-slate-200 dark:border-slate-700">
+            <h3 className="text-md sm:text-lg font-semibold mb-2 text-lightText dark:text-darkText">
+                <i className={`fas ${isDataEncrypted ? 'fa-lock text-green-500' : 'fa-lock-open text-slate-400'} mr-2`}></i>{t('encryption.title')}
+            </h3>
+            <p className="text-xs sm:text-sm text-lightTextSecondary dark:text-darkTextSecondary mb-4">
+                {isDataEncrypted ? t('encryption.enabledDescription', { minutes: AUTO_LOCK_MINUTES }) : t('encryption.disabledDescription')}
+            </p>
+            <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+                <Input label={t('profile.currentPassword')} type="password" value={password} onChange={e => setPassword(e.target.value)} autoComplete="current-password" required/>
+                <div className="flex flex-wrap gap-2">
+                    <Button type="submit" variant={isDataEncrypted ? 'danger' : 'primary'} size="md" disabled={isSubmitting}>
+                        {isDataEncrypted ? t('encryption.disable') : t('encryption.enable')}
+                    </Button>
+                    {isDataEncrypted && (
+                        <Button type="button" variant="secondary" size="md" onClick={lock}><i className="fas fa-lock mr-2"></i>{t('encryption.lockNow')}</Button>
+                    )}
+                </div>
+            </form>
+        </div>
+    );
+};
+
 
 const SettingsPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'profile' | 'preferences' | 'categories' | 'accounts' | 'data'>('categories');
+  const [activeTab, setActiveTab] = useState<'profile' | 'preferences' | 'categories' | 'rules' | 'accounts' | 'currencies' | 'data'>('categories');
+  const { t } = useTranslation();
 
   const renderTabContent = () => {
     switch (activeTab) {
       case 'profile': return <ProfileSettings />;
       case 'preferences': return <PreferencesSettings />;
       case 'categories': return <CategoryManagement />;
+      case 'rules': return <RuleManagement />;
       case 'accounts': return <AccountManagement />;
+      case 'currencies': return <ExchangeRateManagement />;
       case 'data': return <DataManagementSettings />;
       default: return null;
     }
@@ -1522,14 +6954,16 @@ const SettingsPage: React.FC = () => {
 
   return (
     <div className="space-y-4 sm:space-y-6">
-      <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">Pengaturan</h1>
+      <h1 className="text-2xl sm:text-3xl font-bold text-lightText dark:text-darkText">{t('nav.settings')}</h1>
       <div className="flex flex-col md:flex-row md:space-x-4 lg:space-x-6 space-y-4 md:space-y-0">
         <nav className="md:w-1/4 lg:w-1/5 xl:w-1/6 flex flex-row md:flex-col overflow-x-auto pb-2 md:pb-0 md:space-x-0 space-x-2 md:space-y-1.5">
-            <TabButton tabKey="categories" icon="fas fa-tags">Kategori</TabButton>
-            <TabButton tabKey="accounts" icon="fas fa-credit-card">Akun</TabButton>
-            <TabButton tabKey="preferences" icon="fas fa-sliders-h">Preferensi</TabButton>
-            <TabButton tabKey="data" icon="fas fa-database">Data</TabButton>
-            <TabButton tabKey="profile" icon="fas fa-user-cog">Profil</TabButton>
+            <TabButton tabKey="categories" icon="fas fa-tags">{t('settings.tab.categories')}</TabButton>
+            <TabButton tabKey="rules" icon="fas fa-magic">{t('settings.tab.rules')}</TabButton>
+            <TabButton tabKey="accounts" icon="fas fa-credit-card">{t('settings.tab.accounts')}</TabButton>
+            <TabButton tabKey="currencies" icon="fas fa-exchange-alt">{t('settings.tab.currencies')}</TabButton>
+            <TabButton tabKey="preferences" icon="fas fa-sliders-h">{t('settings.tab.preferences')}</TabButton>
+            <TabButton tabKey="data" icon="fas fa-database">{t('settings.tab.data')}</TabButton>
+            <TabButton tabKey="profile" icon="fas fa-user-cog">{t('settings.tab.profile')}</TabButton>
         </nav>
         <div className="md:w-3/4 lg:w-4/5 xl:w-5/6">
           {renderTabContent()}
@@ -1545,7 +6979,7 @@ const App: React.FC = () => {
   return (
     <ThemeProvider>
       <AuthProvider>
-        <DataProvider>
+        <SettingsProvider>
           <HashRouter>
             <Routes>
               <Route path="/login" element={<LoginPage />} />
@@ -1554,22 +6988,27 @@ const App: React.FC = () => {
                 path="/*" 
                 element={
                   <ProtectedRoute>
-                    <MainLayout>
-                      <Routes>
-                        <Route path="/" element={<DashboardPage />} />
-                        <Route path="/transactions" element={<TransactionsPage />} />
-                        <Route path="/budgets" element={<BudgetsPage />} />
-                        <Route path="/reports" element={<ReportsPage />} />
-                        <Route path="/settings" element={<SettingsPage />} />
-                        <Route path="*" element={<Navigate to="/" replace />} />
-                      </Routes>
-                    </MainLayout>
+                    <DataProvider>
+                      <MainLayout>
+                        <Routes>
+                          <Route path="/" element={<DashboardPage />} />
+                          <Route path="/transactions" element={<TransactionsPage />} />
+                          <Route path="/recurring" element={<RecurringTransactionsPage />} />
+                          <Route path="/budgets" element={<BudgetsPage />} />
+                          <Route path="/goals" element={<GoalsPage />} />
+                          <Route path="/loans" element={<LoansPage />} />
+                          <Route path="/reports" element={<ReportsPage />} />
+                          <Route path="/settings" element={<SettingsPage />} />
+                          <Route path="*" element={<Navigate to="/" replace />} />
+                        </Routes>
+                      </MainLayout>
+                    </DataProvider>
                   </ProtectedRoute>
                 } 
               />
             </Routes>
           </HashRouter>
-        </DataProvider>
+        </SettingsProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -1,10 +1,33 @@
 
-import { Category, Account, AccountType, CategoryType } from './types';
+import { Category, StoredAccount, AccountType, CategoryType, CurrencyCode, Settings } from './types';
 
 export const APP_NAME = "Manajer Keuangan Pribadi";
-export const DEFAULT_CURRENCY = "IDR";
+export const DEFAULT_CURRENCY: CurrencyCode = "IDR";
 export const DEFAULT_LOCALE = "id-ID";
 
+// The theme is stored on its own, see ThemeProvider
+export const DEFAULT_SETTINGS: Omit<Settings, 'theme'> = {
+  language: 'id',
+  currency: DEFAULT_CURRENCY,
+  dateFormat: 'DD/MM/YYYY',
+};
+
+export const LANGUAGE_LOCALES: Record<Settings['language'], string> = {
+  id: DEFAULT_LOCALE,
+  en: 'en-US',
+};
+
+// Minutes without any input before encrypted data is locked again
+export const AUTO_LOCK_MINUTES = 10;
+
+// Largest receipt file that can be attached to a transaction
+export const MAX_ATTACHMENT_SIZE_MB = 10;
+
+// Share of the statement balance a credit card asks for at minimum
+export const CREDIT_CARD_MINIMUM_PAYMENT_PERCENT = 5;
+
+export const DATE_FORMAT_OPTIONS: Settings['dateFormat'][] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
 export const DEFAULT_INITIAL_CATEGORIES: Category[] = [
   // Expenses
   { id: 'cat-exp-1', name: 'Makanan & Minuman', type: CategoryType.EXPENSE, icon: 'fas fa-utensils', color: 'text-red-500' },
@@ -20,10 +43,10 @@ export const DEFAULT_INITIAL_CATEGORIES: Category[] = [
   { id: 'cat-inc-3', name: 'Investasi', type: CategoryType.INCOME, icon: 'fas fa-chart-line', color: 'text-cyan-500' },
 ];
 
-export const DEFAULT_INITIAL_ACCOUNTS: Account[] = [
-  { id: 'acc-1', name: 'Bank BCA', type: AccountType.BANK, balance: 10000000, icon: 'fas fa-university' },
-  { id: 'acc-2', name: 'GoPay', type: AccountType.EWALLET, balance: 500000, icon: 'fas fa-wallet' },
-  { id: 'acc-3', name: 'Tunai', type: AccountType.CASH, balance: 200000, icon: 'fas fa-money-bill-alt' },
+export const DEFAULT_INITIAL_ACCOUNTS: StoredAccount[] = [
+  { id: 'acc-1', name: 'Bank BCA', type: AccountType.BANK, currency: 'IDR', openingBalance: 10000000, icon: 'fas fa-university' },
+  { id: 'acc-2', name: 'GoPay', type: AccountType.EWALLET, currency: 'IDR', openingBalance: 500000, icon: 'fas fa-wallet' },
+  { id: 'acc-3', name: 'Tunai', type: AccountType.CASH, currency: 'IDR', openingBalance: 200000, icon: 'fas fa-money-bill-alt' },
 ];
 
 export const NProgressConfig = {
@@ -55,3 +78,14 @@ export const ACCOUNT_TYPE_OPTIONS = [
   { value: AccountType.CREDIT_CARD, label: 'Kartu Kredit', icon: 'fas fa-credit-card' },
   { value: AccountType.CASH, label: 'Tunai', icon: 'fas fa-money-bill-alt' },
 ];
+
+export const CURRENCY_OPTIONS: { value: CurrencyCode; label: string; fractionDigits: number }[] = [
+  { value: 'IDR', label: 'Rupiah (IDR)', fractionDigits: 0 },
+  { value: 'USD', label: 'US Dollar (USD)', fractionDigits: 2 },
+  { value: 'EUR', label: 'Euro (EUR)', fractionDigits: 2 },
+  { value: 'SGD', label: 'Dolar Singapura (SGD)', fractionDigits: 2 },
+  { value: 'MYR', label: 'Ringgit Malaysia (MYR)', fractionDigits: 2 },
+  { value: 'JPY', label: 'Yen Jepang (JPY)', fractionDigits: 0 },
+  { value: 'AUD', label: 'Dolar Australia (AUD)', fractionDigits: 2 },
+  { value: 'SAR', label: 'Riyal Saudi (SAR)', fractionDigits: 2 },
+];
@@ -0,0 +1,1451 @@
+import { Settings } from './types';
+
+export type MessageParams = { [name: string]: string | number };
+
+// Indonesian is the source language. Messages may contain {name} placeholders filled from MessageParams.
+const id = {
+  'recurrence.every': 'Setiap {unit}',
+  'recurrence.everyN': 'Setiap {interval} {unit}',
+  'recurrence.unit.daily': 'hari',
+  'recurrence.unit.weekly': 'minggu',
+  'recurrence.unit.monthly': 'bulan',
+  'recurrence.unit.yearly': 'tahun',
+  'recurrence.unitSingular.daily': 'hari',
+  'recurrence.unitSingular.weekly': 'minggu',
+  'recurrence.unitSingular.monthly': 'bulan',
+  'recurrence.unitSingular.yearly': 'tahun',
+  'recurrence.lastDay': ' (hari terakhir)',
+  'recurrence.dayOfMonth': ' (tgl {day})',
+  'recurrence.until': ', sampai {date}',
+
+  'storage.migration.1': 'Saldo akun dihitung dari saldo awal dan transaksi',
+  'storage.migration.2': 'Mata uang per akun',
+  'storage.collection.accounts': 'Akun',
+  'storage.collection.categories': 'Kategori',
+  'storage.collection.transactions': 'Transaksi',
+  'storage.collection.budgets': 'Anggaran',
+  'storage.collection.recurringTransactions': 'Transaksi Berulang',
+  'storage.collection.exchangeRates': 'Kurs',
+  'storage.label.storage': 'Penyimpanan',
+  'storage.label.version': 'Versi Data',
+  'storage.problem.unreadable': 'Data tidak dapat dibaca (JSON rusak).',
+  'storage.problem.unknownVersion': 'Versi data ({version}) tidak dikenali oleh aplikasi ini.',
+  'storage.problem.invalidFormat': 'Format data tidak valid.',
+  'storage.problem.invalidRecords': '{count} dari {total} data tidak valid.',
+  'storage.problem.inaccessible': 'Penyimpanan browser tidak dapat diakses.',
+  'storage.problem.migrationFailed': 'Migrasi data gagal.',
+
+  'category.cat-exp-1': 'Makanan & Minuman',
+  'category.cat-exp-2': 'Transportasi',
+  'category.cat-exp-3': 'Tagihan & Utilitas',
+  'category.cat-exp-4': 'Belanja',
+  'category.cat-exp-5': 'Hiburan',
+  'category.cat-exp-6': 'Kesehatan',
+  'category.cat-exp-7': 'Pendidikan',
+  'category.cat-inc-1': 'Gaji',
+  'category.cat-inc-2': 'Bonus',
+  'category.cat-inc-3': 'Investasi',
+
+  'storage.loading': 'Memuat data...',
+
+  'data.confirmReset': 'Apakah Anda yakin ingin mereset semua data keuangan? Tindakan ini tidak dapat diurungkan.',
+
+  'app.title': 'Management Keuangan',
+
+  'layout.toggleSidebar': 'Buka/tutup menu',
+  'layout.logout': 'Keluar',
+  'layout.menu': 'Menu',
+
+  'nav.dashboard': 'Dasbor',
+  'nav.transactions': 'Transaksi',
+  'nav.recurring': 'Berulang',
+  'nav.budgets': 'Anggaran',
+  'nav.reports': 'Laporan',
+  'nav.settings': 'Pengaturan',
+
+  'auth.loginTitle': 'Login Akun Anda',
+  'auth.email': 'Email',
+  'auth.emailPlaceholder': 'email@anda.com',
+  'auth.password': 'Kata Sandi',
+  'auth.login': 'Masuk',
+  'auth.noAccount': 'Belum punya akun?',
+  'auth.registerHere': 'Daftar di sini',
+  'auth.registerTitle': 'Buat Akun Baru',
+  'auth.confirmPassword': 'Konfirmasi Kata Sandi',
+  'auth.register': 'Daftar',
+  'auth.haveAccount': 'Sudah punya akun?',
+
+  'storage.confirmRepair': 'Data yang rusak akan dibuang dan data yang valid dipertahankan. Data yang merujuk ke akun atau kategori yang hilang akan dihubungkan ke akun atau kategori pengganti. Lanjutkan?',
+  'storage.confirmClear': 'Semua data keuangan akan dihapus dan diganti dengan data awal. Tindakan ini tidak dapat diurungkan.',
+  'storage.recoveryTitle': 'Data Tersimpan Bermasalah',
+  'storage.recoveryDescription': 'Sebagian data keuangan di browser ini tidak dapat dimuat. Unduh salinan data mentah sebelum memperbaiki atau mereset.',
+  'storage.downloadRaw': 'Unduh Data Mentah',
+  'storage.repair': 'Buang Data Rusak & Lanjutkan',
+  'storage.reset': 'Reset Semua Data',
+
+  'currency.missingRateNotice': 'Kurs {currencies} ke {baseCurrency} belum diatur, sehingga akun dengan mata uang tersebut tidak ikut dihitung. Atur kurs di Pengaturan → Kurs.',
+
+  'dashboard.noExpenseData': 'Tidak ada data pengeluaran.',
+  'dashboard.noIncomeExpenseData': 'Tidak ada data pendapatan/pengeluaran.',
+  'dashboard.noCashFlowData': 'Tidak ada data arus kas.',
+
+  'common.income': 'Pendapatan',
+  'common.expense': 'Pengeluaran',
+
+  'dashboard.netCashFlow': 'Arus Kas Bersih',
+
+  'transaction.transferFee': 'Biaya Transfer',
+
+  'common.other': 'Lainnya',
+
+  'dashboard.title': 'Dasbor Keuangan',
+  'dashboard.monthIncome': 'Pendapatan Bulan Ini',
+  'dashboard.monthExpenses': 'Pengeluaran Bulan Ini',
+  'dashboard.expenseBreakdown': 'Rincian Pengeluaran (Bulan Ini)',
+  'dashboard.incomeVsExpenses': 'Pendapatan vs Pengeluaran (6 Bln)',
+  'dashboard.netCashFlowTrend': 'Tren Arus Kas Bersih (6 Bln)',
+  'dashboard.upcoming': 'Transaksi Mendatang (30 Hari)',
+  'dashboard.manage': 'Kelola',
+  'dashboard.recentTransactions': 'Transaksi Terkini',
+  'dashboard.noTransactions': 'Belum ada transaksi.',
+
+  'transaction.transferLabel': 'Transfer: {from} → {to}',
+  'transaction.uncategorized': 'Tanpa Kategori',
+
+  'common.date': 'Tanggal',
+
+  'form.requiredFields': 'Harap isi semua kolom yang diperlukan.',
+
+  'transaction.sameAccountTransfer': 'Akun asal dan akun tujuan transfer harus berbeda.',
+  'transaction.missingRateForTransfer': 'Kurs {from} ke {to} belum diatur. Isi jumlah yang diterima di akun tujuan.',
+
+  'common.description': 'Deskripsi',
+
+  'transaction.amountWithCurrency': 'Jumlah ({currency})',
+  'transaction.amountPlaceholder': 'Contoh: 50000',
+
+  'common.type': 'Tipe',
+
+  'transaction.income': 'Pemasukan',
+  'transaction.transferBetweenAccounts': 'Transfer Antar Akun',
+
+  'common.category': 'Kategori',
+
+  'transaction.selectCategory': 'Pilih Kategori',
+  'transaction.noExpenseCategories': 'Tidak ada kategori pengeluaran',
+  'transaction.noIncomeCategories': 'Tidak ada kategori pemasukan',
+  'transaction.fromAccount': 'Dari Akun',
+
+  'common.account': 'Akun',
+
+  'transaction.selectAccount': 'Pilih Akun',
+  'transaction.noAccounts': 'Tidak ada akun',
+  'transaction.toAccount': 'Ke Akun',
+  'transaction.selectToAccount': 'Pilih Akun Tujuan',
+  'transaction.receivedAmount': 'Jumlah Diterima ({currency})',
+  'transaction.byExchangeRate': 'Sesuai kurs: {amount}',
+  'transaction.rateNotSet': 'Kurs belum diatur',
+  'transaction.feeWithCurrency': 'Biaya Transfer ({currency}, opsional)',
+  'transaction.feePlaceholder': 'Contoh: 6500',
+
+  'common.cancel': 'Batal',
+  'common.save': 'Simpan',
+  'common.add': 'Tambah',
+
+  'transaction.confirmDelete': 'Apakah Anda yakin ingin menghapus transaksi ini?',
+  'transaction.pageTitle': 'Manajemen Transaksi',
+  'transaction.addTransaction': 'Tambah Transaksi',
+  'transaction.editTransaction': 'Edit Transaksi',
+  'transaction.searchPlaceholder': 'Cari (deskripsi, kategori, akun, tag) atau #tag...',
+
+  'common.amount': 'Jumlah',
+  'common.actions': 'Aksi',
+
+  'transaction.recurringHint': 'Transaksi berulang',
+  'transaction.transfer': 'Transfer',
+  'transaction.received': 'Diterima {amount}',
+  'transaction.fee': 'Biaya {amount}',
+
+  'common.edit': 'Edit',
+  'common.delete': 'Hapus',
+
+  'transaction.noMatches': 'Belum ada transaksi yang cocok.',
+  'transaction.noun': 'Transaksi',
+
+  'recurring.endRequired': 'Harap isi tanggal berakhir atau jumlah kejadian.',
+  'recurring.endBeforeStart': 'Tanggal berakhir tidak boleh sebelum tanggal mulai.',
+  'recurring.startDate': 'Tanggal Mulai',
+  'recurring.frequency': 'Frekuensi',
+  'recurring.frequency.daily': 'Harian',
+  'recurring.frequency.weekly': 'Mingguan',
+  'recurring.frequency.monthly': 'Bulanan',
+  'recurring.frequency.yearly': 'Tahunan',
+  'recurring.interval': 'Setiap (periode)',
+  'recurring.dayOfMonth': 'Tanggal Setiap Bulan',
+  'recurring.sameAsStart': 'Sama dengan tanggal mulai',
+  'recurring.dayN': 'Tanggal {day}',
+  'recurring.lastDayOfMonth': 'Hari terakhir bulan',
+  'recurring.ends': 'Berakhir',
+  'recurring.ends.never': 'Tidak pernah',
+  'recurring.ends.date': 'Pada tanggal',
+  'recurring.ends.count': 'Setelah sejumlah kejadian',
+  'recurring.endDate': 'Tanggal Berakhir',
+  'recurring.occurrences': 'Jumlah Kejadian',
+  'recurring.noneScheduled': 'Tidak ada transaksi berulang yang dijadwalkan.',
+  'recurring.editOccurrence': 'Edit Satu Kejadian',
+  'recurring.modified': '(diubah)',
+  'recurring.editThisOccurrence': 'Edit kejadian ini',
+  'recurring.unskip': 'Batalkan lewati',
+  'recurring.skip': 'Lewati kejadian ini',
+  'recurring.confirmDelete': 'Apakah Anda yakin ingin menghapus transaksi berulang ini? Transaksi yang sudah tercatat tidak akan dihapus.',
+  'recurring.pageTitle': 'Transaksi Berulang',
+  'recurring.noun': 'Transaksi Berulang',
+  'recurring.add': 'Tambah Transaksi Berulang',
+  'recurring.edit': 'Edit Transaksi Berulang',
+  'recurring.finished': 'Selesai',
+  'recurring.next': 'Berikutnya: {date}',
+  'recurring.empty': 'Belum ada transaksi berulang. Tambahkan gaji, sewa atau langganan agar tercatat otomatis.',
+  'recurring.schedule60': 'Jadwal 60 Hari ke Depan',
+
+  'form.allFields': 'Harap isi semua kolom.',
+
+  'budget.expenseCategory': 'Kategori Pengeluaran',
+  'budget.amountWithCurrency': 'Jumlah Anggaran ({currency})',
+  'budget.period': 'Periode',
+  'budget.confirmDelete': 'Apakah Anda yakin ingin menghapus anggaran ini?',
+  'budget.pageTitle': 'Manajemen Anggaran',
+  'budget.noun': 'Anggaran',
+  'budget.add': 'Tambah Anggaran',
+  'budget.edit': 'Edit Anggaran',
+  'budget.periodLabel': 'Periode: {period}',
+  'budget.remaining': 'Sisa: {amount}',
+  'budget.over': 'Lebih: {amount}',
+  'budget.empty': 'Belum ada anggaran yang dibuat.',
+
+  'reports.title': 'Laporan Keuangan',
+  'reports.cashFlow': 'Laporan Arus Kas',
+  'reports.totalIncome': 'Total Pemasukan',
+  'reports.totalExpenses': 'Total Pengeluaran',
+  'reports.expenseByCategory': 'Pengeluaran per Kategori',
+
+  'accountType.bank': 'Bank',
+  'accountType.ewallet': 'E-Wallet',
+  'accountType.creditCard': 'Kartu Kredit',
+  'accountType.cash': 'Tunai',
+
+  'currency.IDR': 'Rupiah (IDR)',
+  'currency.USD': 'US Dollar (USD)',
+  'currency.EUR': 'Euro (EUR)',
+  'currency.SGD': 'Dolar Singapura (SGD)',
+  'currency.MYR': 'Ringgit Malaysia (MYR)',
+  'currency.JPY': 'Yen Jepang (JPY)',
+  'currency.AUD': 'Dolar Australia (AUD)',
+  'currency.SAR': 'Riyal Saudi (SAR)',
+
+  'category.inUseAlert': 'Kategori ini tidak dapat dihapus karena memiliki transaksi terkait.',
+  'category.confirmDelete': 'Apakah Anda yakin ingin menghapus kategori ini?',
+  'category.title': 'Manajemen Kategori',
+  'category.noun': 'Kategori',
+  'category.add': 'Tambah Kategori',
+  'category.edit': 'Edit Kategori',
+  'category.name': 'Nama Kategori',
+  'category.type': 'Tipe Kategori',
+
+  'common.icon': 'Ikon',
+
+  'category.color': 'Warna (Tailwind Class)',
+  'category.inUseHint': 'Kategori tidak dapat dihapus jika memiliki transaksi terkait.',
+  'category.empty': 'Belum ada kategori.',
+
+  'account.title': 'Manajemen Akun',
+  'account.noun': 'Akun',
+  'account.add': 'Tambah Akun',
+  'account.edit': 'Edit Akun',
+  'account.name': 'Nama Akun',
+  'account.type': 'Tipe Akun',
+
+  'common.currency': 'Mata Uang',
+
+  'account.currencyLocked': 'Mata uang tidak dapat diubah jika akun memiliki transaksi.',
+  'account.openingBalance': 'Saldo Awal ({currency})',
+  'account.openingBalanceHint': 'Saldo sebelum transaksi pertama. Saldo saat ini dihitung dari saldo awal dan semua transaksi. Untuk kartu kredit, isi tagihan yang belum dibayar sebagai angka negatif.',
+  'account.inUseHint': 'Akun tidak dapat dihapus jika memiliki transaksi terkait.',
+  'account.empty': 'Belum ada akun.',
+
+  'rate.sameCurrency': 'Mata uang asal dan tujuan harus berbeda.',
+  'rate.mustBePositive': 'Kurs harus lebih dari 0.',
+  'rate.duplicate': 'Kurs {from}/{to} sudah ada. Ubah kurs yang ada.',
+  'rate.title': 'Kurs Mata Uang',
+  'rate.noun': 'Kurs',
+  'rate.description': 'Total, grafik, dan anggaran ditampilkan dalam {baseCurrency}. Kurs berlaku dua arah dan dapat digabung, misalnya SGD → USD → {baseCurrency}.',
+  'rate.add': 'Tambah Kurs',
+  'rate.edit': 'Edit Kurs',
+  'rate.fromCurrency': 'Dari Mata Uang',
+  'rate.toCurrency': 'Ke Mata Uang',
+  'rate.rateLabel': 'Kurs (1 {from} = ... {to})',
+  'rate.placeholder': 'Contoh: 16250',
+  'rate.missing': 'Belum ada kurs untuk {currencies} ke {baseCurrency}.',
+  'rate.updated': 'Diperbarui {date}',
+  'rate.empty': 'Belum ada kurs.',
+
+  'preferences.title': 'Preferensi Aplikasi',
+  'preferences.theme': 'Tema Aplikasi',
+  'preferences.darkMode': 'Mode Gelap',
+  'preferences.lightMode': 'Mode Terang',
+  'preferences.language': 'Bahasa',
+  'preferences.baseCurrency': 'Mata Uang Dasar',
+  'preferences.baseCurrencyHint': 'Total, grafik, dan anggaran dikonversi ke mata uang ini memakai tabel kurs.',
+  'preferences.dateFormat': 'Format Tanggal',
+
+  'import.field.type': 'Tipe (Debit/Kredit)',
+  'import.columnN': 'Kolom {n}',
+  'import.emptyFile': 'File CSV kosong atau tidak dapat dibaca.',
+  'import.error.noDescription': 'Deskripsi kosong',
+  'import.error.invalidDate': 'Tanggal tidak valid',
+  'import.error.invalidAmount': 'Jumlah tidak valid',
+  'import.error.unknownType': 'Tipe tidak dikenali',
+  'import.warning.categoryNotFound': 'Kategori "{name}" tidak ditemukan',
+  'import.error.noCategory': 'Kategori belum dipilih',
+  'import.warning.accountNotFound': 'Akun "{name}" tidak ditemukan',
+  'import.error.noAccount': 'Akun belum dipilih',
+  'import.nothingSelected': 'Tidak ada baris yang dipilih untuk diimpor.',
+  'import.success': '{count} transaksi berhasil diimpor.',
+  'import.uploadHint': 'Pilih file CSV hasil ekspor mutasi bank atau e-wallet. Pemisah koma, titik koma dan tab dikenali otomatis.',
+  'import.csvFile': 'File CSV',
+  'import.dataRows': '{count} baris data',
+  'import.hasHeader': 'Baris pertama adalah judul kolom',
+  'import.selectColumn': 'Pilih Kolom',
+  'import.notUsed': 'Tidak digunakan',
+  'import.fallbackType': 'Jika Tipe Tidak Diketahui',
+  'import.fallback.sign': 'Dari tanda jumlah (negatif = pengeluaran)',
+  'import.fallback.expense': 'Semua pengeluaran',
+  'import.fallback.income': 'Semua pemasukan',
+  'import.defaultAccount': 'Akun Default',
+  'import.defaultExpenseCategory': 'Kategori Pengeluaran Default',
+  'import.defaultIncomeCategory': 'Kategori Pemasukan Default',
+  'import.missingRequired': 'Kolom wajib belum dipetakan: {fields}',
+
+  'common.back': 'Kembali',
+
+  'import.preview': 'Pratinjau',
+  'import.selected': '{count} dipilih',
+  'import.possibleDuplicates': '{count} kemungkinan duplikat',
+  'import.invalid': '{count} tidak valid',
+
+  'common.status': 'Status',
+
+  'import.possibleDuplicate': 'Kemungkinan duplikat',
+  'import.ready': 'Siap',
+  'import.importCount': 'Impor {count} Transaksi',
+
+  'export.toAccount': 'Akun Tujuan',
+  'export.sentAmount': 'Jumlah Dikirim',
+  'export.receivedAmount': 'Jumlah Diterima',
+  'export.fee': 'Biaya',
+  'export.startDate': 'Dari Tanggal (opsional)',
+  'export.endDate': 'Sampai Tanggal (opsional)',
+  'export.summary': '{count} dari {total} transaksi akan diekspor. Akun, kategori, anggaran, transaksi berulang dan kurs selalu disertakan dalam file JSON.',
+  'export.csv': 'Ekspor Transaksi (CSV)',
+  'export.json': 'Ekspor Semua Data (JSON)',
+
+  'common.close': 'Tutup',
+
+  'ledger.invalidAmount': 'Jumlah tidak valid',
+  'ledger.invalidFee': 'Biaya transfer tidak valid',
+  'ledger.invalidDate': 'Tanggal tidak valid',
+  'ledger.accountNotFound': 'Akun tidak ditemukan',
+  'ledger.toAccountNotFound': 'Akun tujuan transfer tidak ditemukan',
+  'ledger.sameAccount': 'Akun asal dan tujuan transfer sama',
+  'ledger.missingToAmount': 'Transfer antar mata uang tanpa jumlah diterima',
+  'ledger.categoryNotFound': 'Kategori tidak ditemukan',
+
+  'verify.confirmAdjust': 'Sesuaikan saldo awal {account} sebesar {amount} agar cocok dengan saldo sebenarnya?',
+  'verify.description': 'Saldo dihitung ulang dari saldo awal dan seluruh transaksi. Isi saldo sebenarnya (misalnya dari aplikasi bank) untuk memeriksa selisih.',
+  'verify.openingBalance': 'Saldo Awal',
+  'verify.inflow': 'Masuk',
+  'verify.outflow': 'Keluar',
+  'verify.computedBalance': 'Saldo Terhitung',
+  'verify.actualBalance': 'Saldo Sebenarnya',
+  'verify.difference': 'Selisih {amount}',
+  'verify.adjust': 'Sesuaikan saldo awal',
+  'verify.issuesFound': '{count} masalah ditemukan pada transaksi',
+  'verify.noIssues': 'Tidak ada masalah pada {count} transaksi.',
+
+  'data.title': 'Manajemen Data',
+  'data.storageIndexedDB': 'Data disimpan di IndexedDB browser ini.',
+  'data.storageLocalStorage': 'IndexedDB tidak tersedia; data disimpan di localStorage browser ini.',
+  'data.importCsv': 'Impor Data dari CSV',
+  'data.export': 'Ekspor Data',
+  'data.exportButton': 'Ekspor Data (CSV/JSON)',
+  'data.verify': 'Verifikasi Saldo',
+  'data.verifyButton': 'Verifikasi & Hitung Ulang Saldo',
+  'data.resetWarning': 'Perhatian: Reset data akan menghapus semua data Anda secara permanen.',
+
+  'profile.title': 'Pengaturan Profil',
+  'profile.email': 'Email Terdaftar',
+  'profile.newPassword': 'Kata Sandi Baru',
+  'profile.newPasswordPlaceholder': 'Masukkan kata sandi baru',
+  'profile.confirmPassword': 'Konfirmasi Kata Sandi Baru',
+  'profile.confirmPasswordPlaceholder': 'Konfirmasi kata sandi baru',
+  'profile.save': 'Ubah Kata Sandi',
+
+  'settings.tab.categories': 'Kategori',
+  'settings.tab.accounts': 'Akun',
+  'settings.tab.currencies': 'Kurs',
+  'settings.tab.preferences': 'Preferensi',
+  'settings.tab.data': 'Data',
+  'settings.tab.profile': 'Profil',
+
+  'transaction.filter.title': 'Filter',
+  'transaction.filter.reset': 'Reset Filter',
+  'transaction.filter.startDate': 'Dari Tanggal',
+  'transaction.filter.endDate': 'Sampai Tanggal',
+  'transaction.filter.minAmount': 'Jumlah Minimum ({currency})',
+  'transaction.filter.maxAmount': 'Jumlah Maksimum ({currency})',
+  'transaction.filter.allTypes': 'Semua Tipe',
+  'transaction.filter.transfersHaveNoCategory': 'Transfer tidak memiliki kategori.',
+  'transaction.filter.amountHint': 'Jumlah dibandingkan dalam mata uang akun masing-masing transaksi.',
+  'transaction.pagination.showing': 'Menampilkan {start}–{end} dari {total} transaksi',
+  'transaction.pagination.page': 'Halaman {page} dari {pageCount}',
+  'transaction.pagination.previous': 'Sebelumnya',
+  'transaction.pagination.next': 'Berikutnya',
+  'transaction.split.start': 'Pisah ke beberapa kategori',
+  'transaction.split.title': 'Rincian Kategori',
+  'transaction.split.removeLine': 'Hapus baris',
+  'transaction.split.addLine': 'Tambah baris',
+  'transaction.split.cancel': 'Satu kategori saja',
+  'transaction.split.remaining': 'Belum dibagi: {amount}',
+  'transaction.split.incompleteLine': 'Setiap baris rincian harus memiliki kategori dan jumlah lebih dari 0.',
+  'transaction.split.totalMismatch': 'Jumlah rincian harus sama dengan total transaksi. Selisih: {amount}.',
+
+  'export.splitLine': '{category}: {amount}',
+
+  'ledger.splitCategoryNotFound': 'Kategori pada rincian tidak ditemukan',
+  'ledger.splitTotalMismatch': 'Jumlah rincian kategori tidak sama dengan total',
+
+  'transaction.split.badge': 'Dipisah ({count})',
+
+  'budget.customPeriod': 'Setiap {days} hari',
+  'budget.alert.reached': 'Pengeluaran {category} telah mencapai {threshold}% dari anggaran: {spent} dari {available}.',
+  'budget.invalidPeriodDays': 'Panjang periode harus minimal 1 hari.',
+  'budget.invalidAlertThresholds': 'Batas peringatan harus berupa persentase positif yang dipisahkan koma.',
+  'budget.period.custom': 'Kustom',
+  'budget.periodDays': 'Panjang Periode (hari)',
+  'budget.rollover': 'Bawa sisa atau kelebihan anggaran ke periode berikutnya',
+  'budget.alertThresholds': 'Peringatan pada (% anggaran, pisahkan dengan koma)',
+  'budget.currentPeriod': 'Periode ini: {start} – {end}',
+  'budget.carriedOver': 'Dibawa dari periode lalu: {amount}',
+  'budget.history.title': 'Riwayat Anggaran: {category}',
+  'budget.history.show': 'Riwayat',
+  'budget.history.period': 'Periode',
+  'budget.history.budgeted': 'Dianggarkan',
+  'budget.history.actual': 'Aktual',
+  'budget.history.variance': 'Selisih',
+  'budget.history.averageOverspend': 'Rata-rata kelebihan',
+  'budget.history.overspentPeriods': 'Melebihi anggaran pada {count} dari {total} periode selesai',
+  'budget.history.suggestion': 'Saran untuk periode berikutnya (rata-rata {count} periode terakhir)',
+  'budget.history.applySuggestion': 'Terapkan',
+  'budget.history.noCompletedPeriods': 'Belum ada periode yang selesai.',
+  'budget.history.suggestionApplied': 'Jumlah anggaran menjadi {amount} mulai periode berikutnya ({date}).',
+
+  'reports.range': 'Rentang Waktu',
+  'reports.range.thisMonth': 'Bulan ini',
+  'reports.range.lastMonth': 'Bulan lalu',
+  'reports.range.thisQuarter': 'Kuartal ini',
+  'reports.range.yearToDate': 'Tahun berjalan',
+  'reports.range.allTime': 'Sepanjang waktu',
+  'reports.range.custom': 'Kustom',
+  'reports.comparedWith': '{start} – {end}, dibandingkan dengan {previousStart} – {previousEnd}',
+  'reports.allTimeRange': 'Semua transaksi, {start} – {end}',
+  'reports.categoryComparison': 'Perbandingan per Kategori',
+  'reports.accountComparison': 'Perubahan Saldo per Akun',
+  'reports.currentPeriod': 'Periode Ini',
+  'reports.previousPeriod': 'Periode Sebelumnya',
+  'reports.change': 'Perubahan',
+  'reports.noTransactions': 'Tidak ada transaksi pada kedua periode.',
+
+  'dashboard.noNetWorthData': 'Tidak ada data kekayaan bersih.',
+  'dashboard.netWorth': 'Kekayaan Bersih',
+  'dashboard.assets': 'Aset',
+  'dashboard.liabilities': 'Kewajiban',
+  'dashboard.netWorthTrend': 'Tren Kekayaan Bersih',
+  'dashboard.netWorthGranularity': 'Rentang tren kekayaan bersih',
+  'dashboard.netWorthMonthly': '12 bulan',
+  'dashboard.netWorthDaily': '30 hari',
+
+  'account.invalidDay': 'Tanggal tutup buku dan jatuh tempo harus antara 1 dan 31.',
+  'account.dueDayNeedsClosingDay': 'Isi tanggal tutup buku agar jatuh tempo dapat dihitung.',
+  'account.creditLimit': 'Limit Kredit ({currency})',
+  'account.statementClosingDay': 'Tanggal Tutup Buku',
+  'account.paymentDueDay': 'Tanggal Jatuh Tempo',
+  'account.availableCredit': 'Kredit tersedia: {amount} dari {limit}',
+
+  'creditCard.title': 'Tagihan Kartu Kredit',
+  'creditCard.statement': 'Tagihan {date}: {amount}',
+  'creditCard.available': 'Kredit tersedia {amount}',
+  'creditCard.settled': 'Lunas',
+  'creditCard.due': 'Jatuh tempo {date}: sisa {amount}, minimum {minimum}',
+  'creditCard.overdue': 'Lewat jatuh tempo {date}: sisa {amount}, minimum {minimum}',
+  'creditCard.dueUnknown': 'Sisa {amount}, minimum {minimum}',
+  'creditCard.pay': 'Bayar',
+  'creditCard.payTitle': 'Bayar {card}',
+  'creditCard.payFrom': 'Bayar dari Akun',
+  'creditCard.paymentDescription': 'Pembayaran {card}',
+  'creditCard.noSourceAccounts': 'Tidak ada akun dalam {currency} untuk membayar kartu ini.',
+
+  'storage.collection.goals': 'Target Tabungan',
+
+  'nav.goals': 'Target Tabungan',
+
+  'goal.pageTitle': 'Target Tabungan',
+  'goal.noun': 'Target',
+  'goal.add': 'Tambah Target',
+  'goal.edit': 'Edit Target',
+  'goal.confirmDelete': 'Apakah Anda yakin ingin menghapus target ini?',
+  'goal.empty': 'Belum ada target tabungan.',
+  'goal.name': 'Nama Target',
+  'goal.namePlaceholder': 'mis. Dana Darurat',
+  'goal.linkedAccount': 'Akun Tabungan',
+  'goal.noLinkedAccount': 'Tidak ada (catat setoran manual)',
+  'goal.linkedAccountHint': 'Jumlah terkumpul adalah perubahan saldo akun ini sejak tanggal mulai.',
+  'goal.manualHint': 'Catat setiap setoran atau penarikan pada target ini.',
+  'goal.targetAmount': 'Jumlah Target ({currency})',
+  'goal.targetDate': 'Tanggal Target',
+  'goal.targetBeforeStart': 'Tanggal target tidak boleh sebelum tanggal mulai.',
+  'goal.withdrawal': 'Penarikan',
+  'goal.contributionAmount': 'Jumlah ({currency})',
+  'goal.note': 'Catatan',
+  'goal.confirmDeleteContribution': 'Hapus setoran ini?',
+  'goal.noContributions': 'Belum ada setoran.',
+  'goal.addContribution': 'Setoran untuk {goal}',
+  'goal.contributions': 'Riwayat Setoran: {goal}',
+  'goal.contribute': 'Tambah setoran',
+  'goal.showContributions': 'Riwayat setoran',
+  'goal.targetDateLabel': 'Target: {date}',
+  'goal.progress': '{percent}% tercapai',
+  'goal.reached': 'Target tercapai!',
+  'goal.requiredMonthly': 'Perlu menabung {amount} per bulan',
+  'goal.monthlyPace': 'Laju 3 bulan terakhir: {amount} per bulan',
+  'goal.projectedDate': 'Perkiraan tercapai: {date}',
+  'goal.noProjection': 'Belum ada setoran terbaru untuk memperkirakan tanggal tercapai.',
+
+  'loan.installmentDescription': 'Cicilan {loan} {number}/{tenor}',
+
+  'storage.collection.loans': 'Pinjaman',
+
+  'nav.loans': 'Pinjaman',
+
+  'loan.pageTitle': 'Pinjaman & Cicilan',
+  'loan.noun': 'Pinjaman',
+  'loan.add': 'Tambah Pinjaman',
+  'loan.edit': 'Edit Pinjaman',
+  'loan.empty': 'Belum ada pinjaman.',
+  'loan.confirmDelete': 'Hapus pinjaman ini? Cicilan yang sudah dicatat tetap ada sebagai transaksi biasa.',
+  'loan.confirmPost': 'Catat cicilan ke-{number} sebesar {amount}?',
+  'loan.invalidTerms': 'Pokok harus lebih dari 0, bunga tidak boleh negatif, dan tenor minimal 1 bulan.',
+  'loan.name': 'Nama Pinjaman',
+  'loan.namePlaceholder': 'mis. KPR Rumah, Cicilan Motor',
+  'loan.paymentAccount': 'Dibayar dari Akun',
+  'loan.principal': 'Pokok Pinjaman ({currency})',
+  'loan.annualInterestRate': 'Bunga per Tahun (%)',
+  'loan.interestMethod': 'Metode Bunga',
+  'loan.interestMethod.annuity': 'Anuitas',
+  'loan.interestMethod.flat': 'Flat',
+  'loan.tenorMonths': 'Tenor (bulan)',
+  'loan.startDate': 'Tanggal Pencairan',
+  'loan.startDateHint': 'Cicilan pertama jatuh tempo satu bulan setelah tanggal pencairan.',
+  'loan.principalCategory': 'Kategori Pokok',
+  'loan.interestCategory': 'Kategori Bunga',
+  'loan.scheduleTitle': 'Jadwal Angsuran: {loan}',
+  'loan.showSchedule': 'Jadwal angsuran',
+  'loan.dueDate': 'Jatuh Tempo',
+  'loan.installment': 'Angsuran',
+  'loan.principalPart': 'Pokok',
+  'loan.interestPart': 'Bunga',
+  'loan.remainingBalance': 'Sisa Pokok',
+  'loan.paid': 'Lunas',
+  'loan.terms': '{principal} · {rate}% per tahun ({method}) · {tenor} bulan',
+  'loan.remainingBalanceLabel': 'Sisa pokok: {amount}',
+  'loan.paidCount': '{paid}/{tenor} cicilan',
+  'loan.payoffDate': 'Lunas pada: {date}',
+  'loan.remainingInterest': 'Sisa bunga: {amount} dari {total}',
+  'loan.nextInstallment': 'Cicilan ke-{number}, jatuh tempo {date}: {amount}',
+  'loan.installmentBreakdown': 'Pokok {principal} + bunga {interest}',
+  'loan.post': 'Catat Pembayaran',
+  'loan.paidOff': 'Pinjaman sudah lunas.',
+
+  'auth.passwordTooShort': 'Kata sandi minimal 8 karakter.',
+  'auth.emailTaken': 'Email ini sudah terdaftar di perangkat ini.',
+  'auth.invalidCredentials': 'Email atau kata sandi salah.',
+  'auth.passwordMismatch': 'Konfirmasi kata sandi tidak cocok.',
+
+  'profile.wrongPassword': 'Kata sandi saat ini salah.',
+
+  'auth.localAccountNote': '(Akun hanya tersimpan di browser ini, dan data tiap akun terpisah)',
+
+  'profile.currentPassword': 'Kata Sandi Saat Ini',
+  'profile.passwordChanged': 'Kata sandi berhasil diubah.',
+
+  'auth.lockedTitle': 'Data Terkunci',
+  'auth.lockedDescription': 'Data {email} terenkripsi. Masukkan kata sandi untuk membukanya.',
+  'auth.unlock': 'Buka Kunci',
+
+  'encryption.title': 'Enkripsi Data',
+  'encryption.disabledDescription': 'Data keuangan Anda tersimpan tanpa enkripsi di browser ini. Aktifkan enkripsi agar data hanya bisa dibaca setelah memasukkan kata sandi.',
+  'encryption.enabledDescription': 'Data keuangan Anda terenkripsi (AES-GCM) dengan kunci dari kata sandi Anda, dan terkunci otomatis setelah {minutes} menit tanpa aktivitas. Jika kata sandi hilang, data tidak dapat dipulihkan.',
+  'encryption.enable': 'Aktifkan Enkripsi',
+  'encryption.disable': 'Matikan Enkripsi',
+  'encryption.lockNow': 'Kunci Sekarang',
+  'encryption.confirmDisable': 'Matikan enkripsi? Data akan disimpan kembali tanpa enkripsi.',
+
+  'transaction.tags': 'Tag',
+  'transaction.tagsPlaceholder': 'mis. liburan-bali, kantor, reimburse',
+  'transaction.removeTag': 'Hapus tag',
+  'transaction.filterByTag': 'Tampilkan transaksi dengan tag ini',
+  'transaction.notes': 'Catatan',
+  'transaction.notesPlaceholder': 'Catatan tambahan (opsional)',
+
+  'reports.expenseByTag': 'Pengeluaran per Tag',
+  'reports.tagCategories': 'Kategori (periode ini)',
+  'reports.noTaggedExpenses': 'Tidak ada pengeluaran bertag pada kedua periode.',
+
+  'transaction.attachment.title': 'Lampiran Struk',
+  'transaction.attachment.add': 'Lampirkan foto atau PDF (maks. {size} MB)',
+  'transaction.attachment.remove': 'Hapus lampiran',
+  'transaction.attachment.rejected': 'Hanya foto atau PDF hingga {size} MB yang bisa dilampirkan.',
+  'transaction.attachment.saveFailed': 'Lampiran tidak dapat disimpan.',
+  'transaction.attachment.unsupported': 'Lampiran membutuhkan IndexedDB, yang tidak tersedia di browser ini.',
+  'transaction.attachment.download': 'Unduh',
+  'transaction.attachment.missing': 'File lampiran tidak ditemukan.',
+
+  'export.includeAttachments': 'Sertakan file lampiran struk di cadangan JSON (ukuran file lebih besar)',
+
+  'storage.collection.rules': 'Aturan kategori',
+
+  'rule.suggestion': 'Aturan "{rule}" menyarankan kategori {category}.',
+  'rule.apply': 'Terapkan',
+  'rule.dismiss': 'Abaikan saran',
+
+  'import.ruleApplied': 'Aturan: {rule}',
+
+  'category.usedByRuleAlert': 'Kategori ini tidak dapat dihapus karena dipakai oleh aturan kategori. Ubah atau hapus aturannya terlebih dahulu.',
+
+  'rule.title': 'Aturan Kategori',
+  'rule.noun': 'Aturan',
+  'rule.add': 'Tambah Aturan',
+  'rule.edit': 'Edit Aturan',
+  'rule.empty': 'Belum ada aturan kategori.',
+  'rule.hint': 'Aturan mengisi kategori, jenis, dan tag secara otomatis: sebagai saran saat mencatat transaksi dan sebagai bawaan saat impor CSV. Aturan teratas yang cocok yang dipakai.',
+  'rule.confirmDelete': 'Hapus aturan ini?',
+  'rule.name': 'Nama Aturan',
+  'rule.namePlaceholder': 'mis. Belanja bulanan',
+  'rule.conditions': 'Jika',
+  'rule.actions': 'Maka',
+  'rule.matchMode': 'Cocokkan Deskripsi',
+  'rule.matchMode.contains': 'Mengandung teks',
+  'rule.matchMode.regex': 'Ekspresi reguler',
+  'rule.descriptionPattern': 'Pola Deskripsi',
+  'rule.containsPlaceholder': 'mis. indomaret',
+  'rule.regexPlaceholder': 'mis. ^(gojek|grab)',
+  'rule.minAmount': 'Jumlah Minimum',
+  'rule.maxAmount': 'Jumlah Maksimum',
+  'rule.anyAmount': 'Berapa saja',
+  'rule.anyAccount': 'Semua akun',
+  'rule.deletedAccount': 'akun terhapus',
+  'rule.tags': 'Tambahkan Tag',
+  'rule.enabled': 'Aktif',
+  'rule.disabled': 'nonaktif',
+  'rule.enable': 'Aktifkan',
+  'rule.disable': 'Nonaktifkan',
+  'rule.moveUp': 'Naikkan prioritas',
+  'rule.moveDown': 'Turunkan prioritas',
+  'rule.noConditions': 'Isi setidaknya satu syarat: pola deskripsi, rentang jumlah, atau akun.',
+  'rule.invalidRegex': 'Ekspresi reguler tidak valid.',
+  'rule.invalidAmountRange': 'Jumlah minimum tidak boleh lebih besar dari jumlah maksimum.',
+  'rule.summary.contains': 'deskripsi mengandung "{pattern}"',
+  'rule.summary.regex': 'deskripsi cocok dengan /{pattern}/',
+  'rule.summary.minAmount': 'minimal {amount}',
+  'rule.summary.maxAmount': 'maksimal {amount}',
+  'rule.summary.account': 'akun {account}',
+  'rule.reapply.open': 'Terapkan ke Transaksi',
+  'rule.reapply.title': 'Terapkan Aturan ke Transaksi yang Ada',
+  'rule.reapply.hint': '{count} transaksi akan berubah. Transfer, transaksi terpecah, dan cicilan pinjaman tidak diubah.',
+  'rule.reapply.noChanges': 'Semua transaksi sudah sesuai dengan aturan.',
+  'rule.reapply.change': 'Perubahan',
+  'rule.reapply.applyCount': 'Terapkan {count} Perubahan',
+  'rule.reapply.success': '{count} transaksi diperbarui.',
+
+  'settings.tab.rules': 'Aturan Kategori',
+
+  'budget.includesSubcategories': 'Termasuk subkategori',
+
+  'category.withoutSubcategory': '{name} (tanpa subkategori)',
+
+  'chart.allCategories': 'Semua kategori',
+  'chart.drillDownHint': 'Klik kategori untuk melihat subkategorinya.',
+
+  'reports.showSubcategories': 'Tampilkan subkategori',
+  'reports.hideSubcategories': 'Sembunyikan subkategori',
+
+  'category.parent': 'Kategori Induk',
+  'category.noParent': 'Tidak ada (kategori utama)',
+  'category.hasSubcategoriesHint': 'Kategori ini memiliki subkategori, jadi tidak dapat menjadi subkategori atau berganti jenis.',
+  'category.hasSubcategoriesAlert': 'Kategori ini tidak dapat dihapus karena memiliki subkategori. Pindahkan atau hapus subkategorinya terlebih dahulu.',
+
+  'encryption.disableFailed': 'Data tidak dapat disimpan tanpa enkripsi, jadi enkripsi tetap aktif. Coba lagi nanti.',
+
+  'auth.dataKeyUnreadable': 'Kunci enkripsi data tidak dapat dibuka. Data tetap terkunci.',
+
+  'encryption.enableFailed': 'Enkripsi tidak dapat diaktifkan di browser ini.',
+
+  'storage.repairFailed': 'Data tidak dapat diperbaiki. Data dari versi aplikasi yang lebih baru atau yang gagal dimigrasi tidak diubah; unduh data mentah sebagai cadangan, lalu gunakan versi aplikasi yang lebih baru atau atur ulang data.',
+  'storage.loadFailedTitle': 'Data Tidak Dapat Dimuat',
+  'storage.loadFailed': 'Penyimpanan browser tidak dapat dibuka. Periksa izin penyimpanan browser, lalu coba lagi.',
+  'storage.blocked': 'Aplikasi ini masih terbuka di tab lain dengan versi lama. Tutup tab tersebut, lalu coba lagi.',
+  'storage.retry': 'Coba Lagi',
+  'storage.downloadFailed': 'Data mentah tidak dapat dibaca untuk diunduh.',
+  'storage.resetFailed': 'Data tidak dapat direset.',
+
+  'budget.amountChangeHint': 'Jumlah baru berlaku mulai periode berjalan; periode sebelumnya tetap memakai jumlah lamanya.',
+
+  'loan.termsLocked': 'Angsuran sudah dicatat, jadi ketentuan pinjaman tidak dapat diubah lagi. Nama dan kategori masih dapat diubah.',
+
+  'export.failed': 'Cadangan tidak dapat dibuat. Silakan coba lagi.',
+
+  'preferences.confirmBaseCurrencyConversion': 'Jumlah anggaran akan dikonversi dari {from} ke {to} memakai tabel kurs. Lanjutkan?',
+  'preferences.confirmBaseCurrencyWithoutRate': 'Tabel kurs tidak memiliki kurs dari {from} ke {to}, jadi jumlah anggaran tidak dapat dikonversi dan angkanya akan dibaca dalam {to}. Tetap ganti mata uang dasar?',
+
+  'storage.saveFailed': 'Perubahan pada {collections} belum tersimpan dan akan hilang saat halaman dimuat ulang.',
+  'storage.placeholderAccount': 'Akun yang Dipulihkan',
+  'storage.placeholderCategory': 'Kategori yang Dipulihkan',
+};
+
+export type MessageKey = keyof typeof id;
+
+// Every other bundle must translate every key
+const en: Record<MessageKey, string> = {
+  'recurrence.every': 'Every {unit}',
+  'recurrence.everyN': 'Every {interval} {unit}',
+  'recurrence.unit.daily': 'days',
+  'recurrence.unit.weekly': 'weeks',
+  'recurrence.unit.monthly': 'months',
+  'recurrence.unit.yearly': 'years',
+  'recurrence.unitSingular.daily': 'day',
+  'recurrence.unitSingular.weekly': 'week',
+  'recurrence.unitSingular.monthly': 'month',
+  'recurrence.unitSingular.yearly': 'year',
+  'recurrence.lastDay': ' (last day)',
+  'recurrence.dayOfMonth': ' (day {day})',
+  'recurrence.until': ', until {date}',
+
+  'storage.migration.1': 'Account balances derived from opening balance and transactions',
+  'storage.migration.2': 'Currency per account',
+  'storage.collection.accounts': 'Accounts',
+  'storage.collection.categories': 'Categories',
+  'storage.collection.transactions': 'Transactions',
+  'storage.collection.budgets': 'Budgets',
+  'storage.collection.recurringTransactions': 'Recurring Transactions',
+  'storage.collection.exchangeRates': 'Exchange Rates',
+  'storage.label.storage': 'Storage',
+  'storage.label.version': 'Data Version',
+  'storage.problem.unreadable': 'Data cannot be read (corrupt JSON).',
+  'storage.problem.unknownVersion': 'Data version ({version}) is not recognized by this app.',
+  'storage.problem.invalidFormat': 'Invalid data format.',
+  'storage.problem.invalidRecords': '{count} of {total} records are invalid.',
+  'storage.problem.inaccessible': 'Browser storage cannot be accessed.',
+  'storage.problem.migrationFailed': 'Data migration failed.',
+
+  'category.cat-exp-1': 'Food & Drinks',
+  'category.cat-exp-2': 'Transportation',
+  'category.cat-exp-3': 'Bills & Utilities',
+  'category.cat-exp-4': 'Shopping',
+  'category.cat-exp-5': 'Entertainment',
+  'category.cat-exp-6': 'Health',
+  'category.cat-exp-7': 'Education',
+  'category.cat-inc-1': 'Salary',
+  'category.cat-inc-2': 'Bonus',
+  'category.cat-inc-3': 'Investment',
+
+  'storage.loading': 'Loading data...',
+
+  'data.confirmReset': 'Are you sure you want to reset all financial data? This cannot be undone.',
+
+  'app.title': 'Finance Management',
+
+  'layout.toggleSidebar': 'Toggle sidebar',
+  'layout.logout': 'Log Out',
+  'layout.menu': 'Menu',
+
+  'nav.dashboard': 'Dashboard',
+  'nav.transactions': 'Transactions',
+  'nav.recurring': 'Recurring',
+  'nav.budgets': 'Budgets',
+  'nav.reports': 'Reports',
+  'nav.settings': 'Settings',
+
+  'auth.loginTitle': 'Log In to Your Account',
+  'auth.email': 'Email',
+  'auth.emailPlaceholder': 'you@email.com',
+  'auth.password': 'Password',
+  'auth.login': 'Log In',
+  'auth.noAccount': 'Don\'t have an account?',
+  'auth.registerHere': 'Sign up here',
+  'auth.registerTitle': 'Create a New Account',
+  'auth.confirmPassword': 'Confirm Password',
+  'auth.register': 'Sign Up',
+  'auth.haveAccount': 'Already have an account?',
+
+  'storage.confirmRepair': 'Corrupt data will be discarded and valid data kept. Data referring to a missing account or category is linked to a stand-in account or category. Continue?',
+  'storage.confirmClear': 'All financial data will be deleted and replaced with the initial data. This cannot be undone.',
+  'storage.recoveryTitle': 'Problem With Saved Data',
+  'storage.recoveryDescription': 'Some financial data in this browser could not be loaded. Download a copy of the raw data before repairing or resetting.',
+  'storage.downloadRaw': 'Download Raw Data',
+  'storage.repair': 'Discard Corrupt Data & Continue',
+  'storage.reset': 'Reset All Data',
+
+  'currency.missingRateNotice': 'No exchange rate from {currencies} to {baseCurrency} is set, so accounts in those currencies are left out. Set rates in Settings → Rates.',
+
+  'dashboard.noExpenseData': 'No expense data.',
+  'dashboard.noIncomeExpenseData': 'No income/expense data.',
+  'dashboard.noCashFlowData': 'No cash flow data.',
+
+  'common.income': 'Income',
+  'common.expense': 'Expense',
+
+  'dashboard.netCashFlow': 'Net Cash Flow',
+
+  'transaction.transferFee': 'Transfer Fee',
+
+  'common.other': 'Other',
+
+  'dashboard.title': 'Financial Dashboard',
+  'dashboard.monthIncome': 'Income This Month',
+  'dashboard.monthExpenses': 'Expenses This Month',
+  'dashboard.expenseBreakdown': 'Expense Breakdown (This Month)',
+  'dashboard.incomeVsExpenses': 'Income vs Expenses (6 Mo)',
+  'dashboard.netCashFlowTrend': 'Net Cash Flow Trend (6 Mo)',
+  'dashboard.upcoming': 'Upcoming Transactions (30 Days)',
+  'dashboard.manage': 'Manage',
+  'dashboard.recentTransactions': 'Recent Transactions',
+  'dashboard.noTransactions': 'No transactions yet.',
+
+  'transaction.transferLabel': 'Transfer: {from} → {to}',
+  'transaction.uncategorized': 'Uncategorized',
+
+  'common.date': 'Date',
+
+  'form.requiredFields': 'Please fill in all required fields.',
+
+  'transaction.sameAccountTransfer': 'The source and destination accounts of a transfer must be different.',
+  'transaction.missingRateForTransfer': 'No exchange rate from {from} to {to} is set. Enter the amount received in the destination account.',
+
+  'common.description': 'Description',
+
+  'transaction.amountWithCurrency': 'Amount ({currency})',
+  'transaction.amountPlaceholder': 'e.g. 50000',
+
+  'common.type': 'Type',
+
+  'transaction.income': 'Income',
+  'transaction.transferBetweenAccounts': 'Transfer Between Accounts',
+
+  'common.category': 'Category',
+
+  'transaction.selectCategory': 'Select Category',
+  'transaction.noExpenseCategories': 'No expense categories',
+  'transaction.noIncomeCategories': 'No income categories',
+  'transaction.fromAccount': 'From Account',
+
+  'common.account': 'Account',
+
+  'transaction.selectAccount': 'Select Account',
+  'transaction.noAccounts': 'No accounts',
+  'transaction.toAccount': 'To Account',
+  'transaction.selectToAccount': 'Select Destination Account',
+  'transaction.receivedAmount': 'Amount Received ({currency})',
+  'transaction.byExchangeRate': 'By exchange rate: {amount}',
+  'transaction.rateNotSet': 'Exchange rate not set',
+  'transaction.feeWithCurrency': 'Transfer Fee ({currency}, optional)',
+  'transaction.feePlaceholder': 'e.g. 6500',
+
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.add': 'Add',
+
+  'transaction.confirmDelete': 'Are you sure you want to delete this transaction?',
+  'transaction.pageTitle': 'Transaction Management',
+  'transaction.addTransaction': 'Add Transaction',
+  'transaction.editTransaction': 'Edit Transaction',
+  'transaction.searchPlaceholder': 'Search (description, category, account, tags) or #tag...',
+
+  'common.amount': 'Amount',
+  'common.actions': 'Actions',
+
+  'transaction.recurringHint': 'Recurring transaction',
+  'transaction.transfer': 'Transfer',
+  'transaction.received': 'Received {amount}',
+  'transaction.fee': 'Fee {amount}',
+
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+
+  'transaction.noMatches': 'No matching transactions yet.',
+  'transaction.noun': 'Transaction',
+
+  'recurring.endRequired': 'Please fill in an end date or number of occurrences.',
+  'recurring.endBeforeStart': 'The end date cannot be before the start date.',
+  'recurring.startDate': 'Start Date',
+  'recurring.frequency': 'Frequency',
+  'recurring.frequency.daily': 'Daily',
+  'recurring.frequency.weekly': 'Weekly',
+  'recurring.frequency.monthly': 'Monthly',
+  'recurring.frequency.yearly': 'Yearly',
+  'recurring.interval': 'Every (periods)',
+  'recurring.dayOfMonth': 'Day of the Month',
+  'recurring.sameAsStart': 'Same as start date',
+  'recurring.dayN': 'Day {day}',
+  'recurring.lastDayOfMonth': 'Last day of the month',
+  'recurring.ends': 'Ends',
+  'recurring.ends.never': 'Never',
+  'recurring.ends.date': 'On a date',
+  'recurring.ends.count': 'After a number of occurrences',
+  'recurring.endDate': 'End Date',
+  'recurring.occurrences': 'Number of Occurrences',
+  'recurring.noneScheduled': 'No recurring transactions scheduled.',
+  'recurring.editOccurrence': 'Edit One Occurrence',
+  'recurring.modified': '(modified)',
+  'recurring.editThisOccurrence': 'Edit this occurrence',
+  'recurring.unskip': 'Undo skip',
+  'recurring.skip': 'Skip this occurrence',
+  'recurring.confirmDelete': 'Are you sure you want to delete this recurring transaction? Transactions already recorded will not be deleted.',
+  'recurring.pageTitle': 'Recurring Transactions',
+  'recurring.noun': 'Recurring Transaction',
+  'recurring.add': 'Add Recurring Transaction',
+  'recurring.edit': 'Edit Recurring Transaction',
+  'recurring.finished': 'Finished',
+  'recurring.next': 'Next: {date}',
+  'recurring.empty': 'No recurring transactions yet. Add your salary, rent or subscriptions to record them automatically.',
+  'recurring.schedule60': 'Schedule for the Next 60 Days',
+
+  'form.allFields': 'Please fill in all fields.',
+
+  'budget.expenseCategory': 'Expense Category',
+  'budget.amountWithCurrency': 'Budget Amount ({currency})',
+  'budget.period': 'Period',
+  'budget.confirmDelete': 'Are you sure you want to delete this budget?',
+  'budget.pageTitle': 'Budget Management',
+  'budget.noun': 'Budget',
+  'budget.add': 'Add Budget',
+  'budget.edit': 'Edit Budget',
+  'budget.periodLabel': 'Period: {period}',
+  'budget.remaining': 'Remaining: {amount}',
+  'budget.over': 'Over: {amount}',
+  'budget.empty': 'No budgets created yet.',
+
+  'reports.title': 'Financial Reports',
+  'reports.cashFlow': 'Cash Flow Report',
+  'reports.totalIncome': 'Total Income',
+  'reports.totalExpenses': 'Total Expenses',
+  'reports.expenseByCategory': 'Expenses by Category',
+
+  'accountType.bank': 'Bank',
+  'accountType.ewallet': 'E-Wallet',
+  'accountType.creditCard': 'Credit Card',
+  'accountType.cash': 'Cash',
+
+  'currency.IDR': 'Indonesian Rupiah (IDR)',
+  'currency.USD': 'US Dollar (USD)',
+  'currency.EUR': 'Euro (EUR)',
+  'currency.SGD': 'Singapore Dollar (SGD)',
+  'currency.MYR': 'Malaysian Ringgit (MYR)',
+  'currency.JPY': 'Japanese Yen (JPY)',
+  'currency.AUD': 'Australian Dollar (AUD)',
+  'currency.SAR': 'Saudi Riyal (SAR)',
+
+  'category.inUseAlert': 'This category cannot be deleted because it has related transactions.',
+  'category.confirmDelete': 'Are you sure you want to delete this category?',
+  'category.title': 'Category Management',
+  'category.noun': 'Category',
+  'category.add': 'Add Category',
+  'category.edit': 'Edit Category',
+  'category.name': 'Category Name',
+  'category.type': 'Category Type',
+
+  'common.icon': 'Icon',
+
+  'category.color': 'Color (Tailwind Class)',
+  'category.inUseHint': 'Categories with related transactions cannot be deleted.',
+  'category.empty': 'No categories yet.',
+
+  'account.title': 'Account Management',
+  'account.noun': 'Account',
+  'account.add': 'Add Account',
+  'account.edit': 'Edit Account',
+  'account.name': 'Account Name',
+  'account.type': 'Account Type',
+
+  'common.currency': 'Currency',
+
+  'account.currencyLocked': 'The currency cannot be changed once the account has transactions.',
+  'account.openingBalance': 'Opening Balance ({currency})',
+  'account.openingBalanceHint': 'The balance before the first transaction. The current balance is calculated from the opening balance and all transactions. For credit cards, enter the amount owed as a negative number.',
+  'account.inUseHint': 'Accounts with related transactions cannot be deleted.',
+  'account.empty': 'No accounts yet.',
+
+  'rate.sameCurrency': 'The source and target currencies must be different.',
+  'rate.mustBePositive': 'The rate must be greater than 0.',
+  'rate.duplicate': 'A {from}/{to} rate already exists. Edit the existing rate.',
+  'rate.title': 'Exchange Rates',
+  'rate.noun': 'Rate',
+  'rate.description': 'Totals, charts and budgets are shown in {baseCurrency}. Rates work in both directions and can be chained, e.g. SGD → USD → {baseCurrency}.',
+  'rate.add': 'Add Rate',
+  'rate.edit': 'Edit Rate',
+  'rate.fromCurrency': 'From Currency',
+  'rate.toCurrency': 'To Currency',
+  'rate.rateLabel': 'Rate (1 {from} = ... {to})',
+  'rate.placeholder': 'e.g. 16250',
+  'rate.missing': 'No rate yet from {currencies} to {baseCurrency}.',
+  'rate.updated': 'Updated {date}',
+  'rate.empty': 'No exchange rates yet.',
+
+  'preferences.title': 'App Preferences',
+  'preferences.theme': 'App Theme',
+  'preferences.darkMode': 'Dark Mode',
+  'preferences.lightMode': 'Light Mode',
+  'preferences.language': 'Language',
+  'preferences.baseCurrency': 'Base Currency',
+  'preferences.baseCurrencyHint': 'Totals, charts and budgets are converted to this currency using the exchange rate table.',
+  'preferences.dateFormat': 'Date Format',
+
+  'import.field.type': 'Type (Debit/Credit)',
+  'import.columnN': 'Column {n}',
+  'import.emptyFile': 'The CSV file is empty or cannot be read.',
+  'import.error.noDescription': 'Missing description',
+  'import.error.invalidDate': 'Invalid date',
+  'import.error.invalidAmount': 'Invalid amount',
+  'import.error.unknownType': 'Unrecognized type',
+  'import.warning.categoryNotFound': 'Category "{name}" not found',
+  'import.error.noCategory': 'No category selected',
+  'import.warning.accountNotFound': 'Account "{name}" not found',
+  'import.error.noAccount': 'No account selected',
+  'import.nothingSelected': 'No rows are selected for import.',
+  'import.success': '{count} transactions imported.',
+  'import.uploadHint': 'Choose a CSV file exported from your bank or e-wallet statement. Comma, semicolon and tab delimiters are detected automatically.',
+  'import.csvFile': 'CSV File',
+  'import.dataRows': '{count} data rows',
+  'import.hasHeader': 'The first row contains column headings',
+  'import.selectColumn': 'Select Column',
+  'import.notUsed': 'Not used',
+  'import.fallbackType': 'When the Type Is Unknown',
+  'import.fallback.sign': 'From the amount sign (negative = expense)',
+  'import.fallback.expense': 'All expenses',
+  'import.fallback.income': 'All income',
+  'import.defaultAccount': 'Default Account',
+  'import.defaultExpenseCategory': 'Default Expense Category',
+  'import.defaultIncomeCategory': 'Default Income Category',
+  'import.missingRequired': 'Required columns not mapped: {fields}',
+
+  'common.back': 'Back',
+
+  'import.preview': 'Preview',
+  'import.selected': '{count} selected',
+  'import.possibleDuplicates': '{count} possible duplicates',
+  'import.invalid': '{count} invalid',
+
+  'common.status': 'Status',
+
+  'import.possibleDuplicate': 'Possible duplicate',
+  'import.ready': 'Ready',
+  'import.importCount': 'Import {count} Transactions',
+
+  'export.toAccount': 'Destination Account',
+  'export.sentAmount': 'Amount Sent',
+  'export.receivedAmount': 'Amount Received',
+  'export.fee': 'Fee',
+  'export.startDate': 'From Date (optional)',
+  'export.endDate': 'To Date (optional)',
+  'export.summary': '{count} of {total} transactions will be exported. Accounts, categories, budgets, recurring transactions and exchange rates are always included in the JSON file.',
+  'export.csv': 'Export Transactions (CSV)',
+  'export.json': 'Export All Data (JSON)',
+
+  'common.close': 'Close',
+
+  'ledger.invalidAmount': 'Invalid amount',
+  'ledger.invalidFee': 'Invalid transfer fee',
+  'ledger.invalidDate': 'Invalid date',
+  'ledger.accountNotFound': 'Account not found',
+  'ledger.toAccountNotFound': 'Transfer destination account not found',
+  'ledger.sameAccount': 'Transfer source and destination accounts are the same',
+  'ledger.missingToAmount': 'Cross-currency transfer without an amount received',
+  'ledger.categoryNotFound': 'Category not found',
+
+  'verify.confirmAdjust': 'Adjust the opening balance of {account} by {amount} to match the actual balance?',
+  'verify.description': 'Balances are recalculated from the opening balance and all transactions. Enter the actual balance (e.g. from your banking app) to check for differences.',
+  'verify.openingBalance': 'Opening Balance',
+  'verify.inflow': 'In',
+  'verify.outflow': 'Out',
+  'verify.computedBalance': 'Calculated Balance',
+  'verify.actualBalance': 'Actual Balance',
+  'verify.difference': 'Difference {amount}',
+  'verify.adjust': 'Adjust opening balance',
+  'verify.issuesFound': '{count} problems found in transactions',
+  'verify.noIssues': 'No problems in {count} transactions.',
+
+  'data.title': 'Data Management',
+  'data.storageIndexedDB': 'Data is stored in this browser\'s IndexedDB.',
+  'data.storageLocalStorage': 'IndexedDB is not available; data is stored in this browser\'s localStorage.',
+  'data.importCsv': 'Import Data from CSV',
+  'data.export': 'Export Data',
+  'data.exportButton': 'Export Data (CSV/JSON)',
+  'data.verify': 'Verify Balances',
+  'data.verifyButton': 'Verify & Recalculate Balances',
+  'data.resetWarning': 'Warning: Resetting will permanently delete all your data.',
+
+  'profile.title': 'Profile Settings',
+  'profile.email': 'Registered Email',
+  'profile.newPassword': 'New Password',
+  'profile.newPasswordPlaceholder': 'Enter a new password',
+  'profile.confirmPassword': 'Confirm New Password',
+  'profile.confirmPasswordPlaceholder': 'Confirm the new password',
+  'profile.save': 'Change Password',
+
+  'settings.tab.categories': 'Categories',
+  'settings.tab.accounts': 'Accounts',
+  'settings.tab.currencies': 'Rates',
+  'settings.tab.preferences': 'Preferences',
+  'settings.tab.data': 'Data',
+  'settings.tab.profile': 'Profile',
+
+  'transaction.filter.title': 'Filters',
+  'transaction.filter.reset': 'Clear Filters',
+  'transaction.filter.startDate': 'From Date',
+  'transaction.filter.endDate': 'To Date',
+  'transaction.filter.minAmount': 'Minimum Amount ({currency})',
+  'transaction.filter.maxAmount': 'Maximum Amount ({currency})',
+  'transaction.filter.allTypes': 'All Types',
+  'transaction.filter.transfersHaveNoCategory': 'Transfers have no category.',
+  'transaction.filter.amountHint': 'Amounts are compared in each transaction\'s account currency.',
+  'transaction.pagination.showing': 'Showing {start}–{end} of {total} transactions',
+  'transaction.pagination.page': 'Page {page} of {pageCount}',
+  'transaction.pagination.previous': 'Previous',
+  'transaction.pagination.next': 'Next',
+  'transaction.split.start': 'Split across categories',
+  'transaction.split.title': 'Category Breakdown',
+  'transaction.split.removeLine': 'Remove line',
+  'transaction.split.addLine': 'Add line',
+  'transaction.split.cancel': 'Use a single category',
+  'transaction.split.remaining': 'Unallocated: {amount}',
+  'transaction.split.incompleteLine': 'Every breakdown line needs a category and an amount greater than 0.',
+  'transaction.split.totalMismatch': 'The breakdown must add up to the transaction total. Difference: {amount}.',
+
+  'export.splitLine': '{category}: {amount}',
+
+  'ledger.splitCategoryNotFound': 'Category in the breakdown not found',
+  'ledger.splitTotalMismatch': 'Category breakdown does not add up to the total',
+
+  'transaction.split.badge': 'Split ({count})',
+
+  'budget.customPeriod': 'Every {days} days',
+  'budget.alert.reached': '{category} spending has reached {threshold}% of its budget: {spent} of {available}.',
+  'budget.invalidPeriodDays': 'The period length must be at least 1 day.',
+  'budget.invalidAlertThresholds': 'Alert thresholds must be positive percentages separated by commas.',
+  'budget.period.custom': 'Custom',
+  'budget.periodDays': 'Period Length (days)',
+  'budget.rollover': 'Carry unspent or overspent amounts into the next period',
+  'budget.alertThresholds': 'Alert at (% of budget, comma-separated)',
+  'budget.currentPeriod': 'This period: {start} – {end}',
+  'budget.carriedOver': 'Carried over: {amount}',
+  'budget.history.title': 'Budget History: {category}',
+  'budget.history.show': 'History',
+  'budget.history.period': 'Period',
+  'budget.history.budgeted': 'Budgeted',
+  'budget.history.actual': 'Actual',
+  'budget.history.variance': 'Variance',
+  'budget.history.averageOverspend': 'Average overspend',
+  'budget.history.overspentPeriods': 'Over budget in {count} of {total} completed periods',
+  'budget.history.suggestion': 'Suggestion for the next period (average of the last {count} periods)',
+  'budget.history.applySuggestion': 'Apply',
+  'budget.history.noCompletedPeriods': 'No completed periods yet.',
+  'budget.history.suggestionApplied': 'Budget amount changes to {amount} from the next period ({date}).',
+
+  'reports.range': 'Date Range',
+  'reports.range.thisMonth': 'This month',
+  'reports.range.lastMonth': 'Last month',
+  'reports.range.thisQuarter': 'This quarter',
+  'reports.range.yearToDate': 'Year to date',
+  'reports.range.allTime': 'All time',
+  'reports.range.custom': 'Custom',
+  'reports.comparedWith': '{start} – {end}, compared with {previousStart} – {previousEnd}',
+  'reports.allTimeRange': 'All transactions, {start} – {end}',
+  'reports.categoryComparison': 'Comparison by Category',
+  'reports.accountComparison': 'Balance Change by Account',
+  'reports.currentPeriod': 'This Period',
+  'reports.previousPeriod': 'Previous Period',
+  'reports.change': 'Change',
+  'reports.noTransactions': 'No transactions in either period.',
+
+  'dashboard.noNetWorthData': 'No net worth data.',
+  'dashboard.netWorth': 'Net Worth',
+  'dashboard.assets': 'Assets',
+  'dashboard.liabilities': 'Liabilities',
+  'dashboard.netWorthTrend': 'Net Worth Trend',
+  'dashboard.netWorthGranularity': 'Net worth trend range',
+  'dashboard.netWorthMonthly': '12 months',
+  'dashboard.netWorthDaily': '30 days',
+
+  'account.invalidDay': 'Closing and due days must be between 1 and 31.',
+  'account.dueDayNeedsClosingDay': 'Enter a statement closing day so the due date can be worked out.',
+  'account.creditLimit': 'Credit Limit ({currency})',
+  'account.statementClosingDay': 'Statement Closing Day',
+  'account.paymentDueDay': 'Payment Due Day',
+  'account.availableCredit': 'Available credit: {amount} of {limit}',
+
+  'creditCard.title': 'Credit Card Statements',
+  'creditCard.statement': 'Statement {date}: {amount}',
+  'creditCard.available': '{amount} available',
+  'creditCard.settled': 'Paid in full',
+  'creditCard.due': 'Due {date}: {amount} left, minimum {minimum}',
+  'creditCard.overdue': 'Overdue since {date}: {amount} left, minimum {minimum}',
+  'creditCard.dueUnknown': '{amount} left, minimum {minimum}',
+  'creditCard.pay': 'Pay',
+  'creditCard.payTitle': 'Pay {card}',
+  'creditCard.payFrom': 'Pay from Account',
+  'creditCard.paymentDescription': '{card} payment',
+  'creditCard.noSourceAccounts': 'No account in {currency} to pay this card from.',
+
+  'storage.collection.goals': 'Savings Goals',
+
+  'nav.goals': 'Savings Goals',
+
+  'goal.pageTitle': 'Savings Goals',
+  'goal.noun': 'Goal',
+  'goal.add': 'Add Goal',
+  'goal.edit': 'Edit Goal',
+  'goal.confirmDelete': 'Are you sure you want to delete this goal?',
+  'goal.empty': 'No savings goals yet.',
+  'goal.name': 'Goal Name',
+  'goal.namePlaceholder': 'e.g. Emergency Fund',
+  'goal.linkedAccount': 'Savings Account',
+  'goal.noLinkedAccount': 'None (record contributions by hand)',
+  'goal.linkedAccountHint': 'The saved amount is how much this account\'s balance has changed since the start date.',
+  'goal.manualHint': 'Record each contribution or withdrawal on this goal.',
+  'goal.targetAmount': 'Target Amount ({currency})',
+  'goal.targetDate': 'Target Date',
+  'goal.targetBeforeStart': 'The target date cannot be before the start date.',
+  'goal.withdrawal': 'Withdrawal',
+  'goal.contributionAmount': 'Amount ({currency})',
+  'goal.note': 'Note',
+  'goal.confirmDeleteContribution': 'Delete this contribution?',
+  'goal.noContributions': 'No contributions yet.',
+  'goal.addContribution': 'Contribution to {goal}',
+  'goal.contributions': 'Contributions: {goal}',
+  'goal.contribute': 'Add contribution',
+  'goal.showContributions': 'Contribution history',
+  'goal.targetDateLabel': 'Target: {date}',
+  'goal.progress': '{percent}% reached',
+  'goal.reached': 'Goal reached!',
+  'goal.requiredMonthly': 'Save {amount} per month to stay on track',
+  'goal.monthlyPace': 'Last 3 months: {amount} per month',
+  'goal.projectedDate': 'Projected completion: {date}',
+  'goal.noProjection': 'No recent contributions to project a completion date.',
+
+  'loan.installmentDescription': '{loan} installment {number}/{tenor}',
+
+  'storage.collection.loans': 'Loans',
+
+  'nav.loans': 'Loans',
+
+  'loan.pageTitle': 'Loans & Installments',
+  'loan.noun': 'Loan',
+  'loan.add': 'Add Loan',
+  'loan.edit': 'Edit Loan',
+  'loan.empty': 'No loans yet.',
+  'loan.confirmDelete': 'Delete this loan? Installments already posted stay as ordinary transactions.',
+  'loan.confirmPost': 'Post installment {number} of {amount}?',
+  'loan.invalidTerms': 'The principal must be above 0, the interest rate cannot be negative and the tenor must be at least 1 month.',
+  'loan.name': 'Loan Name',
+  'loan.namePlaceholder': 'e.g. Mortgage, Motorbike',
+  'loan.paymentAccount': 'Paid from Account',
+  'loan.principal': 'Principal ({currency})',
+  'loan.annualInterestRate': 'Annual Interest Rate (%)',
+  'loan.interestMethod': 'Interest Method',
+  'loan.interestMethod.annuity': 'Annuity',
+  'loan.interestMethod.flat': 'Flat',
+  'loan.tenorMonths': 'Tenor (months)',
+  'loan.startDate': 'Start Date',
+  'loan.startDateHint': 'The first installment is due one month after the start date.',
+  'loan.principalCategory': 'Principal Category',
+  'loan.interestCategory': 'Interest Category',
+  'loan.scheduleTitle': 'Amortization Schedule: {loan}',
+  'loan.showSchedule': 'Amortization schedule',
+  'loan.dueDate': 'Due Date',
+  'loan.installment': 'Installment',
+  'loan.principalPart': 'Principal',
+  'loan.interestPart': 'Interest',
+  'loan.remainingBalance': 'Remaining Balance',
+  'loan.paid': 'Paid',
+  'loan.terms': '{principal} · {rate}% a year ({method}) · {tenor} months',
+  'loan.remainingBalanceLabel': 'Remaining: {amount}',
+  'loan.paidCount': '{paid}/{tenor} installments',
+  'loan.payoffDate': 'Paid off on: {date}',
+  'loan.remainingInterest': 'Interest left: {amount} of {total}',
+  'loan.nextInstallment': 'Installment {number}, due {date}: {amount}',
+  'loan.installmentBreakdown': 'Principal {principal} + interest {interest}',
+  'loan.post': 'Post Payment',
+  'loan.paidOff': 'This loan is paid off.',
+
+  'auth.passwordTooShort': 'The password must be at least 8 characters long.',
+  'auth.emailTaken': 'This email is already registered on this device.',
+  'auth.invalidCredentials': 'Incorrect email or password.',
+  'auth.passwordMismatch': 'The passwords do not match.',
+
+  'profile.wrongPassword': 'The current password is incorrect.',
+
+  'auth.localAccountNote': '(Accounts only exist in this browser, and each account has its own data)',
+
+  'profile.currentPassword': 'Current Password',
+  'profile.passwordChanged': 'Your password has been changed.',
+
+  'auth.lockedTitle': 'Data Locked',
+  'auth.lockedDescription': 'The data of {email} is encrypted. Enter your password to unlock it.',
+  'auth.unlock': 'Unlock',
+
+  'encryption.title': 'Data Encryption',
+  'encryption.disabledDescription': 'Your financial data is stored unencrypted in this browser. Turn on encryption so it can only be read after entering your password.',
+  'encryption.enabledDescription': 'Your financial data is encrypted (AES-GCM) with a key derived from your password, and locks automatically after {minutes} minutes of inactivity. If the password is lost, the data cannot be recovered.',
+  'encryption.enable': 'Turn On Encryption',
+  'encryption.disable': 'Turn Off Encryption',
+  'encryption.lockNow': 'Lock Now',
+  'encryption.confirmDisable': 'Turn off encryption? Your data will be stored unencrypted again.',
+
+  'transaction.tags': 'Tags',
+  'transaction.tagsPlaceholder': 'e.g. liburan-bali, kantor, reimburse',
+  'transaction.removeTag': 'Remove tag',
+  'transaction.filterByTag': 'Show transactions with this tag',
+  'transaction.notes': 'Notes',
+  'transaction.notesPlaceholder': 'Additional notes (optional)',
+
+  'reports.expenseByTag': 'Expenses by Tag',
+  'reports.tagCategories': 'Categories (this period)',
+  'reports.noTaggedExpenses': 'No tagged expenses in either period.',
+
+  'transaction.attachment.title': 'Receipt Attachments',
+  'transaction.attachment.add': 'Attach a photo or PDF (max. {size} MB)',
+  'transaction.attachment.remove': 'Remove attachment',
+  'transaction.attachment.rejected': 'Only photos or PDFs up to {size} MB can be attached.',
+  'transaction.attachment.saveFailed': 'The attachment could not be saved.',
+  'transaction.attachment.unsupported': 'Attachments need IndexedDB, which is not available in this browser.',
+  'transaction.attachment.download': 'Download',
+  'transaction.attachment.missing': 'The attached file could not be found.',
+
+  'export.includeAttachments': 'Include receipt files in the JSON backup (larger file)',
+
+  'storage.collection.rules': 'Category rules',
+
+  'rule.suggestion': 'Rule "{rule}" suggests the category {category}.',
+  'rule.apply': 'Apply',
+  'rule.dismiss': 'Dismiss suggestion',
+
+  'import.ruleApplied': 'Rule: {rule}',
+
+  'category.usedByRuleAlert': 'This category cannot be deleted because a category rule uses it. Change or delete the rule first.',
+
+  'rule.title': 'Category Rules',
+  'rule.noun': 'Rule',
+  'rule.add': 'Add Rule',
+  'rule.edit': 'Edit Rule',
+  'rule.empty': 'No category rules yet.',
+  'rule.hint': 'Rules fill in category, type and tags automatically: as a suggestion when entering a transaction and as the default when importing a CSV. The topmost matching rule is used.',
+  'rule.confirmDelete': 'Delete this rule?',
+  'rule.name': 'Rule Name',
+  'rule.namePlaceholder': 'e.g. Groceries',
+  'rule.conditions': 'When',
+  'rule.actions': 'Then',
+  'rule.matchMode': 'Match Description',
+  'rule.matchMode.contains': 'Contains text',
+  'rule.matchMode.regex': 'Regular expression',
+  'rule.descriptionPattern': 'Description Pattern',
+  'rule.containsPlaceholder': 'e.g. supermarket',
+  'rule.regexPlaceholder': 'e.g. ^(uber|lyft)',
+  'rule.minAmount': 'Minimum Amount',
+  'rule.maxAmount': 'Maximum Amount',
+  'rule.anyAmount': 'Any amount',
+  'rule.anyAccount': 'Any account',
+  'rule.deletedAccount': 'deleted account',
+  'rule.tags': 'Add Tags',
+  'rule.enabled': 'Enabled',
+  'rule.disabled': 'disabled',
+  'rule.enable': 'Enable',
+  'rule.disable': 'Disable',
+  'rule.moveUp': 'Raise priority',
+  'rule.moveDown': 'Lower priority',
+  'rule.noConditions': 'Set at least one condition: a description pattern, an amount range or an account.',
+  'rule.invalidRegex': 'The regular expression is not valid.',
+  'rule.invalidAmountRange': 'The minimum amount cannot be greater than the maximum amount.',
+  'rule.summary.contains': 'description contains "{pattern}"',
+  'rule.summary.regex': 'description matches /{pattern}/',
+  'rule.summary.minAmount': 'at least {amount}',
+  'rule.summary.maxAmount': 'at most {amount}',
+  'rule.summary.account': 'account {account}',
+  'rule.reapply.open': 'Apply to Transactions',
+  'rule.reapply.title': 'Re-apply Rules to Existing Transactions',
+  'rule.reapply.hint': '{count} transactions would change. Transfers, split transactions and loan installments are left as they are.',
+  'rule.reapply.noChanges': 'All transactions already follow the rules.',
+  'rule.reapply.change': 'Change',
+  'rule.reapply.applyCount': 'Apply {count} Changes',
+  'rule.reapply.success': '{count} transactions updated.',
+
+  'settings.tab.rules': 'Category Rules',
+
+  'budget.includesSubcategories': 'Includes subcategories',
+
+  'category.withoutSubcategory': '{name} (no subcategory)',
+
+  'chart.allCategories': 'All categories',
+  'chart.drillDownHint': 'Click a category to see its subcategories.',
+
+  'reports.showSubcategories': 'Show subcategories',
+  'reports.hideSubcategories': 'Hide subcategories',
+
+  'category.parent': 'Parent Category',
+  'category.noParent': 'None (top-level category)',
+  'category.hasSubcategoriesHint': 'This category has subcategories, so it cannot become a subcategory or change its type.',
+  'category.hasSubcategoriesAlert': 'This category cannot be deleted because it has subcategories. Move or delete its subcategories first.',
+
+  'encryption.disableFailed': 'Your data could not be stored unencrypted, so encryption stays on. Please try again later.',
+
+  'auth.dataKeyUnreadable': 'The data encryption key could not be opened. Your data stays locked.',
+
+  'encryption.enableFailed': 'Encryption could not be turned on in this browser.',
+
+  'storage.repairFailed': 'The data could not be repaired. Data from a newer version of the app, or data a migration failed on, is left unchanged; download the raw data as a backup, then use a newer version of the app or reset the data.',
+  'storage.loadFailedTitle': 'Data Could Not Be Loaded',
+  'storage.loadFailed': 'Browser storage could not be opened. Check the browser storage permissions, then try again.',
+  'storage.blocked': 'This app is still open in another tab with an older version. Close that tab, then try again.',
+  'storage.retry': 'Try Again',
+  'storage.downloadFailed': 'The raw data could not be read for download.',
+  'storage.resetFailed': 'The data could not be reset.',
+
+  'budget.amountChangeHint': 'A new amount applies from the current period; earlier periods keep their amounts.',
+
+  'loan.termsLocked': 'Installments have been recorded, so the loan terms can no longer change. The name and categories can still be edited.',
+
+  'export.failed': 'The backup could not be created. Please try again.',
+
+  'preferences.confirmBaseCurrencyConversion': 'Budget amounts will be converted from {from} to {to} using the exchange rate table. Continue?',
+  'preferences.confirmBaseCurrencyWithoutRate': 'The exchange rate table has no rate from {from} to {to}, so budget amounts cannot be converted and their numbers will be read as {to}. Change the base currency anyway?',
+
+  'storage.saveFailed': 'Changes to {collections} have not been saved and will be lost when the page reloads.',
+  'storage.placeholderAccount': 'Recovered Account',
+  'storage.placeholderCategory': 'Recovered Category',
+};
+
+export const MESSAGES: Record<Settings['language'], Record<MessageKey, string>> = { id, en };
+
+// Looks up a message in the given language, falling back to Indonesian, and fills in its placeholders
+export const translate = (language: Settings['language'], key: MessageKey, params?: MessageParams): string => {
+  const message = MESSAGES[language]?.[key] ?? MESSAGES.id[key] ?? key;
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) => name in params ? String(params[name]) : placeholder);
+};
+
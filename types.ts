@@ -8,7 +8,23 @@ export enum ThemeMode {
     id: string;
     email: string;
     name?: string;
-    // Mocked: no password stored client-side
+  }
+
+  // A local account as kept on this device; the password itself is never stored, only its PBKDF2 hash
+  export interface StoredUser extends User {
+    passwordHash: string; // Base64
+    passwordSalt: string; // Base64
+    passwordIterations: number;
+    dataNamespace: string; // Prefix of this user's data in storage; '' for the data kept from before accounts existed
+    dataKey?: WrappedDataKey; // Present while the user's data is encrypted at rest
+  }
+
+  // The AES-GCM key that encrypts a user's stored records, itself encrypted with a key derived from the user's password
+  export interface WrappedDataKey {
+    salt: string; // Base64
+    iterations: number;
+    iv: string; // Base64
+    key: string; // Base64
   }
   
   export enum AccountType {
@@ -18,13 +34,23 @@ export enum ThemeMode {
     CASH = 'Tunai'
   }
   
+  export type CurrencyCode = 'IDR' | 'USD' | 'EUR' | 'SGD' | 'MYR' | 'JPY' | 'AUD' | 'SAR';
+
   export interface Account {
     id: string;
     name: string;
     type: AccountType;
-    balance: number;
+    currency: CurrencyCode; // Every amount recorded on this account is in this currency
+    openingBalance: number; // Balance before any recorded transaction
+    balance: number; // Derived from openingBalance and the transaction ledger, never persisted
     icon?: string; // e.g., FontAwesome class
+    // Credit cards only
+    creditLimit?: number;
+    statementClosingDay?: number; // 1-31, clamped to the month's length
+    paymentDueDay?: number; // 1-31; in the month after closing when not after the closing day
   }
+
+  export type StoredAccount = Omit<Account, 'balance'>;
   
   export enum CategoryType {
     INCOME = 'income',
@@ -37,36 +63,159 @@ export enum ThemeMode {
     type: CategoryType;
     icon?: string; // e.g., FontAwesome class
     color?: string; // e.g., Tailwind color class or hex
+    parentId?: string; // Makes this a subcategory of a top-level category of the same type
   }
   
+  // Transfers move money between two of the user's accounts and are neither income nor expense
+  export type TransactionType = CategoryType | 'transfer';
+
+  // One category line of a split income or expense, in the transaction's currency
+  export interface TransactionSplit {
+    categoryId: string;
+    amount: number;
+  }
+
   export interface Transaction {
     id: string;
     date: string; // ISO string for simplicity, format on display
     description: string;
-    amount: number;
-    type: CategoryType;
-    categoryId: string;
-    accountId: string;
+    amount: number; // In the currency of accountId
+    type: TransactionType;
+    categoryId: string; // Empty for transfers; the first split line's category for split transactions
+    splits?: TransactionSplit[]; // Income/expense spread over several categories; line amounts sum to amount
+    accountId: string; // Source account for transfers
+    toAccountId?: string; // Destination account, transfers only
+    fee?: number; // Transfers only, charged to the source account on top of amount
+    toAmount?: number; // Transfers between accounts in different currencies: amount received, in the destination's currency
+    recurringId?: string; // Set when posted from a recurring transaction
+    loanId?: string; // Set when posted as a loan installment
+    tags?: string[]; // Normalized: lowercase, no leading '#', dashes instead of spaces
+    notes?: string;
+    attachments?: TransactionAttachment[]; // Receipts; the files themselves are stored apart from the records
+  }
+
+  export interface TransactionAttachment {
+    id: string; // Key of the file in the attachment store
+    name: string;
+    type: string; // MIME type
+    size: number; // Bytes
+    thumbnail?: string; // Small JPEG data URL, images only
+  }
+
+  export enum RecurrenceFrequency {
+    DAILY = 'daily',
+    WEEKLY = 'weekly',
+    MONTHLY = 'monthly',
+    YEARLY = 'yearly',
+  }
+
+  export interface RecurringTransaction extends Omit<Transaction, 'id' | 'date' | 'recurringId'> {
+    id: string;
+    frequency: RecurrenceFrequency;
+    interval: number; // Repeat every N periods
+    startDate: string; // ISO string, first occurrence
+    endDate?: string; // ISO string, no occurrences after this date
+    maxOccurrences?: number; // Stop after this many occurrences
+    dayOfMonth?: number; // Monthly only: 1-31 (clamped to month length) or -1 for the last day
+    processedCount: number; // Occurrences already posted or skipped
+    skippedDates: string[]; // Scheduled dates (YYYY-MM-DD) that must not be posted
+    overrides: { [scheduledDate: string]: Omit<Transaction, 'id' | 'recurringId'> }; // Single-occurrence edits
   }
   
+  // Manually maintained: 1 fromCurrency = rate toCurrency. Also used in reverse and chained to reach other currencies.
+  export interface ExchangeRate {
+    id: string;
+    fromCurrency: CurrencyCode;
+    toCurrency: CurrencyCode;
+    rate: number;
+    updatedAt: string; // ISO string
+  }
+
   export enum BudgetPeriod {
+    WEEKLY = 'weekly',
     MONTHLY = 'monthly',
     YEARLY = 'yearly',
+    CUSTOM = 'custom', // Every `periodDays` days
   }
   
+  export interface BudgetAmountChange {
+    effectiveDate: string; // ISO string, start of the first period with this amount
+    amount: number; // Per period, in the base currency
+  }
+
   export interface Budget {
     id: string;
     categoryId: string;
-    amount: number;
+    amount: number; // Per period, in the base currency, until the first amount change
+    amountChanges?: BudgetAmountChange[]; // Oldest first; each applies until the next one
     period: BudgetPeriod;
-    startDate: string; // ISO string
-    // endDate derived or also stored
+    periodDays?: number; // Custom periods only: length in days
+    startDate: string; // ISO string, start of the first period; periods repeat from here
+    rollover?: boolean; // Carry what is left (or overspent) in a period into the next one
+    alertThresholds?: number[]; // Percentages of the available amount that raise an in-app alert, e.g. [80, 100]
+  }
+  
+  export interface GoalContribution {
+    id: string;
+    date: string; // ISO string
+    amount: number; // Negative for a withdrawal
+    note?: string;
+  }
+
+  export interface SavingsGoal {
+    id: string;
+    name: string;
+    icon?: string;
+    currency: CurrencyCode; // The linked account's currency when there is one
+    targetAmount: number;
+    targetDate: string; // ISO string
+    startDate: string; // ISO string, when saving began
+    accountId?: string; // Linked account: the saved amount follows its balance
+    contributions: GoalContribution[]; // Recorded by hand; only used without a linked account
+  }
+  
+  export enum LoanInterestMethod {
+    ANNUITY = 'annuity', // Fixed installment, interest on the remaining principal
+    FLAT = 'flat', // Interest on the original principal every month
+  }
+
+  export interface Loan {
+    id: string;
+    name: string;
+    principal: number; // In the payment account's currency
+    annualInterestRate: number; // Percent per year
+    interestMethod: LoanInterestMethod;
+    tenorMonths: number;
+    startDate: string; // ISO string, when the loan was taken; installments fall due monthly from a month later
+    accountId: string; // Installments are paid from this account
+    principalCategoryId: string; // Expense category for the principal part of an installment
+    interestCategoryId: string; // Expense category for the interest part
+  }
+
+  export enum RuleMatchMode {
+    CONTAINS = 'contains', // Description contains the pattern, ignoring case
+    REGEX = 'regex', // Description matches the pattern as a case-insensitive regular expression
+  }
+
+  // Sets category, type and tags of matching incomes and expenses. Rules are kept in priority order; the first matching rule wins.
+  export interface CategorizationRule {
+    id: string;
+    name: string;
+    descriptionPattern?: string; // Empty matches every description
+    matchMode: RuleMatchMode;
+    minAmount?: number; // Inclusive, in the transaction's account currency
+    maxAmount?: number; // Inclusive
+    accountId?: string; // Only transactions of this account
+    type: CategoryType; // Type set by the rule, matching the category's type
+    categoryId: string;
+    tags?: string[]; // Added to the transaction's tags
+    enabled: boolean;
   }
   
   export interface Settings {
     theme: ThemeMode;
     language: 'id' | 'en'; // Default 'id'
-    currency: 'IDR' | 'USD'; // Default 'IDR'
+    currency: CurrencyCode; // Base currency for totals, default 'IDR'
     dateFormat: 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
   }
   